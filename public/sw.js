@@ -0,0 +1,385 @@
+// Service worker for Sunnah Tracker. It keeps the built app in a cache so it
+// opens offline, and shows reminder notifications. Reminders are worked out
+// here from the app's database rather than in the page, so they can come
+// while the app is closed without a push server.
+
+// Filled in by the build (see vite.config.ts). Empty during development,
+// where nothing is cached.
+const BUILD = { version: 'development', files: [] };
+
+const CACHE_PREFIX = 'sunnah-tracker-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD.version}`;
+
+self.addEventListener('install', (event) => {
+  // A new version waits until the page accepts the update prompt.
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) =>
+        cache.addAll(
+          BUILD.files.map((file) => new URL(file, self.registration.scope))
+        )
+      )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME
+          )
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+
+// Cache first for the app's own files. Every page URL gets the cached app
+// shell, which is what the network would return for it too.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (
+    BUILD.files.length === 0 ||
+    request.method !== 'GET' ||
+    !request.url.startsWith(self.registration.scope)
+  ) {
+    return;
+  }
+
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      const cached =
+        request.mode === 'navigate'
+          ? await cache.match(self.registration.scope)
+          : await cache.match(request, { ignoreSearch: true });
+      return cached ?? fetch(request);
+    })()
+  );
+});
+
+// The page sends a plan with what the worker cannot work out itself, such as
+// translated texts and the Hijri calendar (see ReminderPlan in
+// src/lib/reminders.ts). It is kept in its own cache, which the activate
+// handler leaves alone.
+const REMINDER_CACHE = 'sunnah-reminders';
+const REMINDER_SYNC_TAG = 'reminders';
+const DATABASE_NAME = 'sunnah-tracker';
+const DAYS_STORE = 'days';
+const SETTINGS_STORE = 'settings';
+
+const getReminderPlanUrl = () =>
+  new URL('reminder-plan', self.registration.scope);
+
+const saveReminderPlan = async (plan) => {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(getReminderPlanUrl(), new Response(plan));
+};
+
+const loadReminderPlan = async () => {
+  const cache = await caches.open(REMINDER_CACHE);
+  const response = await cache.match(getReminderPlanUrl());
+  return response ? response.json() : null;
+};
+
+// Opens the app's database as it is. The page creates and upgrades it, so
+// one that does not exist yet is left alone and there is nothing to remind.
+const openAppDatabase = () =>
+  new Promise((resolve) => {
+    const request = indexedDB.open(DATABASE_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+// Opens the database for one piece of work and closes it again, so the
+// worker never holds a connection that would block the page's upgrades.
+const withAppDatabase = async (work) => {
+  const database = await openAppDatabase();
+  if (!database) {
+    return;
+  }
+  try {
+    await work(database);
+  } finally {
+    database.close();
+  }
+};
+
+const readStored = (database, storeName, key) =>
+  new Promise((resolve, reject) => {
+    const request = database
+      .transaction(storeName)
+      .objectStore(storeName)
+      .get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const writeStored = (database, storeName, key, value) =>
+  new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+// Settings are stored as JSON text.
+const readStoredJson = async (database, key) => {
+  try {
+    return JSON.parse(await readStored(database, SETTINGS_STORE, key)) ?? {};
+  } catch {
+    return {};
+  }
+};
+
+// Local YYYY-MM-DD, as the app keys its days.
+const formatDateKey = (date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+const supportsTriggers = () =>
+  typeof TimestampTrigger !== 'undefined' &&
+  'showTrigger' in Notification.prototype;
+
+// When the reminder goes off on the day of `now`, or null if it is off or
+// does not apply that day.
+const getReminderTime = (reminder, setting, now) => {
+  if (
+    !setting?.enabled ||
+    (reminder.weekdays && !reminder.weekdays.includes(now.getDay()))
+  ) {
+    return null;
+  }
+  const [hours, minutes] = setting.time.split(':').map(Number);
+  return new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate(),
+    hours,
+    minutes
+  );
+};
+
+// The state keeps what happened to each reminder on `date`; an entry means
+// it was shown. A dismissed reminder stays quiet until tomorrow and a
+// snoozed one comes back at `snoozedUntil`.
+const getReminderDueTime = (time, status, todayKey) => {
+  if (!status || status.date !== todayKey) {
+    return time;
+  }
+  return !status.dismissed && status.snoozedUntil
+    ? new Date(status.snoozedUntil)
+    : null;
+};
+
+const showReminder = (plan, reminderId, showAt) => {
+  const { title, body } = plan.reminders[reminderId];
+  return self.registration.showNotification(title, {
+    body,
+    icon: new URL('logo.svg', self.registration.scope).href,
+    tag: `reminder:${reminderId}`,
+    data: { reminderId },
+    actions: [
+      { action: 'snooze', title: plan.actions.snooze },
+      { action: 'dismiss', title: plan.actions.dismiss },
+    ],
+    ...(showAt && { showTrigger: new TimestampTrigger(showAt.getTime()) }),
+  });
+};
+
+// Shows the reminders that are due and, where notification triggers are
+// supported, schedules the rest of today's. Scheduled ones are cancelled
+// and worked out again on every check, so ticking a habit in the meantime
+// stops its reminder. A reminder whose habit is already ticked, or whose
+// habit day the plan skips, stays quiet.
+const checkReminders = async () => {
+  const plan = await loadReminderPlan();
+  if (!plan || Notification.permission !== 'granted') {
+    return;
+  }
+  await withAppDatabase(async (database) => {
+    const now = new Date();
+    const todayKey = formatDateKey(now);
+    const settings = await readStoredJson(database, plan.settingsKey);
+    const state = await readStoredJson(database, plan.stateKey);
+    const triggers = supportsTriggers();
+    if (triggers) {
+      const scheduled = await self.registration.getNotifications({
+        includeTriggered: true,
+      });
+      scheduled
+        .filter(
+          (notification) =>
+            notification.data?.reminderId && notification.timestamp > now
+        )
+        .forEach((notification) => notification.close());
+    }
+    const displayed = await self.registration.getNotifications();
+
+    const due = [];
+    const later = [];
+    for (const [reminderId, reminder] of Object.entries(plan.reminders)) {
+      const time = getReminderTime(reminder, settings[reminderId], now);
+      const dueAt =
+        time && getReminderDueTime(time, state[reminderId], todayKey);
+      const habitDate = new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        now.getDate() + reminder.habitDayOffset
+      );
+      const habitDateKey = formatDateKey(habitDate);
+      if (!dueAt || reminder.skipDates.includes(habitDateKey)) {
+        continue;
+      }
+      if (reminder.habit) {
+        const record = await readStored(
+          database,
+          DAYS_STORE,
+          `${plan.dayKeyPrefix}${habitDateKey}`
+        );
+        if (record?.[reminder.habit]) {
+          continue;
+        }
+      }
+      if (dueAt <= now) {
+        due.push(reminderId);
+      } else if (triggers) {
+        later.push([reminderId, dueAt]);
+      }
+    }
+
+    // A triggered reminder is only recorded once it is due, when it is on
+    // screen already and is not shown a second time.
+    due.forEach((reminderId) => {
+      state[reminderId] = {
+        date: todayKey,
+        dismissed: false,
+        snoozedUntil: null,
+      };
+    });
+    if (due.length > 0) {
+      await writeStored(
+        database,
+        SETTINGS_STORE,
+        plan.stateKey,
+        JSON.stringify(state)
+      );
+    }
+    await Promise.all([
+      ...due
+        .filter(
+          (reminderId) =>
+            !displayed.some(
+              (notification) => notification.data?.reminderId === reminderId
+            )
+        )
+        .map((reminderId) => showReminder(plan, reminderId)),
+      ...later.map(([reminderId, dueAt]) =>
+        showReminder(plan, reminderId, dueAt)
+      ),
+    ]);
+  });
+};
+
+// Checks run one after another so a reminder is never shown twice.
+let reminderCheck = Promise.resolve();
+const queueReminderCheck = () => {
+  reminderCheck = reminderCheck.then(checkReminders).catch(() => undefined);
+  return reminderCheck;
+};
+
+// Records a snooze, a dismissal or an open for today. Opening counts as
+// shown, which matters for a triggered reminder not recorded yet.
+const recordReminderAction = async (reminderId, action) => {
+  const plan = await loadReminderPlan();
+  if (!plan) {
+    return;
+  }
+  await withAppDatabase(async (database) => {
+    const now = new Date();
+    const state = await readStoredJson(database, plan.stateKey);
+    state[reminderId] = {
+      date: formatDateKey(now),
+      dismissed: action === 'dismiss',
+      snoozedUntil:
+        action === 'snooze'
+          ? new Date(now.getTime() + plan.snoozeMinutes * 60_000).toISOString()
+          : null,
+    };
+    await writeStored(
+      database,
+      SETTINGS_STORE,
+      plan.stateKey,
+      JSON.stringify(state)
+    );
+  });
+};
+
+self.addEventListener('message', (event) => {
+  const type = event.data?.type;
+  if (type === 'skipWaiting') {
+    self.skipWaiting();
+  } else if (type === 'reminderPlan') {
+    event.waitUntil(
+      saveReminderPlan(event.data.plan).then(queueReminderCheck)
+    );
+  } else if (type === 'checkReminders') {
+    event.waitUntil(queueReminderCheck());
+  }
+});
+
+// Wakes the worker now and then while the app is closed, in browsers that
+// allow it.
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) {
+    event.waitUntil(queueReminderCheck());
+  }
+});
+
+const getWindows = () =>
+  self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+self.addEventListener('notificationclick', (event) => {
+  const reminderId = event.notification.data?.reminderId;
+  const action = event.action || 'open';
+  event.notification.close();
+
+  event.waitUntil(
+    (async () => {
+      if (reminderId) {
+        await recordReminderAction(reminderId, action);
+      }
+      // A snoozed reminder is scheduled again where triggers allow it.
+      if (action === 'snooze') {
+        await queueReminderCheck();
+      }
+      if (action !== 'open') {
+        return;
+      }
+      const windows = await getWindows();
+      if (windows.length > 0) {
+        await windows[0].focus();
+      } else {
+        await self.clients.openWindow(self.registration.scope);
+      }
+    })()
+  );
+});
+
+// Swiping a reminder away counts as dismissing it for the day.
+self.addEventListener('notificationclose', (event) => {
+  const reminderId = event.notification.data?.reminderId;
+  if (reminderId) {
+    event.waitUntil(recordReminderAction(reminderId, 'dismiss'));
+  }
+});
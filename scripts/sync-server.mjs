@@ -0,0 +1,65 @@
+// A stand-in sync server for local use and testing. It keeps one payload per
+// path in memory: GET returns it (404 before the first PUT) and PUT replaces
+// it. Payloads arrive encrypted, so the server never sees any records.
+//
+//   pnpm sync-server            # listens on http://localhost:8787
+//   PORT=9000 pnpm sync-server
+//
+// In the app, use a URL such as http://localhost:8787/sync/phone-and-laptop.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+const maxPayloadBytes = 10 * 1024 * 1024;
+const payloads = new Map();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const send = (response, status, body = '') => {
+  response.writeHead(status, {
+    ...corsHeaders,
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  });
+  response.end(body);
+};
+
+createServer((request, response) => {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (request.method === 'GET') {
+    const payload = payloads.get(pathname);
+    send(response, payload === undefined ? 404 : 200, payload ?? '');
+    return;
+  }
+  if (request.method !== 'PUT') {
+    send(response, 405);
+    return;
+  }
+
+  const chunks = [];
+  let size = 0;
+  request.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > maxPayloadBytes) {
+      send(response, 413);
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    payloads.set(pathname, Buffer.concat(chunks).toString('utf8'));
+    console.log(`${new Date().toISOString()} stored ${pathname} (${size} bytes)`);
+    send(response, 204);
+  });
+}).listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port}`);
+});
@@ -1,177 +1,252 @@
-import { useEffect, useMemo, useState } from 'react';
 import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import {
+  ArrowLeftRight,
+  BellRing,
   Book,
+  BookOpen,
   Check,
   ChevronDown,
   ChevronUp,
   Circle,
+  Clock,
   DollarSign,
+  Download,
   Dumbbell,
+  FileSpreadsheet,
+  Flame,
   Heart,
+  MapPin,
   Moon,
   Newspaper,
   Plus,
+  RefreshCw,
+  Repeat,
   Settings,
   Sun,
+  TriangleAlert,
   Users,
 } from 'lucide-react';
 import { loadLocale } from 'wuchale/load-utils';
-import HijriMonthlyCalendar from './components/HijriMonthlyCalendar';
+import AdhkarReaderDialog from './components/AdhkarReaderDialog';
+import AnalyticsView from './components/AnalyticsView';
+import BackupDialog from './components/BackupDialog';
+import CsvExportDialog from './components/CsvExportDialog';
+import CustomHabitsManager from './components/CustomHabitsManager';
+import DayHabitsEditor from './components/DayHabitsEditor';
+import GivingLedgerPanel from './components/GivingLedgerPanel';
+import HifzDialog from './components/HifzDialog';
+import HijriMonthlyCalendar, {
+  type CalendarLayout,
+} from './components/HijriMonthlyCalendar';
+import HijriSettingsDialog from './components/HijriSettingsDialog';
+import JumuahPanel from './components/JumuahPanel';
+import MakeUpFastsPanel from './components/MakeUpFastsPanel';
+import MurajaahList from './components/MurajaahList';
+import PrayerSettingsDialog from './components/PrayerSettingsDialog';
+import PrayerStatusPicker from './components/PrayerStatusPicker';
+import PrayerTimeInfo from './components/PrayerTimeInfo';
+import ProfilesDialog from './components/ProfilesDialog';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import QadaLedgerPanel from './components/QadaLedgerPanel';
+import QuranProgressPanel from './components/QuranProgressPanel';
+import RamadanPanel from './components/RamadanPanel';
+import RemindersDialog from './components/RemindersDialog';
+import StreaksPanel from './components/StreaksPanel';
+import SyncDialog from './components/SyncDialog';
+import TasbihDialog from './components/TasbihDialog';
+import { getHabitIcon } from './components/habitIcons';
+import useCurrentDate from './hooks/useCurrentDate';
+import useNow from './hooks/useNow';
+import useServiceWorker from './hooks/useServiceWorker';
+import { getCity } from './lib/cities';
+import {
+  ADHKAR_PROGRESS_STORAGE_KEY,
+  adhkarSetHabits,
+  adhkarSetIds,
+  getAdhkarSetProgress,
+  parseAdhkarProgress,
+  setAdhkarCount,
+  type AdhkarItem,
+  type AdhkarProgress,
+  type AdhkarSetId,
+} from './lib/adhkar';
+import {
+  getCustomHabitKey,
+  getHabitKeysForDate,
+  isCustomHabitActiveOn,
+  isCustomHabitKey,
+  parseCustomHabits,
+  CUSTOM_HABITS_STORAGE_KEY,
+  type CustomHabit,
+  type HabitSection,
+} from './lib/customHabits';
+import {
+  GIVING_STORAGE_KEY,
+  parseGivingLedger,
+  type GivingEntry,
+  type GivingLedger,
+} from './lib/giving';
+import {
+  formatHijriDate,
+  getHijriParts,
+  HIJRI_SETTINGS_STORAGE_KEY,
+  isMondayOrThursday,
+  isWhiteDay,
+  parseHijriSettings,
+  type HijriSettings,
+} from './lib/hijri';
+import {
+  defaultHabits,
+  formatDateKey,
+  getCompletionPercent,
+  getHabitCompletion,
+  getToggledValue,
+  isHabitDone,
+  parseDateKey,
+  type DayRecord,
+  type HabitKey,
+  type Habits,
+} from './lib/habits';
+import type { PrayerStatus } from './lib/prayerStatus';
+import {
+  computePrayerTimes,
+  getCurrentPrayer,
+  getPrayerWindows,
+  parsePrayerSettings,
+  PRAYER_SETTINGS_STORAGE_KEY,
+  type PrayerName,
+  type PrayerSettings,
+} from './lib/prayerTimes';
+import { PROFILES_STORAGE_KEY, type Profile } from './lib/profiles';
+import {
+  countMissedPrayers,
+  parseQadaLedger,
+  QADA_STORAGE_KEY,
+  type QadaLedger,
+} from './lib/qada';
+import {
+  HIFZ_STORAGE_KEY,
+  parseHifzPortions,
+  reviewHifzPortion,
+  type HifzPortion,
+  type RecallGrade,
+} from './lib/hifz';
+import {
+  parseQuranProgress,
+  QURAN_PROGRESS_STORAGE_KEY,
+  type QuranProgress,
+} from './lib/quran';
+import {
+  computeMakeUpFastBalance,
+  isFastingForbidden,
+  RAMADAN_MONTH,
+} from './lib/ramadan';
+import { isFriday, jumuahActs } from './lib/jumuah';
+import {
+  buildReminderPlan,
+  canShowNotifications,
+  getFastingSkipDates,
+  parseReminderSettings,
+  REMINDER_SETTINGS_STORAGE_KEY,
+  REMINDER_STATE_STORAGE_KEY,
+  requestReminderCheck,
+  sendReminderPlan,
+  type ReminderSettings,
+  type ReminderText,
+} from './lib/reminders';
+import {
+  getProfileDayKey,
+  getProfileSettingKey,
+  type StorageRepository,
+  type StorageSnapshot,
+} from './lib/storage';
+import {
+  getDhikrCount,
+  parseTasbihCounts,
+  parseTasbihSettings,
+  setDhikrCount,
+  TASBIH_COUNTS_STORAGE_KEY,
+  TASBIH_SETTINGS_STORAGE_KEY,
+  type Dhikr,
+  type TasbihCounts,
+  type TasbihSettings,
+} from './lib/tasbih';
+import {
+  mergeSyncRecords,
+  parseSyncSettings,
+  stampDayChanges,
+  SYNC_SETTINGS_STORAGE_KEY,
+  type SyncSettings,
+} from './lib/sync';
+import {
+  ALL_MAIN_STREAK_KEY,
+  computePrayerStatusCounts,
+  computeStreaks,
+} from './lib/streaks';
 import './locales/main.loader';
 
-type Habits = {
-  fajr: boolean;
-  dhuhr: boolean;
-  asr: boolean;
-  maghrib: boolean;
-  isha: boolean;
-  fajrSunnah: boolean;
-  dhuhrSunnahBefore: boolean;
-  dhuhrSunnahAfter: boolean;
-  maghribSunnahAfter: boolean;
-  ishaSunnahAfter: boolean;
-  quran: boolean;
-  quranReflection: boolean;
-  quranMemorization: boolean;
-  quranRecitation: boolean;
-  morningDhikr: boolean;
-  eveningDhikr: boolean;
-  sleepDhikr: boolean;
-  dailyDuaa: boolean;
-  duhaPrayer: boolean;
-  witrPrayer: boolean;
-  tahajjudPrayer: boolean;
-  sadaqah: boolean;
-  islamicStudies: boolean;
-  exercise: boolean;
-  silatRahim: boolean;
-  ummahNews: boolean;
-  voluntaryFasting: boolean;
-};
+type Theme = 'light' | 'dark';
+type Locale = 'en' | 'ar';
+// Number of days back a past record may be edited; null means no limit.
+type EditWindow = number | null;
+
+const editWindowOptions: EditWindow[] = [1, 7, 30, null];
 
-const defaultHabits: Habits = {
-  fajr: false,
-  dhuhr: false,
-  asr: false,
-  maghrib: false,
-  isha: false,
-  fajrSunnah: false,
-  dhuhrSunnahBefore: false,
-  dhuhrSunnahAfter: false,
-  maghribSunnahAfter: false,
-  ishaSunnahAfter: false,
-  quran: false,
-  quranReflection: false,
-  quranMemorization: false,
-  quranRecitation: false,
-  morningDhikr: false,
-  eveningDhikr: false,
-  sleepDhikr: false,
-  dailyDuaa: false,
-  duhaPrayer: false,
-  witrPrayer: false,
-  tahajjudPrayer: false,
-  sadaqah: false,
-  islamicStudies: false,
-  exercise: false,
-  silatRahim: false,
-  ummahNews: false,
-  voluntaryFasting: false,
+const getDaysBetween = (from: Date, to: Date) => {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / 86_400_000);
 };
 
-const mainHabits: (keyof Habits)[] = [
-  'fajr',
-  'dhuhr',
-  'asr',
-  'maghrib',
-  'isha',
-  'quran',
-  'morningDhikr',
-  'eveningDhikr',
-  'sleepDhikr',
-  'dailyDuaa',
-];
+// The theme, locale and calendar layout are shared by every profile; see
+// sharedSettingKeys in lib/profiles.ts.
+const THEME_STORAGE_KEY = 'sunnah:theme';
+const LOCALE_STORAGE_KEY = 'sunnah:locale';
+const EDIT_WINDOW_STORAGE_KEY = 'sunnah:editWindow';
+const CALENDAR_LAYOUT_STORAGE_KEY = 'sunnah:calendarLayout';
 
-const optionalHabits: (keyof Habits)[] = [
-  'fajrSunnah',
-  'dhuhrSunnahBefore',
-  'dhuhrSunnahAfter',
-  'maghribSunnahAfter',
-  'ishaSunnahAfter',
+const quranHabits: (keyof Habits)[] = [
+  'quran',
   'quranReflection',
   'quranMemorization',
   'quranRecitation',
-  'duhaPrayer',
-  'tahajjudPrayer',
-  'witrPrayer',
-  'sadaqah',
-  'islamicStudies',
-  'exercise',
-  'silatRahim',
-  'ummahNews',
-  'voluntaryFasting',
+];
+const dailyDhikrHabits: (keyof Habits)[] = [
+  'morningDhikr',
+  'eveningDhikr',
+  'sleepDhikr',
 ];
 
-type Theme = 'light' | 'dark';
-type Locale = 'en' | 'ar';
-
-const hijriNumberFormatter = new Intl.DateTimeFormat(
-  'en-u-ca-islamic-umalqura',
-  {
-    day: 'numeric',
-    month: 'numeric',
-    year: 'numeric',
-  }
-);
-
-const getHijriParts = (date: Date) => {
-  const parts = hijriNumberFormatter.formatToParts(date);
-  const dayPart = parts.find((part) => part.type === 'day');
-  const monthPart = parts.find((part) => part.type === 'month');
-  const yearPart = parts.find((part) => part.type === 'year');
-
-  return {
-    day: dayPart ? Number(dayPart.value) : 1,
-    month: monthPart ? Number(monthPart.value) : 1,
-    year: yearPart ? Number(yearPart.value) : 1,
-  };
-};
-
-const getLocalDateKey = (date: Date) => {
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, '0');
-  const day = `${date.getDate()}`.padStart(2, '0');
-  return `habits:${year}-${month}-${day}`;
-};
-
-const getLegacyDateKey = (date: Date) => {
-  const isoDate = date.toISOString().split('T')[0];
-  return `habits:${isoDate}`;
-};
-
-const getTodayKey = () => getLocalDateKey(new Date());
-
-const parseHabitsRecord = (stored: string | null): Habits | null => {
-  if (!stored) {
-    return null;
-  }
-
-  try {
-    const parsed = JSON.parse(stored) as Partial<Habits>;
-    return { ...defaultHabits, ...parsed };
-  } catch {
-    return null;
-  }
+// Built-in habits listed under each section of the habits view. A section
+// with none of them enabled and no custom habits of its own is left out.
+const sectionHabits: Record<HabitSection, (keyof Habits)[]> = {
+  prayers: [
+    'fajr',
+    'fajrSunnah',
+    'dhuhr',
+    'dhuhrSunnahBefore',
+    'dhuhrSunnahAfter',
+    'asr',
+    'maghrib',
+    'maghribSunnahAfter',
+    'isha',
+    'ishaSunnahAfter',
+  ],
+  worship: [...quranHabits, ...dailyDhikrHabits, 'dailyDuaa'],
+  extra: ['duhaPrayer', 'witrPrayer', 'tahajjudPrayer'],
+  optional: ['sadaqah', 'islamicStudies', 'exercise', 'silatRahim', 'ummahNews'],
 };
 
-const THEME_STORAGE_KEY = 'sunnah:theme';
-const LOCALE_STORAGE_KEY = 'sunnah:locale';
-
-const getInitialTheme = (): Theme => {
+const getInitialTheme = (stored: string | undefined): Theme => {
   if (typeof window === 'undefined') {
     return 'light';
   }
-  const stored = window.localStorage.getItem(THEME_STORAGE_KEY);
   if (stored === 'light' || stored === 'dark') {
     return stored;
   }
@@ -180,66 +255,171 @@ const getInitialTheme = (): Theme => {
     : 'light';
 };
 
-const getInitialLocale = (): Locale => {
+const getInitialLocale = (stored: string | undefined): Locale => {
   if (typeof window === 'undefined') {
     return 'en';
   }
-  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
   if (stored === 'en' || stored === 'ar') {
     return stored;
   }
   return window.navigator.language.startsWith('ar') ? 'ar' : 'en';
 };
 
-const IslamicHabitsTracker = () => {
-  const [habits, setHabits] = useState<Habits>(defaultHabits);
-  const [showKahfReminder, setShowKahfReminder] = useState(false);
+const getInitialEditWindow = (stored: string | undefined): EditWindow => {
+  if (stored === 'unlimited') {
+    return null;
+  }
+  const days = Number(stored);
+  if (stored && editWindowOptions.includes(days)) {
+    return days;
+  }
+  return 7;
+};
+
+type IslamicHabitsTrackerProps = {
+  // Scoped to the active profile.
+  storage: StorageRepository;
+  // Everything stored for the profile, read once before the first render.
+  snapshot: StorageSnapshot;
+  profiles: Profile[];
+  activeProfile: Profile;
+  onSwitchProfile: (profileId: string) => Promise<void>;
+  onChangeProfiles: (profiles: Profile[]) => Promise<void>;
+  onRemoveProfile: (profileId: string) => Promise<void>;
+};
+
+const IslamicHabitsTracker = ({
+  storage,
+  snapshot,
+  profiles,
+  activeProfile,
+  onSwitchProfile,
+  onChangeProfiles,
+  onRemoveProfile,
+}: IslamicHabitsTrackerProps) => {
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const [theme, setTheme] = useState<Theme>(getInitialTheme);
-  const [locale, setLocale] = useState<Locale>(getInitialLocale);
+  const [theme, setTheme] = useState<Theme>(() =>
+    getInitialTheme(snapshot.settings[THEME_STORAGE_KEY])
+  );
+  const [locale, setLocale] = useState<Locale>(() =>
+    getInitialLocale(snapshot.settings[LOCALE_STORAGE_KEY])
+  );
+  const [editWindow, setEditWindow] = useState<EditWindow>(() =>
+    getInitialEditWindow(snapshot.settings[EDIT_WINDOW_STORAGE_KEY])
+  );
+  const [editingDate, setEditingDate] = useState<Date | null>(null);
+  const [customHabits, setCustomHabits] = useState<CustomHabit[]>(() =>
+    parseCustomHabits(snapshot.settings[CUSTOM_HABITS_STORAGE_KEY] ?? null)
+  );
+  const [customHabitsOpen, setCustomHabitsOpen] = useState(false);
+  const [profilesOpen, setProfilesOpen] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [csvExportOpen, setCsvExportOpen] = useState(false);
+  const [prayerSettings, setPrayerSettings] = useState<PrayerSettings>(() =>
+    parsePrayerSettings(snapshot.settings[PRAYER_SETTINGS_STORAGE_KEY] ?? null)
+  );
+  const [prayerSettingsOpen, setPrayerSettingsOpen] = useState(false);
+  const [hijriSettings, setHijriSettings] = useState<HijriSettings>(() =>
+    parseHijriSettings(snapshot.settings[HIJRI_SETTINGS_STORAGE_KEY] ?? null)
+  );
+  const [hijriSettingsOpen, setHijriSettingsOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [syncSettings, setSyncSettings] = useState(() =>
+    parseSyncSettings(snapshot.settings[SYNC_SETTINGS_STORAGE_KEY] ?? null)
+  );
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(
+    () =>
+      parseReminderSettings(
+        snapshot.settings[REMINDER_SETTINGS_STORAGE_KEY] ?? null
+      )
+  );
+  const [remindersInBackground, setRemindersInBackground] = useState(false);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [quranProgress, setQuranProgress] = useState<QuranProgress>(() =>
+    parseQuranProgress(snapshot.settings[QURAN_PROGRESS_STORAGE_KEY] ?? null)
+  );
+  const [hifzPortions, setHifzPortions] = useState<HifzPortion[]>(() =>
+    parseHifzPortions(snapshot.settings[HIFZ_STORAGE_KEY] ?? null)
+  );
+  const [hifzOpen, setHifzOpen] = useState(false);
+  const [tasbihSettings, setTasbihSettings] = useState<TasbihSettings>(() =>
+    parseTasbihSettings(snapshot.settings[TASBIH_SETTINGS_STORAGE_KEY] ?? null)
+  );
+  const [tasbihCounts, setTasbihCounts] = useState<TasbihCounts>(() =>
+    parseTasbihCounts(snapshot.settings[TASBIH_COUNTS_STORAGE_KEY] ?? null)
+  );
+  const [tasbihOpen, setTasbihOpen] = useState(false);
+  const [adhkarProgress, setAdhkarProgress] = useState<AdhkarProgress>(() =>
+    parseAdhkarProgress(
+      snapshot.settings[ADHKAR_PROGRESS_STORAGE_KEY] ?? null,
+      new Date()
+    )
+  );
+  const [adhkarReaderSet, setAdhkarReaderSet] = useState<AdhkarSetId | null>(
+    null
+  );
+  const [givingLedger, setGivingLedger] = useState<GivingLedger>(() =>
+    parseGivingLedger(snapshot.settings[GIVING_STORAGE_KEY] ?? null)
+  );
+  const [qadaLedger, setQadaLedger] = useState<QadaLedger>(() =>
+    parseQadaLedger(snapshot.settings[QADA_STORAGE_KEY] ?? null)
+  );
+  // In-memory copy of every stored day; the UI reads from here and writes
+  // go through to storage in the background.
+  const [records, setRecords] = useState(snapshot.records);
+  // Writes that failed, keyed by what they store, kept so they can be retried.
+  const [failedWrites, setFailedWrites] = useState<
+    Map<string, () => Promise<void>>
+  >(() => new Map());
   const [i18nReady, setI18nReady] = useState(false);
   const [expandedPrayer, setExpandedPrayer] = useState<string | null>(null);
   const [quranExpanded, setQuranExpanded] = useState(false);
   const [dhikrExpanded, setDhikrExpanded] = useState(false);
-  const [activeView, setActiveView] = useState<'habits' | 'calendar'>('habits');
+  const [calendarLayout, setCalendarLayout] = useState<CalendarLayout>(() =>
+    snapshot.settings[CALENDAR_LAYOUT_STORAGE_KEY] === 'gregorian'
+      ? 'gregorian'
+      : 'hijri'
+  );
+  const [activeView, setActiveView] = useState<
+    'habits' | 'calendar' | 'analytics'
+  >('habits');
   const [sectionsOpen, setSectionsOpen] = useState({
     prayers: false,
     worship: false,
     extra: false,
     optional: false,
   });
-  const today = useMemo(() => new Date(), []);
-  const hijriLocale = useMemo(
+  const today = useCurrentDate();
+  const now = useNow();
+  const { updateAvailable, applyUpdate } = useServiceWorker();
+  const [updateDeferred, setUpdateDeferred] = useState(false);
+  const hijriTodayLabel = useMemo(
     () =>
-      locale === 'ar'
-        ? 'ar-SA-u-ca-islamic-umalqura'
-        : 'en-u-ca-islamic-umalqura',
-    [locale]
+      formatHijriDate(
+        today,
+        locale,
+        { day: 'numeric', month: 'long', year: 'numeric' },
+        hijriSettings
+      ),
+    [hijriSettings, locale, today]
   );
-  const hijriTodayLabel = useMemo(() => {
-    const formatter = new Intl.DateTimeFormat(hijriLocale, {
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric',
-    });
-    return formatter.format(today);
-  }, [hijriLocale, today]);
-  const hijriTodayParts = useMemo(() => getHijriParts(today), [today]);
-  const isWhiteDayToday = useMemo(() => {
-    if (hijriTodayParts.month === 9) {
-      return false;
-    }
-    return (
-      hijriTodayParts.day === 13 ||
-      hijriTodayParts.day === 14 ||
-      hijriTodayParts.day === 15
-    );
-  }, [hijriTodayParts]);
-  const isMondayOrThursday = useMemo(() => {
-    const dow = today.getDay();
-    return dow === 1 || dow === 4;
-  }, [today]);
-  const showFastingSection = isWhiteDayToday || isMondayOrThursday;
+  const hijriTodayParts = useMemo(
+    () => getHijriParts(today, hijriSettings),
+    [hijriSettings, today]
+  );
+  const isWhiteDayToday = useMemo(
+    () => isWhiteDay(today, hijriSettings),
+    [hijriSettings, today]
+  );
+  const isMondayOrThursdayToday = useMemo(
+    () => isMondayOrThursday(today),
+    [today]
+  );
+  const isRamadanToday = hijriTodayParts.month === RAMADAN_MONTH;
+  const isFridayToday = isFriday(today);
+  // The Ramadan fast takes the place of voluntary fasting for the month.
+  const showFastingSection =
+    !isRamadanToday && (isWhiteDayToday || isMondayOrThursdayToday);
   const todaySpecialLabel = useMemo(() => {
     if (hijriTodayParts.month === 12 && hijriTodayParts.day === 9) {
       return 'Day of Arafah';
@@ -325,51 +505,53 @@ const IslamicHabitsTracker = () => {
     todaySpecialLabel,
   ]);
 
-  const getHabitsForDate = (date: Date) => {
-    const localKey = getLocalDateKey(date);
-    const localHabits = parseHabitsRecord(localStorage.getItem(localKey));
-    if (localHabits) {
-      return localHabits;
-    }
+  // Derived from `today`, so the view starts fresh when the day rolls over.
+  const habits: DayRecord =
+    records.get(formatDateKey(today)) ?? defaultHabits;
+  const editingHabits: DayRecord = editingDate
+    ? records.get(formatDateKey(editingDate)) ?? defaultHabits
+    : defaultHabits;
 
-    const legacyHabits = parseHabitsRecord(
-      localStorage.getItem(getLegacyDateKey(date))
-    );
-    if (legacyHabits) {
-      try {
-        localStorage.setItem(localKey, JSON.stringify(legacyHabits));
-      } catch {
-        // Ignore storage errors (private mode, quota, etc.)
-      }
-    }
+  const persist = useCallback(
+    (key: string, write: () => Promise<void>) => {
+      write()
+        .then(() =>
+          setFailedWrites((current) => {
+            if (!current.has(key)) {
+              return current;
+            }
+            const next = new Map(current);
+            next.delete(key);
+            return next;
+          })
+        )
+        .catch(() =>
+          setFailedWrites((current) => new Map(current).set(key, write))
+        );
+    },
+    []
+  );
 
-    return legacyHabits;
+  const retryFailedWrites = () => {
+    failedWrites.forEach((write, key) => persist(key, write));
   };
 
-  useEffect(() => {
-    const storedHabits = getHabitsForDate(new Date());
-    if (storedHabits) {
-      setHabits(storedHabits);
-    }
-
-    const today = new Date().getDay();
-    if (today === 5) {
-      setShowKahfReminder(true);
-    }
-  }, []);
-
   useEffect(() => {
     document.documentElement.classList.toggle('dark', theme === 'dark');
     document.documentElement.setAttribute('data-theme', theme);
-    localStorage.setItem(THEME_STORAGE_KEY, theme);
-  }, [theme]);
+    persist(THEME_STORAGE_KEY, () =>
+      storage.putSetting(THEME_STORAGE_KEY, theme)
+    );
+  }, [persist, storage, theme]);
 
   useEffect(() => {
     let active = true;
     setI18nReady(false);
     document.documentElement.lang = locale;
     document.documentElement.dir = locale === 'ar' ? 'rtl' : 'ltr';
-    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    persist(LOCALE_STORAGE_KEY, () =>
+      storage.putSetting(LOCALE_STORAGE_KEY, locale)
+    );
 
     loadLocale(locale)
       .then(() => {
@@ -386,99 +568,639 @@ const IslamicHabitsTracker = () => {
     return () => {
       active = false;
     };
-  }, [locale]);
+  }, [locale, persist, storage]);
+
+  useEffect(() => {
+    persist(EDIT_WINDOW_STORAGE_KEY, () =>
+      storage.putSetting(
+        EDIT_WINDOW_STORAGE_KEY,
+        editWindow === null ? 'unlimited' : `${editWindow}`
+      )
+    );
+  }, [editWindow, persist, storage]);
+
+  const updateCalendarLayout = (nextLayout: CalendarLayout) => {
+    setCalendarLayout(nextLayout);
+    persist(CALENDAR_LAYOUT_STORAGE_KEY, () =>
+      storage.putSetting(CALENDAR_LAYOUT_STORAGE_KEY, nextLayout)
+    );
+  };
+
+  const saveHabits = (newHabits: DayRecord, date: Date) => {
+    const dateKey = formatDateKey(date);
+    const stamped = stampDayChanges(
+      records.get(dateKey),
+      newHabits,
+      Date.now()
+    );
+    setRecords((current) => new Map(current).set(dateKey, stamped));
+    persist(`day:${dateKey}`, () => storage.putDay(dateKey, stamped));
+  };
+
+  const toggleHabit = (habit: HabitKey) => {
+    saveHabits(
+      { ...habits, [habit]: getToggledValue(habit, habits[habit]) },
+      today
+    );
+  };
+
+  const updateDay = (date: Date, changes: Partial<DayRecord>) => {
+    saveHabits(
+      { ...(records.get(formatDateKey(date)) ?? defaultHabits), ...changes },
+      date
+    );
+  };
+
+  const setPrayerStatus = (prayer: PrayerName, status: PrayerStatus | null) => {
+    saveHabits({ ...habits, [prayer]: status }, today);
+  };
+
+  const isDateEditable = (date: Date) => {
+    const daysAgo = getDaysBetween(date, today);
+    if (daysAgo < 0) {
+      return false;
+    }
+    return editWindow === null || daysAgo <= editWindow;
+  };
+
+  const openDayEditor = (date: Date) => {
+    if (!isDateEditable(date)) {
+      return;
+    }
+    setEditingDate(date);
+  };
+
+  const toggleEditingHabit = (habit: HabitKey) => {
+    if (!editingDate) {
+      return;
+    }
+    saveHabits(
+      {
+        ...editingHabits,
+        [habit]: getToggledValue(habit, editingHabits[habit]),
+      },
+      editingDate
+    );
+  };
+
+  const setEditingPrayerStatus = (
+    prayer: PrayerName,
+    status: PrayerStatus | null
+  ) => {
+    if (!editingDate) {
+      return;
+    }
+    saveHabits({ ...editingHabits, [prayer]: status }, editingDate);
+  };
+
+  const editWindowLabels: Record<number, string> = {
+    1: 'One day',
+    7: 'One week',
+    30: 'One month',
+  };
+
+  const builtInHabitLabels: Record<keyof Habits, string> = {
+    fajr: 'Fajr',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha',
+    fajrSunnah: 'Fajr Sunnah (2 Before)',
+    dhuhrSunnahBefore: 'Dhuhr Sunnah (4 Before)',
+    dhuhrSunnahAfter: 'Dhuhr Sunnah (2 After)',
+    maghribSunnahAfter: 'Maghrib Sunnah (2 After)',
+    ishaSunnahAfter: 'Isha Sunnah (2 After)',
+    quran: 'Daily Quran Reading',
+    quranReflection: 'Quran Reflection',
+    quranMemorization: 'Quran Memorization',
+    quranRecitation: 'Quran Recitation',
+    morningDhikr: 'Morning Dhikr',
+    eveningDhikr: 'Evening Dhikr',
+    sleepDhikr: 'Before Sleeping Dhikr',
+    dailyDuaa: "Daily Du'aa",
+    duhaPrayer: 'Duha Prayer',
+    witrPrayer: 'Witr Prayer',
+    tahajjudPrayer: 'Tahajjud Prayer',
+    sadaqah: 'Sadaqah',
+    islamicStudies: 'Islamic Studies Time',
+    exercise: 'Exercise Time',
+    silatRahim: 'Silat al-Rahim (Family Ties)',
+    ummahNews: 'Check Ummah News',
+    voluntaryFasting: 'Voluntary Fasting',
+    ramadanFast: 'Ramadan Fast',
+    taraweehRakahs: "Taraweeh Rak'ahs",
+    suhoor: 'Suhoor',
+    iftarDua: "Iftar Du'aa",
+    itikaf: "I'tikaf",
+    makeUpFast: 'Make-up Fast',
+    jumuahGhusl: "Jumu'ah Ghusl",
+    jumuahEarly: "Early to Jumu'ah",
+    jumuahKahf: 'Surah Al-Kahf',
+    jumuahSalawat: "Jumu'ah Salawat",
+    jumuahDua: "Jumu'ah Du'aa",
+  };
+
+  const habitLabels: Record<string, string> = { ...builtInHabitLabels };
+  customHabits.forEach((habit) => {
+    habitLabels[getCustomHabitKey(habit)] = habit.name;
+  });
+
+  const { enabledHabits } = activeProfile;
+  // A child's profile leaves out the ledgers that only concern adults:
+  // qada prayers, make-up fasts and giving.
+  const isChildProfile = activeProfile.kind === 'child';
+
+  // Custom habits belong to the profile already; built-in ones are shown
+  // only when the profile has them enabled.
+  const isHabitShown = (habit: HabitKey) =>
+    isCustomHabitKey(habit) || enabledHabits.includes(habit);
+
+  const shownJumuahActs = jumuahActs.filter(isHabitShown);
+
+  const isSectionShown = (section: HabitSection) =>
+    sectionHabits[section].some(isHabitShown) ||
+    customHabits.some(
+      (habit) => habit.section === section && isCustomHabitActiveOn(habit, today)
+    );
+
+  const editingHabitKeys = editingDate
+    ? getHabitKeysForDate(enabledHabits, customHabits, editingDate)
+    : null;
+
+  const updateProfiles = (nextProfiles: Profile[]) => {
+    persist(PROFILES_STORAGE_KEY, () => onChangeProfiles(nextProfiles));
+  };
+
+  const removeProfile = (profileId: string) => {
+    setProfilesOpen(false);
+    persist(`profile:${profileId}`, () => onRemoveProfile(profileId));
+  };
+
+  const updateCustomHabits = (nextHabits: CustomHabit[]) => {
+    setCustomHabits(nextHabits);
+    persist(CUSTOM_HABITS_STORAGE_KEY, () =>
+      storage.putSetting(CUSTOM_HABITS_STORAGE_KEY, JSON.stringify(nextHabits))
+    );
+  };
+
+  const updatePrayerSettings = (nextSettings: PrayerSettings) => {
+    setPrayerSettings(nextSettings);
+    persist(PRAYER_SETTINGS_STORAGE_KEY, () =>
+      storage.putSetting(
+        PRAYER_SETTINGS_STORAGE_KEY,
+        JSON.stringify(nextSettings)
+      )
+    );
+  };
+
+  const updateQadaLedger = (nextLedger: QadaLedger) => {
+    setQadaLedger(nextLedger);
+    persist(QADA_STORAGE_KEY, () =>
+      storage.putSetting(QADA_STORAGE_KEY, JSON.stringify(nextLedger))
+    );
+  };
+
+  const updateQuranProgress = (nextProgress: QuranProgress) => {
+    setQuranProgress(nextProgress);
+    persist(QURAN_PROGRESS_STORAGE_KEY, () =>
+      storage.putSetting(
+        QURAN_PROGRESS_STORAGE_KEY,
+        JSON.stringify(nextProgress)
+      )
+    );
+  };
+
+  const updateHifzPortions = (nextPortions: HifzPortion[]) => {
+    setHifzPortions(nextPortions);
+    persist(HIFZ_STORAGE_KEY, () =>
+      storage.putSetting(HIFZ_STORAGE_KEY, JSON.stringify(nextPortions))
+    );
+  };
+
+  const reviewHifz = (id: string, grade: RecallGrade) => {
+    updateHifzPortions(
+      hifzPortions.map((portion) =>
+        portion.id === id ? reviewHifzPortion(portion, grade, today) : portion
+      )
+    );
+  };
+
+  const updateGivingLedger = (nextLedger: GivingLedger) => {
+    setGivingLedger(nextLedger);
+    persist(GIVING_STORAGE_KEY, () =>
+      storage.putSetting(GIVING_STORAGE_KEY, JSON.stringify(nextLedger))
+    );
+  };
+
+  // Any logged giving counts as the day's sadaqah.
+  const logGiving = (entry: GivingEntry) => {
+    const date = parseDateKey(entry.date);
+    const record = records.get(entry.date) ?? defaultHabits;
+    if (isDateEditable(date) && !isHabitDone(record.sadaqah)) {
+      updateDay(date, { sadaqah: true });
+    }
+  };
+
+  const updateSyncSettings = (nextSettings: SyncSettings) => {
+    setSyncSettings(nextSettings);
+    persist(SYNC_SETTINGS_STORAGE_KEY, () =>
+      storage.putSetting(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(nextSettings))
+    );
+  };
+
+  // Merged into the days as they are now rather than replacing them, so a
+  // habit ticked while the sync ran is kept.
+  const mergeSyncedRecords = (synced: Map<string, DayRecord>) => {
+    setRecords((current) => mergeSyncRecords(current, synced).merged);
+  };
+
+  const updateReminderSettings = (nextSettings: ReminderSettings) => {
+    setReminderSettings(nextSettings);
+    persist(REMINDER_SETTINGS_STORAGE_KEY, () =>
+      storage.putSetting(
+        REMINDER_SETTINGS_STORAGE_KEY,
+        JSON.stringify(nextSettings)
+      )
+    );
+  };
+
+  const reminderText: ReminderText = {
+    morningAdhkar: {
+      title: 'Morning adhkar',
+      body: 'Time for the morning remembrance.',
+    },
+    eveningAdhkar: {
+      title: 'Evening adhkar',
+      body: 'Time for the evening remembrance.',
+    },
+    duha: { title: 'Duha prayer', body: 'There is still time to pray Duha.' },
+    witr: {
+      title: 'Witr prayer',
+      body: 'Pray Witr before you sleep.',
+    },
+    kahf: {
+      title: 'Jummah Reminder',
+      body: "Don't forget to read Surah Al-Kahf today!",
+    },
+    fasting: {
+      title: 'Fasting tomorrow',
+      body: 'Tomorrow is a Sunnah fast. Make your intention tonight.',
+    },
+  };
+  const fastingSkipDates = useMemo(
+    () => getFastingSkipDates(today, hijriSettings),
+    [hijriSettings, today]
+  );
+  // Compared as JSON so the plan is only sent again when it changes.
+  const reminderPlan = JSON.stringify(
+    buildReminderPlan(
+      {
+        settingsKey: getProfileSettingKey(
+          activeProfile.id,
+          REMINDER_SETTINGS_STORAGE_KEY
+        ),
+        stateKey: getProfileSettingKey(
+          activeProfile.id,
+          REMINDER_STATE_STORAGE_KEY
+        ),
+        dayKeyPrefix: getProfileDayKey(activeProfile.id, ''),
+      },
+      reminderText,
+      { snooze: 'Snooze', dismiss: 'Dismiss' },
+      fastingSkipDates
+    )
+  );
+  const canRemind = canShowNotifications() && storage.backend === 'indexedDB';
+
+  // The service worker shows the reminders, reading settings and days from
+  // IndexedDB itself, so they can come while the app is closed.
+  useEffect(() => {
+    if (!canRemind) {
+      return;
+    }
+    let active = true;
+    sendReminderPlan(reminderPlan)
+      .then((inBackground) => {
+        if (active) {
+          setRemindersInBackground(inBackground);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, [canRemind, reminderPlan]);
+
+  // While the app is open the worker also checks on every tick of `now` and
+  // whenever a habit is ticked, which is all it gets in browsers without
+  // triggers or periodic sync.
+  useEffect(() => {
+    if (canRemind) {
+      requestReminderCheck().catch(() => undefined);
+    }
+  }, [canRemind, now, records, reminderSettings]);
 
-  const saveHabits = (newHabits: Habits) => {
-    try {
-      localStorage.setItem(getTodayKey(), JSON.stringify(newHabits));
-    } catch {
-      // Ignore storage errors (private mode, quota, etc.)
+  const updateHijriSettings = (nextSettings: HijriSettings) => {
+    setHijriSettings(nextSettings);
+    persist(HIJRI_SETTINGS_STORAGE_KEY, () =>
+      storage.putSetting(
+        HIJRI_SETTINGS_STORAGE_KEY,
+        JSON.stringify(nextSettings)
+      )
+    );
+  };
+
+  const updateTasbihSettings = (nextSettings: TasbihSettings) => {
+    setTasbihSettings(nextSettings);
+    persist(TASBIH_SETTINGS_STORAGE_KEY, () =>
+      storage.putSetting(
+        TASBIH_SETTINGS_STORAGE_KEY,
+        JSON.stringify(nextSettings)
+      )
+    );
+  };
+
+  const countDhikr = (dhikr: Dhikr, count: number) => {
+    const previous = getDhikrCount(tasbihCounts, dhikr.id, today);
+    const nextCounts = setDhikrCount(tasbihCounts, dhikr.id, today, count);
+    setTasbihCounts(nextCounts);
+    persist(TASBIH_COUNTS_STORAGE_KEY, () =>
+      storage.putSetting(TASBIH_COUNTS_STORAGE_KEY, JSON.stringify(nextCounts))
+    );
+    if (
+      dhikr.habit &&
+      previous < dhikr.target &&
+      count >= dhikr.target &&
+      !isHabitDone(habits[dhikr.habit])
+    ) {
+      saveHabits({ ...habits, [dhikr.habit]: true }, today);
+    }
+  };
+
+  // Progress from a previous day no longer counts once the date rolls over.
+  const todayAdhkarProgress: AdhkarProgress =
+    adhkarProgress.date === formatDateKey(today)
+      ? adhkarProgress
+      : { date: formatDateKey(today), counts: {} };
+
+  const countAdhkar = (setId: AdhkarSetId, item: AdhkarItem, count: number) => {
+    const wasComplete = getAdhkarSetProgress(todayAdhkarProgress, setId).complete;
+    const nextProgress = setAdhkarCount(todayAdhkarProgress, setId, item, count);
+    setAdhkarProgress(nextProgress);
+    persist(ADHKAR_PROGRESS_STORAGE_KEY, () =>
+      storage.putSetting(
+        ADHKAR_PROGRESS_STORAGE_KEY,
+        JSON.stringify(nextProgress)
+      )
+    );
+    const habit = adhkarSetHabits[setId];
+    if (
+      !wasComplete &&
+      getAdhkarSetProgress(nextProgress, setId).complete &&
+      !isHabitDone(habits[habit])
+    ) {
+      saveHabits({ ...habits, [habit]: true }, today);
     }
   };
 
-  const toggleHabit = (habit: keyof Habits) => {
-    const newHabits = { ...habits, [habit]: !habits[habit] };
-    setHabits(newHabits);
-    saveHabits(newHabits);
+  // The reader opens on the first set not yet ticked today.
+  const openAdhkarReader = () =>
+    setAdhkarReaderSet(
+      adhkarSetIds.find(
+        (setId) => !isHabitDone(habits[adhkarSetHabits[setId]])
+      ) ?? 'morning'
+    );
+
+  const tasbihHabitOptions = [
+    ...(['morningDhikr', 'eveningDhikr', 'sleepDhikr', 'dailyDuaa'] as const),
+    ...customHabits
+      .filter((habit) => isCustomHabitActiveOn(habit, today))
+      .map(getCustomHabitKey),
+  ].map((key) => ({ key, label: habitLabels[key] ?? key }));
+
+  const prayerWindows = useMemo(() => {
+    const times = computePrayerTimes(today, prayerSettings, hijriSettings);
+    if (!times) {
+      return null;
+    }
+    const tomorrow = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() + 1
+    );
+    return getPrayerWindows(
+      times,
+      computePrayerTimes(tomorrow, prayerSettings, hijriSettings)
+    );
+  }, [hijriSettings, prayerSettings, today]);
+  const currentPrayer = prayerWindows
+    ? getCurrentPrayer(prayerWindows, now)
+    : null;
+  const prayerCity = getCity(prayerSettings.location?.cityId ?? null);
+
+  const getPrayerItemProps = (prayer: PrayerName) => {
+    const prayerWindow = prayerWindows?.find(
+      (candidate) => candidate.prayer === prayer
+    );
+    return {
+      detail: (
+        <>
+          {prayerWindow && (
+            <PrayerTimeInfo
+              locale={locale}
+              prayerWindow={prayerWindow}
+              now={now}
+            />
+          )}
+          <PrayerStatusPicker
+            value={habits[prayer]}
+            onChange={(status) => setPrayerStatus(prayer, status)}
+          />
+        </>
+      ),
+      highlighted: currentPrayer?.prayer === prayer,
+    };
   };
 
-  const progress = useMemo(() => {
-    const completed = mainHabits.filter((habit) => habits[habit]).length;
-    return Math.round((completed / mainHabits.length) * 100);
-  }, [habits]);
+  const todayHabitKeys = useMemo(
+    () => getHabitKeysForDate(enabledHabits, customHabits, today),
+    [enabledHabits, customHabits, today]
+  );
+
+  const progress = useMemo(
+    () => getCompletionPercent(habits, todayHabitKeys.main),
+    [habits, todayHabitKeys]
+  );
+
+  const optionalProgress = useMemo(
+    () => getCompletionPercent(habits, todayHabitKeys.optional),
+    [habits, todayHabitKeys]
+  );
+
+  const analyticsHabitKeys = useMemo(
+    () => [...todayHabitKeys.main, ...todayHabitKeys.optional],
+    [todayHabitKeys]
+  );
+
+  const streaks = useMemo(
+    () =>
+      computeStreaks(
+        records,
+        [...todayHabitKeys.main, ...todayHabitKeys.optional],
+        enabledHabits,
+        customHabits,
+        today,
+        hijriSettings
+      ),
+    [customHabits, enabledHabits, hijriSettings, records, today, todayHabitKeys]
+  );
+
+  const prayerStatusCounts = useMemo(
+    () => computePrayerStatusCounts(records, today, hijriSettings),
+    [hijriSettings, records, today]
+  );
+
+  const makeUpFastBalance = useMemo(
+    () => computeMakeUpFastBalance(records),
+    [records]
+  );
+
+  const missedPrayerCounts = useMemo(
+    () => countMissedPrayers(records),
+    [records]
+  );
 
-  const optionalProgress = useMemo(() => {
-    if (optionalHabits.length === 0) {
-      return 0;
+  const hijriMonthLabel = useMemo(() => {
+    return formatHijriDate(
+      today,
+      locale,
+      { month: 'long', year: 'numeric' },
+      hijriSettings
+    );
+  }, [hijriSettings, locale, today]);
+
+  const firstRecordDate = useMemo(() => {
+    const firstKey = [...records.keys()].sort()[0];
+    return firstKey ? parseDateKey(firstKey) : null;
+  }, [records]);
+
+  const getProgressForDate = (date: Date) => {
+    const record = records.get(formatDateKey(date));
+    if (!record) {
+      return null;
     }
-    const completed = optionalHabits.filter((habit) => habits[habit]).length;
-    return Math.round((completed / optionalHabits.length) * 100);
-  }, [habits]);
+    const keys = getHabitKeysForDate(enabledHabits, customHabits, date);
+    return {
+      required: getCompletionPercent(record, keys.main),
+      optional: getCompletionPercent(record, keys.optional),
+    };
+  };
 
 
+  // Late and made-up prayers still show as ticked; missed ones do not.
+  const isChecked = (habit: HabitKey) => getHabitCompletion(habits[habit]) > 0;
+
   const HabitItem = ({
     name,
     label,
     icon: Icon,
     isOptional = false,
     compact = false,
+    detail,
+    highlighted = false,
   }: {
-    name: keyof Habits;
+    name: HabitKey;
     label: string;
     icon: typeof Sun;
     isOptional?: boolean;
     compact?: boolean;
-  }) => (
-    <div
-      onClick={() => toggleHabit(name)}
-      className={`flex items-center rounded-lg border-2 transition-all ${
-        habits[name]
-          ? 'border-emerald-500 bg-emerald-50 dark:border-emerald-400/70 dark:bg-emerald-950/40'
-          : 'border-gray-200 bg-white hover:border-emerald-300 dark:border-slate-800 dark:bg-slate-900/60 dark:hover:border-emerald-500/60'
-      } ${
-        compact ? 'gap-2 p-3 w-full max-w-[520px] mr-auto' : 'gap-3 p-4 w-full'
-      }`}
-    >
-      <div className="flex-shrink-0">
-        {habits[name] ? (
-          <div
-            className={`flex items-center justify-center rounded-full bg-emerald-600 dark:bg-emerald-500 ${
-              compact ? 'h-5 w-5' : 'h-6 w-6'
+    // Extra line under the label, e.g. the prayer's start time.
+    detail?: ReactNode;
+    highlighted?: boolean;
+  }) => {
+    if (!isHabitShown(name)) {
+      return null;
+    }
+    return (
+      <div
+        onClick={() => toggleHabit(name)}
+        className={`flex items-center rounded-lg border-2 transition-all ${
+          isChecked(name)
+            ? 'border-emerald-500 bg-emerald-50 dark:border-emerald-400/70 dark:bg-emerald-950/40'
+            : 'border-gray-200 bg-white hover:border-emerald-300 dark:border-slate-800 dark:bg-slate-900/60 dark:hover:border-emerald-500/60'
+        } ${
+          compact ? 'gap-2 p-3 w-full max-w-[520px] mr-auto' : 'gap-3 p-4 w-full'
+        } ${highlighted ? 'ring-2 ring-amber-400 dark:ring-amber-300/70' : ''}`}
+      >
+        <div className="flex-shrink-0">
+          {isChecked(name) ? (
+            <div
+              className={`flex items-center justify-center rounded-full bg-emerald-600 dark:bg-emerald-500 ${
+                compact ? 'h-5 w-5' : 'h-6 w-6'
+              }`}
+            >
+              <Check className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} text-white`} />
+            </div>
+          ) : (
+            <Circle
+              className={`${compact ? 'h-5 w-5' : 'h-6 w-6'} text-gray-400 dark:text-slate-500`}
+            />
+          )}
+        </div>
+        <div className="flex flex-1 items-center gap-2">
+          <Icon
+            className={`${compact ? 'h-4 w-4' : 'h-5 w-5'} ${
+              isChecked(name)
+                ? 'text-emerald-600 dark:text-emerald-400'
+                : 'text-gray-500 dark:text-slate-400'
             }`}
-          >
-            <Check className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} text-white`} />
-          </div>
-        ) : (
-          <Circle
-            className={`${compact ? 'h-5 w-5' : 'h-6 w-6'} text-gray-400 dark:text-slate-500`}
           />
+          <div>
+            <span
+              className={`${compact ? 'text-sm' : 'text-base'} ${
+                isChecked(name)
+                  ? 'font-medium text-emerald-900 dark:text-emerald-100'
+                  : 'text-gray-700 dark:text-slate-200'
+              }`}
+            >
+              {label}
+            </span>
+            {detail}
+          </div>
+        </div>
+        {(streaks[name]?.current ?? 0) > 0 && (
+          <span
+            className="flex items-center gap-1 rounded bg-orange-50 px-2 py-1 text-xs font-semibold text-orange-600 dark:bg-orange-950/40 dark:text-orange-300"
+            title="Current streak"
+          >
+            <Flame className="h-3 w-3" />
+            {streaks[name]?.current}
+          </span>
+        )}
+        {isOptional && (
+          <span className="rounded bg-gray-100 px-2 py-1 text-xs text-gray-500 dark:bg-slate-800 dark:text-slate-300">
+            Optional
+          </span>
         )}
       </div>
-      <div className="flex flex-1 items-center gap-2">
-        <Icon
-          className={`${compact ? 'h-4 w-4' : 'h-5 w-5'} ${
-            habits[name]
-              ? 'text-emerald-600 dark:text-emerald-400'
-              : 'text-gray-500 dark:text-slate-400'
-          }`}
-        />
-        <span
-          className={`${compact ? 'text-sm' : 'text-base'} ${
-            habits[name]
-              ? 'font-medium text-emerald-900 dark:text-emerald-100'
-              : 'text-gray-700 dark:text-slate-200'
-          }`}
-        >
-          {label}
-        </span>
-      </div>
-      {isOptional && (
-        <span className="rounded bg-gray-100 px-2 py-1 text-xs text-gray-500 dark:bg-slate-800 dark:text-slate-300">
-          Optional
-        </span>
-      )}
-    </div>
-  );
+    );
+  };
+
+  const renderCustomHabits = (section: HabitSection) =>
+    customHabits
+      .filter(
+        (habit) =>
+          habit.section === section && isCustomHabitActiveOn(habit, today)
+      )
+      .map((habit) => (
+        <HabitItem
+          key={habit.id}
+          name={getCustomHabitKey(habit)}
+          label={habit.name}
+          icon={getHabitIcon(habit.icon)}
+          isOptional={habit.kind === 'optional'}
+        />
+      ));
 
   const toggleExpandedPrayer = (prayer: string) => {
     setExpandedPrayer((current) => (current === prayer ? null : prayer));
@@ -511,6 +1233,16 @@ const IslamicHabitsTracker = () => {
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-teal-50 to-cyan-50 p-4 dark:from-slate-950 dark:via-slate-900 dark:to-slate-800">
       <div className="mx-auto max-w-2xl">
         <div className="relative mb-8 pt-6">
+          <div className="absolute right-12 top-0">
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSwitch={(profileId) => {
+                onSwitchProfile(profileId).catch(() => undefined);
+              }}
+              onManage={() => setProfilesOpen(true)}
+            />
+          </div>
           <div className="absolute right-0 top-0">
             <button
               type="button"
@@ -588,6 +1320,105 @@ const IslamicHabitsTracker = () => {
                       </button>
                     </div>
                   </div>
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+                      Edit past days
+                    </p>
+                    <div className="mt-2 grid grid-cols-4 gap-2">
+                      {editWindowOptions.map((option) => (
+                        <button
+                          key={option ?? 'unlimited'}
+                          type="button"
+                          onClick={() => setEditWindow(option)}
+                          aria-pressed={editWindow === option}
+                          className={`rounded-lg border px-2 py-2 text-xs transition ${
+                            editWindow === option
+                              ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                              : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                          }`}
+                        >
+                          {option === null ? 'No limit' : editWindowLabels[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setCustomHabitsOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Custom habits
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setBackupOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <Download className="h-4 w-4" />
+                    Backup and restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setCsvExportOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <FileSpreadsheet className="h-4 w-4" />
+                    Export CSV
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setPrayerSettingsOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <Clock className="h-4 w-4" />
+                    Prayer times
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setHijriSettingsOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <Moon className="h-4 w-4" />
+                    Hijri date
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setRemindersOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <BellRing className="h-4 w-4" />
+                    Reminders
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSettingsOpen(false);
+                      setSyncOpen(true);
+                    }}
+                    className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+                  >
+                    <ArrowLeftRight className="h-4 w-4" />
+                    Sync devices
+                  </button>
                 </div>
               </div>
             )}
@@ -652,33 +1483,229 @@ const IslamicHabitsTracker = () => {
                 >
                   Calendar
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setActiveView('analytics')}
+                  aria-pressed={activeView === 'analytics'}
+                  className={`rounded-full px-4 py-2 text-sm font-semibold transition ${
+                    activeView === 'analytics'
+                      ? 'bg-emerald-600 text-white'
+                      : 'text-emerald-700 hover:bg-emerald-50 dark:text-emerald-200 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  Analytics
+                </button>
               </div>
             </div>
           </div>
         </div>
 
-        {activeView === 'habits' && showKahfReminder && (
-          <div className="mb-6 rounded-lg border-2 border-amber-400 bg-gradient-to-r from-amber-100 to-yellow-100 p-4 shadow-md dark:border-amber-500/60 dark:from-amber-900/50 dark:to-yellow-900/40">
-            <div className="flex items-center gap-3">
-              <Heart className="h-6 w-6 text-amber-700 dark:text-amber-300" />
-              <div>
-                <p className="font-semibold text-amber-900 dark:text-amber-100">
-                  Jummah Reminder
-                </p>
-                <p className="text-sm text-amber-800 dark:text-amber-200">
-                  Don&apos;t forget to read Surah Al-Kahf today!
-                </p>
-              </div>
-            </div>
+        {updateAvailable && !updateDeferred && (
+          <div
+            role="status"
+            className="mb-6 flex items-center gap-3 rounded-lg border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900 shadow-sm dark:border-emerald-500/40 dark:bg-emerald-950/40 dark:text-emerald-100"
+          >
+            <RefreshCw className="h-5 w-5 flex-shrink-0" />
+            <p className="flex-1">A new version of the app is available.</p>
+            <button
+              type="button"
+              onClick={() => setUpdateDeferred(true)}
+              className="flex-shrink-0 rounded-lg px-3 py-1.5 font-semibold transition hover:bg-emerald-100 dark:hover:bg-emerald-900/40"
+            >
+              Later
+            </button>
+            <button
+              type="button"
+              onClick={applyUpdate}
+              className="flex-shrink-0 rounded-lg border border-emerald-300 px-3 py-1.5 font-semibold transition hover:bg-emerald-100 dark:border-emerald-500/50 dark:hover:bg-emerald-900/40"
+            >
+              Update
+            </button>
+          </div>
+        )}
+
+        {failedWrites.size > 0 && (
+          <div
+            role="alert"
+            className="mb-6 flex items-center gap-3 rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-800 shadow-sm dark:border-rose-500/40 dark:bg-rose-950/40 dark:text-rose-200"
+          >
+            <TriangleAlert className="h-5 w-5 flex-shrink-0" />
+            <p className="flex-1">
+              Some changes could not be saved on this device.
+            </p>
+            <button
+              type="button"
+              onClick={retryFailedWrites}
+              className="flex-shrink-0 rounded-lg border border-rose-300 px-3 py-1.5 font-semibold transition hover:bg-rose-100 dark:border-rose-500/50 dark:hover:bg-rose-900/40"
+            >
+              Try again
+            </button>
           </div>
         )}
 
         {activeView === 'calendar' && (
           <HijriMonthlyCalendar
             locale={locale}
-            mainHabits={mainHabits}
-            optionalHabits={optionalHabits}
-            getHabitsForDate={getHabitsForDate}
+            hijriSettings={hijriSettings}
+            layout={calendarLayout}
+            onLayoutChange={updateCalendarLayout}
+            firstRecordDate={firstRecordDate}
+            getProgressForDate={getProgressForDate}
+            isDateEditable={isDateEditable}
+            onSelectDate={openDayEditor}
+          />
+        )}
+
+        {activeView === 'analytics' && (
+          <AnalyticsView
+            locale={locale}
+            hijriSettings={hijriSettings}
+            records={records}
+            enabledHabits={enabledHabits}
+            customHabits={customHabits}
+            habits={analyticsHabitKeys}
+            habitLabels={habitLabels}
+            prayerLabels={builtInHabitLabels}
+            today={today}
+          />
+        )}
+
+        {editingDate && editingHabitKeys && (
+          <DayHabitsEditor
+            locale={locale}
+            date={editingDate}
+            hijriSettings={hijriSettings}
+            habits={editingHabits}
+            mainHabits={editingHabitKeys.main}
+            optionalHabits={editingHabitKeys.optional}
+            habitLabels={habitLabels}
+            onToggle={toggleEditingHabit}
+            onSetPrayerStatus={setEditingPrayerStatus}
+            onClose={() => setEditingDate(null)}
+          />
+        )}
+
+        {customHabitsOpen && (
+          <CustomHabitsManager
+            habits={customHabits}
+            today={today}
+            onChange={updateCustomHabits}
+            onClose={() => setCustomHabitsOpen(false)}
+          />
+        )}
+
+        {profilesOpen && (
+          <ProfilesDialog
+            profiles={profiles}
+            activeProfileId={activeProfile.id}
+            habitLabels={builtInHabitLabels}
+            onChange={updateProfiles}
+            onRemove={removeProfile}
+            onClose={() => setProfilesOpen(false)}
+          />
+        )}
+
+        {backupOpen && (
+          <BackupDialog
+            locale={locale}
+            storage={storage}
+            // Imported data touches every stored key, so start over from it.
+            onImported={() => window.location.reload()}
+            onClose={() => setBackupOpen(false)}
+          />
+        )}
+
+        {csvExportOpen && (
+          <CsvExportDialog
+            locale={locale}
+            hijriSettings={hijriSettings}
+            storage={storage}
+            firstRecordKey={[...records.keys()].sort()[0] ?? null}
+            enabledHabits={enabledHabits}
+            customHabits={customHabits}
+            today={today}
+            onClose={() => setCsvExportOpen(false)}
+          />
+        )}
+
+        {adhkarReaderSet && (
+          <AdhkarReaderDialog
+            locale={locale}
+            progress={todayAdhkarProgress}
+            initialSet={adhkarReaderSet}
+            onCount={countAdhkar}
+            onClose={() => setAdhkarReaderSet(null)}
+          />
+        )}
+
+        {tasbihOpen && (
+          <TasbihDialog
+            locale={locale}
+            settings={tasbihSettings}
+            counts={tasbihCounts}
+            today={today}
+            habitOptions={tasbihHabitOptions}
+            onSettingsChange={updateTasbihSettings}
+            onCount={countDhikr}
+            onClose={() => setTasbihOpen(false)}
+          />
+        )}
+
+        {hifzOpen && (
+          <HifzDialog
+            locale={locale}
+            portions={hifzPortions}
+            today={today}
+            onChange={updateHifzPortions}
+            onMemorized={() => {
+              if (!habits.quranMemorization) {
+                toggleHabit('quranMemorization');
+              }
+            }}
+            onClose={() => setHifzOpen(false)}
+          />
+        )}
+
+        {prayerSettingsOpen && (
+          <PrayerSettingsDialog
+            settings={prayerSettings}
+            onChange={updatePrayerSettings}
+            onClose={() => setPrayerSettingsOpen(false)}
+          />
+        )}
+
+        {hijriSettingsOpen && (
+          <HijriSettingsDialog
+            locale={locale}
+            settings={hijriSettings}
+            today={today}
+            onChange={updateHijriSettings}
+            onClose={() => setHijriSettingsOpen(false)}
+          />
+        )}
+
+        {syncOpen && (
+          <SyncDialog
+            storage={storage}
+            settings={syncSettings}
+            onSettingsChange={updateSyncSettings}
+            onSynced={mergeSyncedRecords}
+            onClose={() => setSyncOpen(false)}
+          />
+        )}
+
+        {remindersOpen && (
+          <RemindersDialog
+            settings={reminderSettings}
+            delivery={
+              storage.backend !== 'indexedDB'
+                ? 'unavailable'
+                : remindersInBackground
+                  ? 'background'
+                  : 'whileOpen'
+            }
+            onChange={updateReminderSettings}
+            onClose={() => setRemindersOpen(false)}
           />
         )}
 
@@ -716,7 +1743,7 @@ const IslamicHabitsTracker = () => {
               </div>
             </div>
 
-            {showFastingSection && (
+            {showFastingSection && isHabitShown('voluntaryFasting') && (
               <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-5 shadow-md dark:border-amber-500/50 dark:bg-amber-900/30">
                 <div className="mb-3 flex items-center justify-between">
                   <h2 className="text-base font-semibold text-amber-900 dark:text-amber-100">
@@ -727,7 +1754,7 @@ const IslamicHabitsTracker = () => {
                   </span>
                 </div>
                 <div className="mb-3 text-sm text-amber-800 dark:text-amber-200">
-                  {isWhiteDayToday && isMondayOrThursday
+                  {isWhiteDayToday && isMondayOrThursdayToday
                     ? 'Reason: White Days (13th-15th, except Ramadan) and Monday/Thursday.'
                     : isWhiteDayToday
                       ? 'Reason: White Days (13th-15th, except Ramadan).'
@@ -743,380 +1770,549 @@ const IslamicHabitsTracker = () => {
               </div>
             )}
 
-        <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
-          <div className="mb-4 flex items-center justify-between">
-            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
-              <Moon className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
-              Five Daily Prayers
-            </h2>
-            <button
-              type="button"
-              onClick={() => toggleSection('prayers')}
-              className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
-              aria-label="Toggle Five Daily Prayers"
-            >
-              {sectionsOpen.prayers ? (
-                <ChevronUp className="h-4 w-4" />
-              ) : (
-                <ChevronDown className="h-4 w-4" />
-              )}
-            </button>
-          </div>
-          {sectionsOpen.prayers && (
-            <div className="space-y-3">
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <HabitItem name="fajr" label="Fajr" icon={Sun} />
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleExpandedPrayer('fajr');
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Fajr Sunnah"
-                >
-                  {expandedPrayer === 'fajr' ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+        {isFridayToday && shownJumuahActs.length > 0 && (
+          <JumuahPanel
+            acts={shownJumuahActs}
+            since={activeProfile.jumuahSince}
+            records={records}
+            today={today}
+            onUpdate={updateDay}
+          />
+        )}
+
+        {isRamadanToday ? (
+          <RamadanPanel
+            records={records}
+            today={today}
+            hijriSettings={hijriSettings}
+            isDateEditable={isDateEditable}
+            onUpdate={updateDay}
+          />
+        ) : (
+          !isChildProfile &&
+          (makeUpFastBalance.remaining > 0 || habits.makeUpFast) && (
+            <MakeUpFastsPanel
+              balance={makeUpFastBalance}
+              fastedToday={habits.makeUpFast}
+              fastingForbidden={isFastingForbidden(today, hijriSettings)}
+              onToggle={() =>
+                updateDay(today, { makeUpFast: !habits.makeUpFast })
+              }
+            />
+          )
+        )}
+
+        {isSectionShown('prayers') && (
+          <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+                <Moon className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+                Five Daily Prayers
+              </h2>
+              <button
+                type="button"
+                onClick={() => toggleSection('prayers')}
+                className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                aria-label="Toggle Five Daily Prayers"
+              >
+                {sectionsOpen.prayers ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            </div>
+            {sectionsOpen.prayers && (
+              <div className="space-y-3">
+              <button
+                type="button"
+                onClick={() => setPrayerSettingsOpen(true)}
+                className="flex w-full items-center gap-2 rounded-lg border border-dashed border-emerald-200 px-3 py-2 text-start text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/40 dark:text-emerald-200 dark:hover:bg-slate-800"
+              >
+                <MapPin className="h-4 w-4 flex-shrink-0" />
+                {!prayerSettings.location
+                  ? 'Set your location to see prayer times'
+                  : !prayerWindows
+                    ? "Prayer times can't be calculated here today. Try another high-latitude rule."
+                    : prayerCity
+                      ? prayerCity.name
+                      : `${prayerSettings.location.latitude.toFixed(2)}, ${prayerSettings.location.longitude.toFixed(2)}`}
+              </button>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <HabitItem
+                      name="fajr"
+                      label="Fajr"
+                      icon={Sun}
+                      {...getPrayerItemProps('fajr')}
+                    />
+                  </div>
+                  {isHabitShown('fajrSunnah') && (
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleExpandedPrayer('fajr');
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Fajr Sunnah"
+                    >
+                      {expandedPrayer === 'fajr' ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
                   )}
-                </button>
-              </div>
-              {expandedPrayer === 'fajr' && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="fajrSunnah"
-                    label="Fajr Sunnah (2 Before)"
-                    icon={Moon}
-                    isOptional
-                    compact
-                  />
                 </div>
-              )}
-            </div>
+                {expandedPrayer === 'fajr' && (
+                  <div className="ml-10 space-y-2">
+                    <HabitItem
+                      name="fajrSunnah"
+                      label="Fajr Sunnah (2 Before)"
+                      icon={Moon}
+                      isOptional
+                      compact
+                    />
+                  </div>
+                )}
+              </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <HabitItem name="dhuhr" label="Dhuhr" icon={Sun} />
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleExpandedPrayer('dhuhr');
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Dhuhr Sunnah"
-                >
-                  {expandedPrayer === 'dhuhr' ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <HabitItem
+                      name="dhuhr"
+                      label="Dhuhr"
+                      icon={Sun}
+                      {...getPrayerItemProps('dhuhr')}
+                    />
+                  </div>
+                  {(isHabitShown('dhuhrSunnahBefore') ||
+                    isHabitShown('dhuhrSunnahAfter')) && (
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleExpandedPrayer('dhuhr');
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Dhuhr Sunnah"
+                    >
+                      {expandedPrayer === 'dhuhr' ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
                   )}
-                </button>
-              </div>
-              {expandedPrayer === 'dhuhr' && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="dhuhrSunnahBefore"
-                    label="Dhuhr Sunnah (4 Before)"
-                    icon={Moon}
-                    isOptional
-                    compact
-                  />
-                  <HabitItem
-                    name="dhuhrSunnahAfter"
-                    label="Dhuhr Sunnah (2 After)"
-                    icon={Moon}
-                    isOptional
-                    compact
-                  />
                 </div>
-              )}
-            </div>
+                {expandedPrayer === 'dhuhr' && (
+                  <div className="ml-10 space-y-2">
+                    <HabitItem
+                      name="dhuhrSunnahBefore"
+                      label="Dhuhr Sunnah (4 Before)"
+                      icon={Moon}
+                      isOptional
+                      compact
+                    />
+                    <HabitItem
+                      name="dhuhrSunnahAfter"
+                      label="Dhuhr Sunnah (2 After)"
+                      icon={Moon}
+                      isOptional
+                      compact
+                    />
+                  </div>
+                )}
+              </div>
 
-            <HabitItem name="asr" label="Asr" icon={Sun} />
+              <HabitItem
+                      name="asr"
+                      label="Asr"
+                      icon={Sun}
+                      {...getPrayerItemProps('asr')}
+                    />
 
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <HabitItem name="maghrib" label="Maghrib" icon={Sun} />
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleExpandedPrayer('maghrib');
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Maghrib Sunnah"
-                >
-                  {expandedPrayer === 'maghrib' ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <HabitItem
+                      name="maghrib"
+                      label="Maghrib"
+                      icon={Sun}
+                      {...getPrayerItemProps('maghrib')}
+                    />
+                  </div>
+                  {isHabitShown('maghribSunnahAfter') && (
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleExpandedPrayer('maghrib');
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Maghrib Sunnah"
+                    >
+                      {expandedPrayer === 'maghrib' ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
                   )}
-                </button>
-              </div>
-              {expandedPrayer === 'maghrib' && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="maghribSunnahAfter"
-                    label="Maghrib Sunnah (2 After)"
-                    icon={Moon}
-                    isOptional
-                    compact
-                  />
                 </div>
-              )}
-            </div>
+                {expandedPrayer === 'maghrib' && (
+                  <div className="ml-10 space-y-2">
+                    <HabitItem
+                      name="maghribSunnahAfter"
+                      label="Maghrib Sunnah (2 After)"
+                      icon={Moon}
+                      isOptional
+                      compact
+                    />
+                  </div>
+                )}
+              </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <HabitItem name="isha" label="Isha" icon={Moon} />
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleExpandedPrayer('isha');
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Isha Sunnah"
-                >
-                  {expandedPrayer === 'isha' ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <HabitItem
+                      name="isha"
+                      label="Isha"
+                      icon={Moon}
+                      {...getPrayerItemProps('isha')}
+                    />
+                  </div>
+                  {isHabitShown('ishaSunnahAfter') && (
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleExpandedPrayer('isha');
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Isha Sunnah"
+                    >
+                      {expandedPrayer === 'isha' ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
                   )}
-                </button>
-              </div>
-              {expandedPrayer === 'isha' && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="ishaSunnahAfter"
-                    label="Isha Sunnah (2 After)"
-                    icon={Moon}
-                    isOptional
-                    compact
-                  />
                 </div>
-              )}
-            </div>
-            </div>
-          )}
-        </div>
-
-        <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
-          <div className="mb-4 flex items-center justify-between">
-            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
-              <Book className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
-              Daily Worship
-            </h2>
-            <button
-              type="button"
-              onClick={() => toggleSection('worship')}
-              className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
-              aria-label="Toggle Daily Worship"
-            >
-              {sectionsOpen.worship ? (
-                <ChevronUp className="h-4 w-4" />
-              ) : (
-                <ChevronDown className="h-4 w-4" />
-              )}
-            </button>
+                {expandedPrayer === 'isha' && (
+                  <div className="ml-10 space-y-2">
+                    <HabitItem
+                      name="ishaSunnahAfter"
+                      label="Isha Sunnah (2 After)"
+                      icon={Moon}
+                      isOptional
+                      compact
+                    />
+                  </div>
+                )}
+              </div>
+              {renderCustomHabits('prayers')}
+              </div>
+            )}
           </div>
-          {sectionsOpen.worship && (
-            <div className="space-y-3">
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <HabitItem name="quran" label="Daily Quran Reading" icon={Book} />
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleQuranExpanded();
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Quran options"
-                >
-                  {quranExpanded ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+        )}
+
+        {!isChildProfile && (
+          <QadaLedgerPanel
+            locale={locale}
+            ledger={qadaLedger}
+            missedCounts={missedPrayerCounts}
+            prayerLabels={builtInHabitLabels}
+            today={today}
+            onChange={updateQadaLedger}
+          />
+        )}
+
+        {isSectionShown('worship') && (
+          <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+                <Book className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+                Daily Worship
+              </h2>
+              <button
+                type="button"
+                onClick={() => toggleSection('worship')}
+                className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                aria-label="Toggle Daily Worship"
+              >
+                {sectionsOpen.worship ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            </div>
+            {sectionsOpen.worship && (
+              <div className="space-y-3">
+              {quranHabits.some(isHabitShown) && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1">
+                      <HabitItem name="quran" label="Daily Quran Reading" icon={Book} />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleQuranExpanded();
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Quran options"
+                    >
+                      {quranExpanded ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                  {quranExpanded && (
+                    <div className="ml-10 space-y-2">
+                      <HabitItem
+                        name="quranReflection"
+                        label="Quran Reflection"
+                        icon={Book}
+                        isOptional
+                        compact
+                      />
+                      <HabitItem
+                        name="quranMemorization"
+                        label="Quran Memorization"
+                        icon={Book}
+                        isOptional
+                        compact
+                      />
+                      <HabitItem
+                        name="quranRecitation"
+                        label="Quran Recitation"
+                        icon={Book}
+                        isOptional
+                        compact
+                      />
+                      <MurajaahList
+                        locale={locale}
+                        portions={hifzPortions}
+                        today={today}
+                        onReview={reviewHifz}
+                        onManage={() => setHifzOpen(true)}
+                      />
+                    </div>
                   )}
-                </button>
-              </div>
-              {quranExpanded && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="quranReflection"
-                    label="Quran Reflection"
-                    icon={Book}
-                    isOptional
-                    compact
-                  />
-                  <HabitItem
-                    name="quranMemorization"
-                    label="Quran Memorization"
-                    icon={Book}
-                    isOptional
-                    compact
-                  />
-                  <HabitItem
-                    name="quranRecitation"
-                    label="Quran Recitation"
-                    icon={Book}
-                    isOptional
-                    compact
-                  />
                 </div>
               )}
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 rounded-lg border-2 border-gray-200 bg-white p-4 transition-all dark:border-slate-800 dark:bg-slate-900/60">
-                    <Sun className="h-5 w-5 text-gray-500 dark:text-slate-400" />
-                    <span className="text-base text-gray-700 dark:text-slate-200">
-                      Daily Dhikr
-                    </span>
+              {dailyDhikrHabits.some(isHabitShown) && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 rounded-lg border-2 border-gray-200 bg-white p-4 transition-all dark:border-slate-800 dark:bg-slate-900/60">
+                        <Sun className="h-5 w-5 text-gray-500 dark:text-slate-400" />
+                        <span className="text-base text-gray-700 dark:text-slate-200">
+                          Daily Dhikr
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleDhikrExpanded();
+                      }}
+                      className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
+                      aria-label="Toggle Dhikr options"
+                    >
+                      {dhikrExpanded ? (
+                        <ChevronUp className="h-5 w-5" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5" />
+                      )}
+                    </button>
                   </div>
-                </div>
-                <button
-                  type="button"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    toggleDhikrExpanded();
-                  }}
-                  className="flex h-10 w-10 items-center justify-center rounded-full border border-emerald-100 bg-white/80 text-emerald-700 shadow-sm transition hover:border-emerald-300 dark:border-slate-700 dark:bg-slate-900/70 dark:text-emerald-200"
-                  aria-label="Toggle Dhikr options"
-                >
-                  {dhikrExpanded ? (
-                    <ChevronUp className="h-5 w-5" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5" />
+                  {dhikrExpanded && (
+                    <div className="ml-10 space-y-2">
+                      <HabitItem
+                        name="morningDhikr"
+                        label="Morning Dhikr"
+                        icon={Sun}
+                        compact
+                      />
+                      <HabitItem
+                        name="eveningDhikr"
+                        label="Evening Dhikr"
+                        icon={Moon}
+                        compact
+                      />
+                      <HabitItem
+                        name="sleepDhikr"
+                        label="Before Sleeping Dhikr"
+                        icon={Moon}
+                        compact
+                      />
+                      <button
+                        type="button"
+                        onClick={openAdhkarReader}
+                        className="flex w-full max-w-[520px] items-center gap-2 rounded-lg border-2 border-dashed border-emerald-200 p-3 text-start text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/40 dark:text-emerald-200 dark:hover:bg-slate-800"
+                      >
+                        <BookOpen className="h-4 w-4" />
+                        Read the adhkar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setTasbihOpen(true)}
+                        className="flex w-full max-w-[520px] items-center gap-2 rounded-lg border-2 border-dashed border-emerald-200 p-3 text-start text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/40 dark:text-emerald-200 dark:hover:bg-slate-800"
+                      >
+                        <Repeat className="h-4 w-4" />
+                        Tasbih counter
+                      </button>
+                    </div>
                   )}
-                </button>
-              </div>
-              {dhikrExpanded && (
-                <div className="ml-10 space-y-2">
-                  <HabitItem
-                    name="morningDhikr"
-                    label="Morning Dhikr"
-                    icon={Sun}
-                    compact
-                  />
-                  <HabitItem
-                    name="eveningDhikr"
-                    label="Evening Dhikr"
-                    icon={Moon}
-                    compact
-                  />
-                  <HabitItem
-                    name="sleepDhikr"
-                    label="Before Sleeping Dhikr"
-                    icon={Moon}
-                    compact
-                  />
                 </div>
               )}
-            </div>
-            <HabitItem name="dailyDuaa" label="Daily Du'aa" icon={Heart} />
-            </div>
-          )}
-        </div>
-
-        <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
-          <div className="mb-4 flex items-center justify-between">
-            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
-              <Moon className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
-              Extra Sunnah Prayers
-            </h2>
-            <button
-              type="button"
-              onClick={() => toggleSection('extra')}
-              className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
-              aria-label="Toggle Extra Sunnah Prayers"
-            >
-              {sectionsOpen.extra ? (
-                <ChevronUp className="h-4 w-4" />
-              ) : (
-                <ChevronDown className="h-4 w-4" />
-              )}
-            </button>
+              <HabitItem name="dailyDuaa" label="Daily Du'aa" icon={Heart} />
+              {renderCustomHabits('worship')}
+              </div>
+            )}
           </div>
-          {sectionsOpen.extra && (
-            <div className="space-y-3">
-              <HabitItem name="duhaPrayer" label="Duha Prayer" icon={Sun} isOptional />
-              <HabitItem name="witrPrayer" label="Witr Prayer" icon={Moon} isOptional />
-              <HabitItem
-                name="tahajjudPrayer"
-                label="Tahajjud Prayer"
-                icon={Moon}
-                isOptional
-              />
-            </div>
-          )}
-        </div>
+        )}
 
-        <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
-          <div className="mb-4 flex items-center justify-between">
-            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
-              <Users className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
-              Optional Activities
-            </h2>
-            <button
-              type="button"
-              onClick={() => toggleSection('optional')}
-              className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
-              aria-label="Toggle Optional Activities"
-            >
-              {sectionsOpen.optional ? (
-                <ChevronUp className="h-4 w-4" />
-              ) : (
-                <ChevronDown className="h-4 w-4" />
-              )}
-            </button>
+        {isHabitShown('quran') && (
+          <QuranProgressPanel
+            locale={locale}
+            progress={quranProgress}
+            today={today}
+            hijriSettings={hijriSettings}
+            onChange={updateQuranProgress}
+            onRead={() => {
+              if (!habits.quran) {
+                toggleHabit('quran');
+              }
+            }}
+          />
+        )}
+
+        {isSectionShown('extra') && (
+          <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+                <Moon className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+                Extra Sunnah Prayers
+              </h2>
+              <button
+                type="button"
+                onClick={() => toggleSection('extra')}
+                className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                aria-label="Toggle Extra Sunnah Prayers"
+              >
+                {sectionsOpen.extra ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            </div>
+            {sectionsOpen.extra && (
+              <div className="space-y-3">
+                <HabitItem name="duhaPrayer" label="Duha Prayer" icon={Sun} isOptional />
+                <HabitItem name="witrPrayer" label="Witr Prayer" icon={Moon} isOptional />
+                <HabitItem
+                  name="tahajjudPrayer"
+                  label="Tahajjud Prayer"
+                  icon={Moon}
+                  isOptional
+                />
+                {renderCustomHabits('extra')}
+              </div>
+            )}
           </div>
-          {sectionsOpen.optional && (
-            <div className="space-y-3">
-              <HabitItem name="sadaqah" label="Sadaqah" icon={DollarSign} isOptional />
-              <HabitItem
-                name="islamicStudies"
-                label="Islamic Studies Time"
-                icon={Book}
-                isOptional
-              />
-              <HabitItem
-                name="exercise"
-                label="Exercise Time"
-                icon={Dumbbell}
-                isOptional
-              />
-              <HabitItem
-                name="silatRahim"
-                label="Silat al-Rahim (Family Ties)"
-                icon={Users}
-                isOptional
-              />
-              <HabitItem
-                name="ummahNews"
-                label="Check Ummah News"
-                icon={Newspaper}
-                isOptional
-              />
+        )}
+
+        {isSectionShown('optional') && (
+          <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+                <Users className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+                Optional Activities
+              </h2>
+              <button
+                type="button"
+                onClick={() => toggleSection('optional')}
+                className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                aria-label="Toggle Optional Activities"
+              >
+                {sectionsOpen.optional ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
             </div>
-          )}
-        </div>
+            {sectionsOpen.optional && (
+              <div className="space-y-3">
+                <HabitItem name="sadaqah" label="Sadaqah" icon={DollarSign} isOptional />
+                <HabitItem
+                  name="islamicStudies"
+                  label="Islamic Studies Time"
+                  icon={Book}
+                  isOptional
+                />
+                <HabitItem
+                  name="exercise"
+                  label="Exercise Time"
+                  icon={Dumbbell}
+                  isOptional
+                />
+                <HabitItem
+                  name="silatRahim"
+                  label="Silat al-Rahim (Family Ties)"
+                  icon={Users}
+                  isOptional
+                />
+                <HabitItem
+                  name="ummahNews"
+                  label="Check Ummah News"
+                  icon={Newspaper}
+                  isOptional
+                />
+                {renderCustomHabits('optional')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!isChildProfile && (
+          <GivingLedgerPanel
+            locale={locale}
+            ledger={givingLedger}
+            today={today}
+            hijriSettings={hijriSettings}
+            onChange={updateGivingLedger}
+            onLog={logGiving}
+          />
+        )}
 
+            <StreaksPanel
+              rows={[...todayHabitKeys.main, ...todayHabitKeys.optional].map(
+                (habit) => ({
+                  key: habit,
+                  label: habitLabels[habit] ?? habit,
+                  stats: streaks[habit],
+                })
+              )}
+              allMain={streaks[ALL_MAIN_STREAK_KEY]}
+              prayerStatusCounts={prayerStatusCounts}
+              prayerLabels={builtInHabitLabels}
+              hijriMonthLabel={hijriMonthLabel}
+            />
           </>
         )}
 
@@ -0,0 +1,94 @@
+import { useCallback, useMemo, useState } from 'react';
+import App from './App';
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  getActiveProfile,
+  PROFILES_STORAGE_KEY,
+  type Profile,
+} from './lib/profiles';
+import {
+  loadSnapshot,
+  type DeviceStorage,
+  type StorageSnapshot,
+} from './lib/storage';
+
+type ProfileRootProps = {
+  device: DeviceStorage;
+  initialProfiles: Profile[];
+  initialProfileId: string;
+  // The active profile's data, read once before the first render.
+  initialSnapshot: StorageSnapshot;
+};
+
+// Holds the profile list and which profile is open. Switching profiles reads
+// that profile's data and mounts a fresh tracker on it, so nothing from the
+// previous profile's state carries over.
+const ProfileRoot = ({
+  device,
+  initialProfiles,
+  initialProfileId,
+  initialSnapshot,
+}: ProfileRootProps) => {
+  const [profiles, setProfiles] = useState(initialProfiles);
+  const [session, setSession] = useState({
+    profileId: initialProfileId,
+    snapshot: initialSnapshot,
+  });
+
+  const storage = useMemo(
+    () => device.forProfile(session.profileId),
+    [device, session.profileId]
+  );
+  const activeProfile = getActiveProfile(profiles, session.profileId);
+
+  const switchProfile = useCallback(
+    async (profileId: string) => {
+      const snapshot = await loadSnapshot(device.forProfile(profileId));
+      setSession({ profileId, snapshot });
+      await device.putSetting(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+    },
+    [device]
+  );
+
+  const updateProfiles = useCallback(
+    (nextProfiles: Profile[]) => {
+      setProfiles(nextProfiles);
+      return device.putSetting(
+        PROFILES_STORAGE_KEY,
+        JSON.stringify(nextProfiles)
+      );
+    },
+    [device]
+  );
+
+  // The last profile cannot be removed. Its data goes with it.
+  const removeProfile = useCallback(
+    async (profileId: string) => {
+      const remaining = profiles.filter((profile) => profile.id !== profileId);
+      if (remaining.length === 0) {
+        return;
+      }
+      await updateProfiles(remaining);
+      if (profileId === session.profileId) {
+        await switchProfile(remaining[0].id);
+      }
+      await device.removeProfile(profileId);
+    },
+    [device, profiles, session.profileId, switchProfile, updateProfiles]
+  );
+
+  return (
+    <App
+      key={session.profileId}
+      storage={storage}
+      snapshot={session.snapshot}
+      profiles={profiles}
+      activeProfile={activeProfile}
+      onSwitchProfile={switchProfile}
+      onChangeProfiles={updateProfiles}
+      onRemoveProfile={removeProfile}
+    />
+  );
+};
+
+export default ProfileRoot;
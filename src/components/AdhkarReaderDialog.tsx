@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { CheckCircle2, Undo2, X } from 'lucide-react';
+import {
+  adhkarSetIds,
+  adhkarSets,
+  getAdhkarCount,
+  getAdhkarSetProgress,
+  type AdhkarItem,
+  type AdhkarProgress,
+  type AdhkarSetId,
+} from '../lib/adhkar';
+
+type AdhkarReaderDialogProps = {
+  locale: 'en' | 'ar';
+  progress: AdhkarProgress;
+  initialSet: AdhkarSetId;
+  onCount: (setId: AdhkarSetId, item: AdhkarItem, count: number) => void;
+  onClose: () => void;
+};
+
+const toggleClassName = (active: boolean) =>
+  `rounded-lg border px-3 py-2 text-sm transition ${
+    active
+      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+  }`;
+
+const AdhkarReaderDialog = ({
+  locale,
+  progress,
+  initialSet,
+  onCount,
+  onClose,
+}: AdhkarReaderDialogProps) => {
+  const [setId, setSetId] = useState(initialSet);
+  // Arabic readers usually want the text alone; English readers the aids.
+  const [showAids, setShowAids] = useState(locale !== 'ar');
+
+  const setLabels: Record<AdhkarSetId, string> = {
+    morning: 'Morning',
+    evening: 'Evening',
+    sleep: 'Before sleep',
+  };
+  const setProgress = getAdhkarSetProgress(progress, setId);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Adhkar"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Adhkar
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mb-4 grid grid-cols-3 gap-2">
+          {adhkarSetIds.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setSetId(option)}
+              aria-pressed={setId === option}
+              className={`flex items-center justify-center gap-1 ${toggleClassName(
+                setId === option
+              )}`}
+            >
+              {getAdhkarSetProgress(progress, option).complete && (
+                <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+              )}
+              {setLabels[option]}
+            </button>
+          ))}
+        </div>
+
+        <div className="mb-4">
+          <div className="mb-1 flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+            <span>
+              {setProgress.done} / {setProgress.total}
+            </span>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showAids}
+                onChange={(event) => setShowAids(event.target.checked)}
+                className="h-4 w-4 accent-emerald-600"
+              />
+              Transliteration and translation
+            </label>
+          </div>
+          <div className="h-1.5 w-full rounded-full bg-gray-200 dark:bg-slate-800">
+            <div
+              className="h-1.5 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500"
+              style={{
+                width: `${Math.max(
+                  (setProgress.done / setProgress.total) * 100,
+                  2
+                )}%`,
+              }}
+            />
+          </div>
+        </div>
+
+        {setProgress.complete && (
+          <p className="mb-4 rounded-lg bg-emerald-50 p-3 text-sm text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-200">
+            Set complete. It has been ticked for today.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {adhkarSets[setId].map((item) => {
+            const count = getAdhkarCount(progress, setId, item.id);
+            const done = count >= item.repeat;
+            return (
+              <li
+                key={item.id}
+                className={`rounded-xl border p-4 transition ${
+                  done
+                    ? 'border-emerald-200 bg-emerald-50/60 dark:border-emerald-500/40 dark:bg-emerald-950/30'
+                    : 'border-slate-100 dark:border-slate-800'
+                }`}
+              >
+                <p
+                  dir="rtl"
+                  lang="ar"
+                  className="text-right text-xl leading-loose text-gray-800 dark:text-slate-100"
+                >
+                  {item.arabic}
+                </p>
+                {showAids && (
+                  <div dir="ltr" lang="en" className="mt-3 space-y-2 text-left">
+                    <p className="text-sm italic text-slate-600 dark:text-slate-300">
+                      {item.transliteration}
+                    </p>
+                    <p className="text-sm text-slate-700 dark:text-slate-200">
+                      {item.translation}
+                    </p>
+                  </div>
+                )}
+                <div className="mt-3 flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onCount(setId, item, count + 1)}
+                    disabled={done}
+                    aria-label="Count"
+                    className={`flex flex-1 items-center justify-center gap-2 rounded-lg px-3 py-3 text-sm font-semibold transition disabled:cursor-default ${
+                      done
+                        ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200'
+                        : 'bg-emerald-600 text-white hover:bg-emerald-500 active:scale-[0.98] dark:bg-emerald-500 dark:hover:bg-emerald-400'
+                    }`}
+                  >
+                    {done && <CheckCircle2 className="h-4 w-4" />}
+                    <span dir="ltr">
+                      {count} / {item.repeat}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onCount(setId, item, count - 1)}
+                    disabled={count === 0}
+                    aria-label="Undo"
+                    className="flex h-11 w-11 flex-shrink-0 items-center justify-center rounded-lg border border-gray-200 text-gray-600 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-300"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default AdhkarReaderDialog;
@@ -0,0 +1,396 @@
+import { useMemo, useState } from 'react';
+import { BarChart3, CalendarDays, Clock, TrendingUp } from 'lucide-react';
+import {
+  ANALYTICS_WINDOWS,
+  computeCompletionTrend,
+  computeHabitRates,
+  computePrayerConsistency,
+  computeWeekdayRates,
+  type MonthCalendar,
+} from '../lib/analytics';
+import type { CustomHabit } from '../lib/customHabits';
+import type { DayRecord, HabitKey, Habits } from '../lib/habits';
+import { formatHijriDate, type HijriSettings } from '../lib/hijri';
+import { prayerStatuses, type PrayerStatus } from '../lib/prayerStatus';
+import { PRAYER_NAMES, type PrayerName } from '../lib/prayerTimes';
+
+type AnalyticsViewProps = {
+  locale: 'en' | 'ar';
+  records: Map<string, DayRecord>;
+  enabledHabits: (keyof Habits)[];
+  customHabits: CustomHabit[];
+  // Habits to chart, in display order.
+  habits: HabitKey[];
+  habitLabels: Record<string, string>;
+  prayerLabels: Record<PrayerName, string>;
+  today: Date;
+  hijriSettings: HijriSettings;
+};
+
+const TREND_MONTHS = 6;
+// Weekday averages need a few weeks of data to mean anything.
+const WEEKDAY_DAYS = 90;
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+const cardClassName =
+  'mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70';
+
+const headingClassName =
+  'mb-4 flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100';
+
+const toggleClassName = (active: boolean) =>
+  `rounded-lg border px-3 py-1.5 text-sm transition ${
+    active
+      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+  }`;
+
+const statusBarClassNames: Record<PrayerStatus | 'unmarked', string> = {
+  jamaah: 'bg-emerald-600 dark:bg-emerald-500',
+  onTime: 'bg-emerald-400 dark:bg-emerald-300',
+  late: 'bg-amber-400',
+  qada: 'bg-sky-400',
+  missed: 'bg-rose-400',
+  unmarked: 'bg-gray-200 dark:bg-slate-700',
+};
+
+const toPolyline = (values: (number | null)[]) =>
+  values
+    .map((value, index) =>
+      value === null
+        ? null
+        : `${(index / Math.max(1, values.length - 1)) * CHART_WIDTH},${
+            CHART_HEIGHT - (value / 100) * CHART_HEIGHT
+          }`
+    )
+    .filter((point): point is string => point !== null)
+    .join(' ');
+
+const AnalyticsView = ({
+  locale,
+  records,
+  enabledHabits,
+  customHabits,
+  habits,
+  habitLabels,
+  prayerLabels,
+  today,
+  hijriSettings,
+}: AnalyticsViewProps) => {
+  const [calendar, setCalendar] = useState<MonthCalendar>('gregorian');
+  const [prayerWindow, setPrayerWindow] = useState(ANALYTICS_WINDOWS[1]);
+
+  const statusLabels: Record<PrayerStatus | 'unmarked', string> = {
+    jamaah: "Jama'ah",
+    onTime: 'On time',
+    late: 'Late',
+    qada: 'Made up',
+    missed: 'Missed',
+    unmarked: 'Not marked',
+  };
+
+  const habitRates = useMemo(
+    () =>
+      computeHabitRates(records, habits, customHabits, today, hijriSettings),
+    [records, habits, customHabits, today, hijriSettings]
+  );
+  const trend = useMemo(
+    () =>
+      computeCompletionTrend(
+        records,
+        enabledHabits,
+        customHabits,
+        today,
+        calendar,
+        TREND_MONTHS,
+        hijriSettings
+      ),
+    [records, enabledHabits, customHabits, today, calendar, hijriSettings]
+  );
+  const weekdayRates = useMemo(
+    () =>
+      computeWeekdayRates(
+        records,
+        enabledHabits,
+        customHabits,
+        today,
+        WEEKDAY_DAYS
+      ),
+    [records, enabledHabits, customHabits, today]
+  );
+  const prayerConsistency = useMemo(
+    () => computePrayerConsistency(records, today, prayerWindow),
+    [records, today, prayerWindow]
+  );
+
+  const intlLocale = locale === 'ar' ? 'ar' : 'en';
+  const monthFormatter = useMemo(
+    () => new Intl.DateTimeFormat(intlLocale, { month: 'short' }),
+    [intlLocale]
+  );
+  const formatMonth = (date: Date) =>
+    calendar === 'hijri'
+      ? formatHijriDate(date, locale, { month: 'short' }, hijriSettings)
+      : monthFormatter.format(date);
+  const weekdayFormatter = useMemo(
+    () => new Intl.DateTimeFormat(intlLocale, { weekday: 'short' }),
+    [intlLocale]
+  );
+  // 4 January 1970 was a Sunday.
+  const weekdayName = (weekday: number) =>
+    weekdayFormatter.format(new Date(1970, 0, 4 + weekday));
+
+  const rankedWeekdays = weekdayRates
+    .filter((entry): entry is { weekday: number; percent: number } =>
+      entry.percent !== null
+    )
+    .sort((a, b) => b.percent - a.percent);
+  const bestWeekday = rankedWeekdays[0] ?? null;
+  const worstWeekday =
+    rankedWeekdays.length > 1 ? rankedWeekdays[rankedWeekdays.length - 1] : null;
+
+  if (records.size === 0) {
+    return (
+      <div className={cardClassName}>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Track a few days to see your analytics here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className={cardClassName}>
+        <h2 className={headingClassName}>
+          <BarChart3 className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+          Completion by habit
+        </h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500 dark:text-slate-400">
+                <th className="py-2 text-start font-medium">Habit</th>
+                <th className="py-2 font-medium">7 days</th>
+                <th className="py-2 font-medium">30 days</th>
+                <th className="py-2 font-medium">90 days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {habits.map((habit) => (
+                <tr
+                  key={habit}
+                  className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                >
+                  <td className="py-2 pe-2">{habitLabels[habit] ?? habit}</td>
+                  {habitRates[habit].map((rate, index) => (
+                    <td key={ANALYTICS_WINDOWS[index]} className="w-20 py-2">
+                      {rate === null ? (
+                        <p className="text-center text-slate-400">—</p>
+                      ) : (
+                        <>
+                          <p className="text-center text-xs">{rate}%</p>
+                          <div className="mx-auto h-1.5 w-14 rounded-full bg-gray-200 dark:bg-slate-800">
+                            <div
+                              className="h-1.5 rounded-full bg-emerald-500"
+                              style={{ width: `${rate}%` }}
+                            />
+                          </div>
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className={cardClassName}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+            <TrendingUp className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+            Main vs Taqarrub
+          </h2>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setCalendar('gregorian')}
+              aria-pressed={calendar === 'gregorian'}
+              className={toggleClassName(calendar === 'gregorian')}
+            >
+              Gregorian
+            </button>
+            <button
+              type="button"
+              onClick={() => setCalendar('hijri')}
+              aria-pressed={calendar === 'hijri'}
+              className={toggleClassName(calendar === 'hijri')}
+            >
+              Hijri
+            </button>
+          </div>
+        </div>
+        <div dir="ltr">
+          <svg
+            viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`}
+            className="h-40 w-full"
+            role="img"
+            aria-label="Monthly completion trend"
+          >
+            {[0, 50, 100].map((level) => (
+              <line
+                key={level}
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+                y2={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+                className="stroke-gray-200 dark:stroke-slate-700"
+                strokeWidth={0.5}
+              />
+            ))}
+            <polyline
+              points={toPolyline(trend.map((point) => point.main))}
+              fill="none"
+              className="stroke-emerald-500"
+              strokeWidth={2}
+            />
+            <polyline
+              points={toPolyline(trend.map((point) => point.optional))}
+              fill="none"
+              className="stroke-sky-400"
+              strokeWidth={2}
+              strokeDasharray="4 3"
+            />
+          </svg>
+          <div className="mt-1 flex justify-between text-xs text-slate-500 dark:text-slate-400">
+            {trend.map((point) => (
+              <span key={point.start.toISOString()}>
+                {formatMonth(point.start)}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-600 dark:text-slate-300">
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-4 bg-emerald-500" />
+            Main habits
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-4 bg-sky-400" />
+            Taqarrub
+          </span>
+        </div>
+      </div>
+
+      <div className={cardClassName}>
+        <h2 className={headingClassName}>
+          <CalendarDays className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+          Weekdays
+        </h2>
+        <div className="flex h-32 items-end gap-2">
+          {weekdayRates.map((entry) => (
+            <div
+              key={entry.weekday}
+              className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+            >
+              <span className="text-xs text-slate-500 dark:text-slate-400">
+                {entry.percent === null ? '—' : `${entry.percent}%`}
+              </span>
+              <div
+                className={`w-full rounded-t ${
+                  entry.weekday === bestWeekday?.weekday
+                    ? 'bg-emerald-500'
+                    : entry.weekday === worstWeekday?.weekday
+                      ? 'bg-rose-400'
+                      : 'bg-emerald-200 dark:bg-emerald-800'
+                }`}
+                style={{ height: `${Math.max(entry.percent ?? 0, 2)}%` }}
+              />
+              <span className="text-xs text-slate-600 dark:text-slate-300">
+                {weekdayName(entry.weekday)}
+              </span>
+            </div>
+          ))}
+        </div>
+        {bestWeekday && worstWeekday && (
+          <p className="mt-3 text-sm text-slate-600 dark:text-slate-300">
+            <>Main habits over the last 90 days: best on {weekdayName(bestWeekday.weekday)}, weakest on {weekdayName(worstWeekday.weekday)}.</>
+          </p>
+        )}
+      </div>
+
+      <div className={cardClassName}>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+            <Clock className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+            Prayer consistency
+          </h2>
+          <div className="flex gap-2">
+            {ANALYTICS_WINDOWS.map((window) => (
+              <button
+                key={window}
+                type="button"
+                onClick={() => setPrayerWindow(window)}
+                aria-pressed={prayerWindow === window}
+                className={toggleClassName(prayerWindow === window)}
+              >
+                <>{window} days</>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-3">
+          {PRAYER_NAMES.map((prayer) => {
+            const counts = prayerConsistency[prayer];
+            const total = Object.values(counts).reduce(
+              (sum, count) => sum + count,
+              0
+            );
+            const inTime = counts.jamaah + counts.onTime + counts.late;
+            return (
+              <div key={prayer}>
+                <div className="mb-1 flex justify-between text-sm text-gray-700 dark:text-slate-200">
+                  <span>{prayerLabels[prayer]}</span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {total === 0 ? '—' : `${Math.round((inTime / total) * 100)}%`}
+                  </span>
+                </div>
+                <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-slate-800">
+                  {[...prayerStatuses, 'unmarked' as const].map((status) =>
+                    counts[status] === 0 ? null : (
+                      <div
+                        key={status}
+                        className={statusBarClassNames[status]}
+                        style={{ width: `${(counts[status] / total) * 100}%` }}
+                        title={`${statusLabels[status]}: ${counts[status]}`}
+                      />
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-4 flex flex-wrap gap-3 text-xs text-slate-600 dark:text-slate-300">
+          {[...prayerStatuses, 'unmarked' as const].map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span
+                className={`h-2.5 w-2.5 rounded-full ${statusBarClassNames[status]}`}
+              />
+              {statusLabels[status]}
+            </span>
+          ))}
+        </div>
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+          The percentage counts prayers made within their time.
+        </p>
+      </div>
+    </>
+  );
+};
+
+export default AnalyticsView;
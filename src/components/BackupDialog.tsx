@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import {
+  applyBackup,
+  createBackup,
+  parseBackup,
+  type BackupError,
+  type BackupPreview,
+  type ImportMode,
+} from '../lib/backup';
+import { downloadFile } from '../lib/download';
+import { formatDateKey, parseDateKey } from '../lib/habits';
+import type { StorageRepository } from '../lib/storage';
+
+type BackupDialogProps = {
+  locale: 'en' | 'ar';
+  storage: StorageRepository;
+  onImported: () => void;
+  onClose: () => void;
+};
+
+const BackupDialog = ({
+  locale,
+  storage,
+  onImported,
+  onClose,
+}: BackupDialogProps) => {
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [error, setError] = useState<BackupError | 'storage' | 'read' | null>(
+    null
+  );
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const errorMessages: Record<BackupError | 'storage' | 'read', string> = {
+    invalidJson: 'This file is not valid JSON.',
+    unknownFormat: 'This file is not a Sunnah Tracker backup.',
+    newerVersion:
+      'This backup was made by a newer version of the app. Update the app and try again.',
+    storage: 'The backup could not be saved on this device.',
+    read: 'Your history could not be read from this device.',
+  };
+
+  const formatDate = (dateKey: string) =>
+    new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    }).format(parseDateKey(dateKey));
+
+  const firstDate = preview?.firstDate ? formatDate(preview.firstDate) : null;
+  const lastDate = preview?.lastDate ? formatDate(preview.lastDate) : null;
+  const settingsCount = preview ? Object.keys(preview.settings).length : 0;
+  const formatLabel =
+    preview?.schemaVersion === 0
+      ? 'Legacy format'
+      : `Version ${preview?.schemaVersion}`;
+
+  const handleExport = async () => {
+    setError(null);
+    let backup;
+    try {
+      backup = await createBackup(storage);
+    } catch {
+      setError('read');
+      return;
+    }
+    downloadFile(
+      `sunnah-tracker-backup-${formatDateKey(new Date())}.json`,
+      JSON.stringify(backup, null, 2),
+      'application/json'
+    );
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setError(null);
+    if (!file) {
+      return;
+    }
+    const result = parseBackup(await file.text());
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setPreview(result.preview);
+  };
+
+  const handleImport = async () => {
+    if (!preview) {
+      return;
+    }
+    try {
+      await applyBackup(storage, preview, mode);
+    } catch {
+      setError('storage');
+      return;
+    }
+    onImported();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Backup and restore"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Backup and restore
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+          Export
+        </p>
+        <p className="mb-3 text-sm text-slate-600 dark:text-slate-300">
+          Download every daily record and your settings as one JSON file.
+        </p>
+        <button
+          type="button"
+          onClick={() => void handleExport()}
+          className="mb-6 flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+        >
+          <Download className="h-4 w-4" />
+          Export backup
+        </button>
+
+        <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+          Import
+        </p>
+        <label className="flex w-full cursor-pointer items-center justify-center gap-2 rounded-lg border border-dashed border-emerald-300 px-3 py-3 text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/50 dark:text-emerald-200 dark:hover:bg-slate-800">
+          <Upload className="h-4 w-4" />
+          Choose a backup file
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              void handleFile(event.target.files?.[0]);
+              event.target.value = '';
+            }}
+          />
+        </label>
+
+        {error && (
+          <p className="mt-3 rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-950/40 dark:text-rose-200">
+            {errorMessages[error]}
+          </p>
+        )}
+
+        {preview && (
+          <div className="mt-4 space-y-3">
+            <div className="rounded-lg border border-emerald-100 p-3 text-sm text-slate-700 dark:border-slate-700 dark:text-slate-200">
+              {firstDate && lastDate ? (
+                <p>
+                  {preview.records.size} days, from {firstDate} to {lastDate}
+                </p>
+              ) : (
+                <p>This backup has no daily records.</p>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {settingsCount} settings · {formatLabel}
+              </p>
+              {preview.skippedRecords > 0 && (
+                <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                  {preview.skippedRecords} invalid days will be skipped.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setMode('merge')}
+                aria-pressed={mode === 'merge'}
+                className={`rounded-lg border px-3 py-2 text-sm transition ${
+                  mode === 'merge'
+                    ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                    : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                }`}
+              >
+                Merge
+              </button>
+              <button
+                type="button"
+                onClick={() => setMode('replace')}
+                aria-pressed={mode === 'replace'}
+                className={`rounded-lg border px-3 py-2 text-sm transition ${
+                  mode === 'replace'
+                    ? 'border-rose-400 bg-rose-50 text-rose-900'
+                    : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                }`}
+              >
+                Replace
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {mode === 'merge'
+                ? 'Keeps your current data and adds anything ticked in the backup.'
+                : 'Deletes all current history and settings on this device first.'}
+            </p>
+            <button
+              type="button"
+              onClick={() => void handleImport()}
+              className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+            >
+              <Upload className="h-4 w-4" />
+              Import backup
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -0,0 +1,302 @@
+import { useMemo, useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import type { CustomHabit } from '../lib/customHabits';
+import { buildHabitsCsv } from '../lib/csv';
+import { downloadFile } from '../lib/download';
+import {
+  formatHijriDate,
+  getHijriMonthRange,
+  getHijriParts,
+  type HijriSettings,
+} from '../lib/hijri';
+import { formatDateKey, parseDateKey, type Habits } from '../lib/habits';
+import type { StorageRepository } from '../lib/storage';
+
+type CsvExportDialogProps = {
+  locale: 'en' | 'ar';
+  storage: StorageRepository;
+  // YYYY-MM-DD of the oldest stored day, if any.
+  firstRecordKey: string | null;
+  enabledHabits: (keyof Habits)[];
+  customHabits: CustomHabit[];
+  today: Date;
+  hijriSettings: HijriSettings;
+  onClose: () => void;
+};
+
+type RangeMode = 'gregorian' | 'hijri';
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const CsvExportDialog = ({
+  locale,
+  storage,
+  firstRecordKey,
+  enabledHabits,
+  customHabits,
+  today,
+  hijriSettings,
+  onClose,
+}: CsvExportDialogProps) => {
+  const firstDateKey = firstRecordKey ?? formatDateKey(today);
+  const todayHijri = useMemo(
+    () => getHijriParts(today, hijriSettings),
+    [hijriSettings, today]
+  );
+  const firstHijriYear = useMemo(
+    () => getHijriParts(parseDateKey(firstDateKey), hijriSettings).year,
+    [firstDateKey, hijriSettings]
+  );
+
+  const [mode, setMode] = useState<RangeMode>('gregorian');
+  const [readFailed, setReadFailed] = useState(false);
+  const [gregorianStart, setGregorianStart] = useState(firstDateKey);
+  const [gregorianEnd, setGregorianEnd] = useState(formatDateKey(today));
+  const [hijriStart, setHijriStart] = useState({
+    year: todayHijri.year,
+    month: todayHijri.month,
+  });
+  const [hijriEnd, setHijriEnd] = useState({
+    year: todayHijri.year,
+    month: todayHijri.month,
+  });
+
+  const hijriYears = useMemo(() => {
+    const years: number[] = [];
+    for (let year = firstHijriYear; year <= todayHijri.year; year += 1) {
+      years.push(year);
+    }
+    return years;
+  }, [firstHijriYear, todayHijri.year]);
+
+  const hijriMonthLabels = useMemo(() => {
+    return Array.from({ length: 12 }, (_, index) =>
+      formatHijriDate(
+        getHijriMonthRange(todayHijri.year, index + 1, hijriSettings).start,
+        locale,
+        { month: 'long' },
+        hijriSettings
+      )
+    );
+  }, [hijriSettings, locale, todayHijri.year]);
+
+  const range = useMemo(() => {
+    if (mode === 'gregorian') {
+      if (!gregorianStart || !gregorianEnd) {
+        return null;
+      }
+      return {
+        start: parseDateKey(gregorianStart),
+        end: parseDateKey(gregorianEnd),
+      };
+    }
+    return {
+      start: getHijriMonthRange(
+        hijriStart.year,
+        hijriStart.month,
+        hijriSettings
+      ).start,
+      end: getHijriMonthRange(hijriEnd.year, hijriEnd.month, hijriSettings)
+        .end,
+    };
+  }, [
+    gregorianEnd,
+    gregorianStart,
+    hijriEnd,
+    hijriSettings,
+    hijriStart,
+    mode,
+  ]);
+
+  const dayCount =
+    range && range.start <= range.end
+      ? Math.round((range.end.getTime() - range.start.getTime()) / 86_400_000) +
+        1
+      : 0;
+
+  const handleExport = async () => {
+    if (!range || dayCount === 0) {
+      return;
+    }
+    setReadFailed(false);
+    let records;
+    try {
+      records = await storage.getDays({
+        start: formatDateKey(range.start),
+        end: formatDateKey(range.end),
+      });
+    } catch {
+      setReadFailed(true);
+      return;
+    }
+    const csv = buildHabitsCsv(
+      records,
+      enabledHabits,
+      customHabits,
+      range.start,
+      range.end,
+      hijriSettings
+    );
+    // The byte order mark lets spreadsheet apps detect UTF-8 (Arabic names).
+    downloadFile(
+      `sunnah-tracker-${formatDateKey(range.start)}-to-${formatDateKey(range.end)}.csv`,
+      `\uFEFF${csv}`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const renderHijriPicker = (
+    value: { year: number; month: number },
+    onChange: (value: { year: number; month: number }) => void
+  ) => (
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        value={value.month}
+        onChange={(event) =>
+          onChange({ ...value, month: Number(event.target.value) })
+        }
+        aria-label="Hijri month"
+        className={inputClassName}
+      >
+        {hijriMonthLabels.map((label, index) => (
+          <option key={label} value={index + 1}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.year}
+        onChange={(event) =>
+          onChange({ ...value, year: Number(event.target.value) })
+        }
+        aria-label="Hijri year"
+        className={inputClassName}
+      >
+        {hijriYears.map((year) => (
+          <option key={year} value={year}>
+            {year}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Export CSV"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Export CSV
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          One row per day with every habit, its progress and fasting flags.
+        </p>
+
+        <div className="mb-4 grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={() => setMode('gregorian')}
+            aria-pressed={mode === 'gregorian'}
+            className={`rounded-lg border px-3 py-2 text-sm transition ${
+              mode === 'gregorian'
+                ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+            }`}
+          >
+            Gregorian dates
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('hijri')}
+            aria-pressed={mode === 'hijri'}
+            className={`rounded-lg border px-3 py-2 text-sm transition ${
+              mode === 'hijri'
+                ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+            }`}
+          >
+            Hijri months
+          </button>
+        </div>
+
+        <div className="mb-4 space-y-3">
+          <div>
+            <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+              From
+            </p>
+            {mode === 'gregorian' ? (
+              <input
+                type="date"
+                value={gregorianStart}
+                max={gregorianEnd}
+                onChange={(event) => setGregorianStart(event.target.value)}
+                className={inputClassName}
+              />
+            ) : (
+              renderHijriPicker(hijriStart, setHijriStart)
+            )}
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+              To
+            </p>
+            {mode === 'gregorian' ? (
+              <input
+                type="date"
+                value={gregorianEnd}
+                min={gregorianStart}
+                onChange={(event) => setGregorianEnd(event.target.value)}
+                className={inputClassName}
+              />
+            ) : (
+              renderHijriPicker(hijriEnd, setHijriEnd)
+            )}
+          </div>
+        </div>
+
+        {dayCount === 0 && (
+          <p className="mb-3 text-xs text-rose-600 dark:text-rose-300">
+            The start of the range must come before its end.
+          </p>
+        )}
+        {readFailed && (
+          <p className="mb-3 text-xs text-rose-600 dark:text-rose-300">
+            Your history could not be read from this device.
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={() => void handleExport()}
+          disabled={dayCount === 0}
+          className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+        >
+          <FileSpreadsheet className="h-4 w-4" />
+          Download {dayCount} days
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvExportDialog;
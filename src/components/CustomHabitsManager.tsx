@@ -0,0 +1,345 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import {
+  archiveCustomHabit,
+  createCustomHabit,
+  isCustomHabitArchived,
+  restoreCustomHabit,
+  type CustomHabit,
+  type HabitKind,
+  type HabitSection,
+} from '../lib/customHabits';
+import { getHabitIcon, habitIcons } from './habitIcons';
+
+type CustomHabitsManagerProps = {
+  habits: CustomHabit[];
+  today: Date;
+  onChange: (habits: CustomHabit[]) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const CustomHabitRow = ({
+  habit,
+  sectionLabels,
+  canMoveUp,
+  canMoveDown,
+  onUpdate,
+  onMove,
+  onArchive,
+}: {
+  habit: CustomHabit;
+  sectionLabels: Record<HabitSection, string>;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onUpdate: (changes: Partial<CustomHabit>) => void;
+  onMove: (offset: number) => void;
+  onArchive: () => void;
+}) => {
+  const [draftName, setDraftName] = useState(habit.name);
+  const Icon = getHabitIcon(habit.icon);
+
+  const commitName = () => {
+    const name = draftName.trim();
+    if (!name) {
+      setDraftName(habit.name);
+      return;
+    }
+    if (name !== habit.name) {
+      onUpdate({ name });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 p-2 dark:border-slate-700">
+      <Icon className="h-4 w-4 flex-shrink-0 text-emerald-600 dark:text-emerald-300" />
+      <form
+        className="min-w-0 flex-1"
+        onSubmit={(event) => {
+          event.preventDefault();
+          commitName();
+        }}
+      >
+        <input
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={commitName}
+          aria-label="Habit name"
+          className={`${inputClassName} py-1`}
+        />
+      </form>
+      <span className="rounded bg-gray-100 px-2 py-1 text-xs text-gray-500 dark:bg-slate-800 dark:text-slate-300">
+        {habit.kind === 'main' ? 'Main' : 'Taqarrub'}
+      </span>
+      <select
+        value={habit.section}
+        onChange={(event) =>
+          onUpdate({ section: event.target.value as HabitSection })
+        }
+        aria-label="Section"
+        className={`${inputClassName} w-auto py-1 text-xs`}
+      >
+        {(Object.keys(sectionLabels) as HabitSection[]).map((section) => (
+          <option key={section} value={section}>
+            {sectionLabels[section]}
+          </option>
+        ))}
+      </select>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onMove(-1)}
+          disabled={!canMoveUp}
+          aria-label="Move up"
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-700 dark:text-emerald-200"
+        >
+          <ArrowUp className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(1)}
+          disabled={!canMoveDown}
+          aria-label="Move down"
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-700 dark:text-emerald-200"
+        >
+          <ArrowDown className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onArchive}
+          aria-label="Archive habit"
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-amber-200 text-amber-700 transition hover:border-amber-400 dark:border-amber-500/40 dark:text-amber-200"
+        >
+          <Archive className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CustomHabitsManager = ({
+  habits,
+  today,
+  onChange,
+  onClose,
+}: CustomHabitsManagerProps) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<HabitKind>('optional');
+  const [section, setSection] = useState<HabitSection>('worship');
+  const [icon, setIcon] = useState('star');
+
+  const sectionLabels: Record<HabitSection, string> = {
+    prayers: 'Five Daily Prayers',
+    worship: 'Daily Worship',
+    extra: 'Extra Sunnah Prayers',
+    optional: 'Optional Activities',
+  };
+
+  const activeHabits = habits.filter(
+    (habit) => !isCustomHabitArchived(habit)
+  );
+  const archivedHabits = habits.filter(isCustomHabitArchived);
+
+  const updateHabit = (id: string, changes: Partial<CustomHabit>) => {
+    onChange(
+      habits.map((habit) => (habit.id === id ? { ...habit, ...changes } : habit))
+    );
+  };
+
+  const replaceHabit = (nextHabit: CustomHabit) => {
+    onChange(
+      habits.map((habit) => (habit.id === nextHabit.id ? nextHabit : habit))
+    );
+  };
+
+  const moveHabit = (id: string, offset: number) => {
+    const activeIndex = activeHabits.findIndex((habit) => habit.id === id);
+    const target = activeHabits[activeIndex + offset];
+    if (!target) {
+      return;
+    }
+    const from = habits.findIndex((habit) => habit.id === id);
+    const to = habits.findIndex((habit) => habit.id === target.id);
+    const next = [...habits];
+    [next[from], next[to]] = [next[to], next[from]];
+    onChange(next);
+  };
+
+  const addHabit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    onChange([
+      ...habits,
+      createCustomHabit({ name: trimmed, icon, kind, section }, today),
+    ]);
+    setName('');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Custom habits"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Custom habits
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            addHabit();
+          }}
+          className="mb-5 space-y-3 rounded-xl border border-emerald-100 p-3 dark:border-slate-700"
+        >
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Surah Al-Mulk before sleep"
+            aria-label="New habit name"
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => setKind('main')}
+              aria-pressed={kind === 'main'}
+              className={`rounded-lg border px-3 py-2 text-sm transition ${
+                kind === 'main'
+                  ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                  : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+              }`}
+            >
+              Main habit
+            </button>
+            <button
+              type="button"
+              onClick={() => setKind('optional')}
+              aria-pressed={kind === 'optional'}
+              className={`rounded-lg border px-3 py-2 text-sm transition ${
+                kind === 'optional'
+                  ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                  : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+              }`}
+            >
+              Taqarrub habit
+            </button>
+          </div>
+          <select
+            value={section}
+            onChange={(event) => setSection(event.target.value as HabitSection)}
+            aria-label="Section"
+            className={inputClassName}
+          >
+            {(Object.keys(sectionLabels) as HabitSection[]).map((option) => (
+              <option key={option} value={option}>
+                {sectionLabels[option]}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-7 gap-1.5">
+            {Object.entries(habitIcons).map(([iconName, Icon]) => (
+              <button
+                key={iconName}
+                type="button"
+                onClick={() => setIcon(iconName)}
+                aria-pressed={icon === iconName}
+                aria-label={iconName}
+                className={`flex h-9 items-center justify-center rounded-lg border transition ${
+                  icon === iconName
+                    ? 'border-emerald-500 bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-200'
+                    : 'border-gray-200 text-gray-500 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-400'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          >
+            <Plus className="h-4 w-4" />
+            Add habit
+          </button>
+        </form>
+
+        {activeHabits.length > 0 ? (
+          <div className="mb-5 space-y-2">
+            {activeHabits.map((habit, index) => (
+              <CustomHabitRow
+                key={habit.id}
+                habit={habit}
+                sectionLabels={sectionLabels}
+                canMoveUp={index > 0}
+                canMoveDown={index < activeHabits.length - 1}
+                onUpdate={(changes) => updateHabit(habit.id, changes)}
+                onMove={(offset) => moveHabit(habit.id, offset)}
+                onArchive={() => replaceHabit(archiveCustomHabit(habit, today))}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="mb-5 text-sm text-slate-500 dark:text-slate-400">
+            No custom habits yet.
+          </p>
+        )}
+
+        {archivedHabits.length > 0 && (
+          <div>
+            <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+              Archived
+            </p>
+            <div className="space-y-2">
+              {archivedHabits.map((habit) => {
+                const Icon = getHabitIcon(habit.icon);
+                return (
+                  <div
+                    key={habit.id}
+                    className="flex items-center gap-2 rounded-lg border border-dashed border-gray-200 p-2 text-sm text-slate-500 dark:border-slate-700 dark:text-slate-400"
+                  >
+                    <Icon className="h-4 w-4 flex-shrink-0" />
+                    <span className="flex-1">{habit.name}</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        replaceHabit(restoreCustomHabit(habit, today))
+                      }
+                      aria-label="Restore habit"
+                      className="flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomHabitsManager;
@@ -0,0 +1,178 @@
+import { useMemo } from 'react';
+import { Check, Circle, X } from 'lucide-react';
+import {
+  getCompletionPercent,
+  getHabitCompletion,
+  isFardPrayerKey,
+  type HabitKey,
+  type HabitValue,
+} from '../lib/habits';
+import { formatHijriDate, type HijriSettings } from '../lib/hijri';
+import { migratePrayerValue, type PrayerStatus } from '../lib/prayerStatus';
+import type { PrayerName } from '../lib/prayerTimes';
+import PrayerStatusPicker from './PrayerStatusPicker';
+
+type DayHabitsEditorProps = {
+  locale: 'en' | 'ar';
+  date: Date;
+  hijriSettings: HijriSettings;
+  habits: Partial<Record<HabitKey, HabitValue>>;
+  mainHabits: HabitKey[];
+  optionalHabits: HabitKey[];
+  habitLabels: Record<string, string>;
+  onToggle: (habit: HabitKey) => void;
+  onSetPrayerStatus: (prayer: PrayerName, status: PrayerStatus | null) => void;
+  onClose: () => void;
+};
+
+const DayHabitsEditor = ({
+  locale,
+  date,
+  hijriSettings,
+  habits,
+  mainHabits,
+  optionalHabits,
+  habitLabels,
+  onToggle,
+  onSetPrayerStatus,
+  onClose,
+}: DayHabitsEditorProps) => {
+  const gregorianLabel = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+    return formatter.format(date);
+  }, [date, locale]);
+
+  const hijriLabel = useMemo(() => {
+    return formatHijriDate(
+      date,
+      locale,
+      { day: 'numeric', month: 'long', year: 'numeric' },
+      hijriSettings
+    );
+  }, [date, hijriSettings, locale]);
+
+  const progress = getCompletionPercent(habits, mainHabits);
+  const optionalProgress = getCompletionPercent(habits, optionalHabits);
+
+  const isChecked = (habit: HabitKey) =>
+    getHabitCompletion(habits[habit]) > 0;
+
+  const renderHabitButton = (habit: HabitKey) => (
+    <button
+      key={habit}
+      type="button"
+      onClick={() => onToggle(habit)}
+      aria-pressed={isChecked(habit)}
+      className={`flex w-full items-center gap-2 rounded-lg border-2 p-2.5 text-start text-sm transition-all ${
+        isChecked(habit)
+          ? 'border-emerald-500 bg-emerald-50 font-medium text-emerald-900 dark:border-emerald-400/70 dark:bg-emerald-950/40 dark:text-emerald-100'
+          : 'border-gray-200 bg-white text-gray-700 hover:border-emerald-300 dark:border-slate-800 dark:bg-slate-900/60 dark:text-slate-200 dark:hover:border-emerald-500/60'
+      }`}
+    >
+      {isChecked(habit) ? (
+        <span className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-emerald-600 dark:bg-emerald-500">
+          <Check className="h-3 w-3 text-white" />
+        </span>
+      ) : (
+        <Circle className="h-5 w-5 flex-shrink-0 text-gray-400 dark:text-slate-500" />
+      )}
+      <span>{habitLabels[habit] ?? habit}</span>
+    </button>
+  );
+
+  // Prayers also get their status chips, e.g. to mark one made up later.
+  const renderHabit = (habit: HabitKey) =>
+    isFardPrayerKey(habit) ? (
+      <div key={habit}>
+        {renderHabitButton(habit)}
+        <PrayerStatusPicker
+          value={migratePrayerValue(habits[habit])}
+          onChange={(status) => onSetPrayerStatus(habit, status)}
+        />
+      </div>
+    ) : (
+      renderHabitButton(habit)
+    );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit day"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <div>
+            <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+              {gregorianLabel}
+            </p>
+            <p className="text-sm text-emerald-700 dark:text-emerald-300">
+              {hijriLabel}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mb-4 grid grid-cols-2 gap-3 text-xs text-slate-600 dark:text-slate-300">
+          <div>
+            <div className="mb-1 flex items-center justify-between">
+              <span>Main habits</span>
+              <span className="font-semibold">{progress}%</span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-slate-800">
+              <div
+                className="h-2 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 transition-all duration-500"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+          <div>
+            <div className="mb-1 flex items-center justify-between">
+              <span>Taqarrub habits</span>
+              <span className="font-semibold">{optionalProgress}%</span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-slate-800">
+              <div
+                className="h-2 rounded-full bg-gradient-to-r from-amber-400 to-rose-400/90 transition-all duration-500"
+                style={{ width: `${optionalProgress}%` }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+          Main habits
+        </p>
+        <div className="mb-4 grid gap-2 sm:grid-cols-2">
+          {mainHabits.map(renderHabit)}
+        </div>
+
+        <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+          Taqarrub habits
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {optionalHabits.map(renderHabit)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayHabitsEditor;
@@ -0,0 +1,550 @@
+import { useMemo, useState } from 'react';
+import {
+  BellRing,
+  ChevronDown,
+  ChevronUp,
+  HandCoins,
+  Trash2,
+} from 'lucide-react';
+import { formatDateKey, parseDateKey } from '../lib/habits';
+import {
+  computeZakat,
+  createGivingEntry,
+  getHawlStatus,
+  getHijriYearGivingTotals,
+  getMonthlyGivingTotals,
+  givingCategories,
+  zakatAssetKeys,
+  type GivingCategory,
+  type GivingEntry,
+  type GivingKind,
+  type GivingLedger,
+  type GivingTotals,
+  type ZakatAssets,
+} from '../lib/giving';
+import type { HijriSettings } from '../lib/hijri';
+
+type GivingLedgerPanelProps = {
+  locale: 'en' | 'ar';
+  ledger: GivingLedger;
+  today: Date;
+  hijriSettings: HijriSettings;
+  onChange: (ledger: GivingLedger) => void;
+  // Called with each newly logged entry.
+  onLog: (entry: GivingEntry) => void;
+};
+
+type Tab = 'log' | 'totals' | 'zakat';
+
+const MONTHS_SHOWN = 6;
+const RECENT_ENTRIES = 10;
+// The hawl reminder shows up this many days ahead.
+const HAWL_NOTICE_DAYS = 30;
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-1 block text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const toggleClassName = (active: boolean) =>
+  `rounded-lg border px-3 py-2 text-sm transition ${
+    active
+      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+  }`;
+
+const parseAmount = (value: string) => Math.max(0, Number(value) || 0);
+
+const GivingLedgerPanel = ({
+  locale,
+  ledger,
+  today,
+  hijriSettings,
+  onChange,
+  onLog,
+}: GivingLedgerPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('log');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(
+    ledger.entries[ledger.entries.length - 1]?.currency ?? ledger.zakat.currency
+  );
+  const [category, setCategory] = useState<GivingCategory>('poor');
+  const [kind, setKind] = useState<GivingKind>('sadaqah');
+  const [date, setDate] = useState(formatDateKey(today));
+  const [note, setNote] = useState('');
+  const [zakatCurrency, setZakatCurrency] = useState(ledger.zakat.currency);
+
+  const categoryLabels: Record<GivingCategory, string> = {
+    poor: 'The poor and needy',
+    family: 'Family and relatives',
+    masjid: 'Masjid',
+    education: 'Education',
+    relief: 'Disaster relief',
+    other: 'Other',
+  };
+  const assetLabels: Record<keyof ZakatAssets, string> = {
+    cash: 'Cash and savings',
+    gold: 'Gold',
+    silver: 'Silver',
+    investments: 'Investments',
+    business: 'Business stock',
+    receivables: 'Money owed to you',
+  };
+
+  const todayKey = formatDateKey(today);
+  const zakat = computeZakat(ledger.zakat);
+  const hawl = useMemo(
+    () => getHawlStatus(ledger, today, hijriSettings),
+    [hijriSettings, ledger, today]
+  );
+  const monthlyTotals = useMemo(
+    () => getMonthlyGivingTotals(ledger.entries, today, MONTHS_SHOWN),
+    [ledger.entries, today]
+  );
+  const hijriYearTotals = useMemo(
+    () => getHijriYearGivingTotals(ledger.entries, hijriSettings),
+    [hijriSettings, ledger.entries]
+  );
+  const recentEntries = [...ledger.entries]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_ENTRIES);
+
+  const intlLocale = locale === 'ar' ? 'ar' : 'en';
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(intlLocale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [intlLocale]
+  );
+  const monthFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(intlLocale, { month: 'long', year: 'numeric' }),
+    [intlLocale]
+  );
+  const formatMoney = (value: number, code: string) =>
+    new Intl.NumberFormat(intlLocale, {
+      style: 'currency',
+      currency: code,
+    }).format(value);
+  const formatTotals = (totals: GivingTotals) => {
+    const entries = Object.entries(totals);
+    return entries.length === 0
+      ? '—'
+      : entries.map(([code, value]) => formatMoney(value, code)).join(' · ');
+  };
+
+  const currencyCode = currency.trim().toUpperCase();
+  const canLog =
+    parseAmount(amount) > 0 && /^[A-Z]{3}$/.test(currencyCode) && !!date;
+
+  const logEntry = () => {
+    if (!canLog) {
+      return;
+    }
+    const entry = createGivingEntry({
+      date,
+      amount: parseAmount(amount),
+      currency: currencyCode,
+      category,
+      kind,
+      note: note.trim(),
+    });
+    onChange({ ...ledger, entries: [...ledger.entries, entry] });
+    onLog(entry);
+    setAmount('');
+    setNote('');
+  };
+
+  const updateZakat = (changes: Partial<GivingLedger['zakat']>) =>
+    onChange({ ...ledger, zakat: { ...ledger.zakat, ...changes } });
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+          <HandCoins className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+          Sadaqah and Zakat
+        </h2>
+        <button
+          type="button"
+          onClick={() => setOpen((current) => !current)}
+          className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          aria-label="Toggle Sadaqah and Zakat"
+        >
+          {open ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+      </div>
+
+      <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+        <>Given this month: {formatTotals(monthlyTotals[0].totals)}</>
+      </p>
+
+      {hawl?.dueSince && (
+        <div className="mt-3 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-500/40 dark:bg-amber-950/40 dark:text-amber-100">
+          <BellRing className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span>
+            {zakat.aboveNisab
+              ? <>Zakat is due: your hawl came round on {dateFormatter.format(hawl.dueSince)}. Based on your figures you owe {formatMoney(zakat.due, ledger.zakat.currency)}.</>
+              : <>Your hawl came round on {dateFormatter.format(hawl.dueSince)}. Update your figures to see whether zakat is due.</>}
+          </span>
+        </div>
+      )}
+      {hawl && !hawl.dueSince && hawl.daysUntilNext <= HAWL_NOTICE_DAYS && (
+        <p className="mt-3 text-sm text-amber-700 dark:text-amber-300">
+          <>Your hawl comes round in {hawl.daysUntilNext} days, on {dateFormatter.format(hawl.nextAnniversary)}.</>
+        </p>
+      )}
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={() => setTab('log')}
+              aria-pressed={tab === 'log'}
+              className={toggleClassName(tab === 'log')}
+            >
+              Log
+            </button>
+            <button
+              type="button"
+              onClick={() => setTab('totals')}
+              aria-pressed={tab === 'totals'}
+              className={toggleClassName(tab === 'totals')}
+            >
+              Totals
+            </button>
+            <button
+              type="button"
+              onClick={() => setTab('zakat')}
+              aria-pressed={tab === 'zakat'}
+              className={toggleClassName(tab === 'zakat')}
+            >
+              Zakat
+            </button>
+          </div>
+
+          {tab === 'log' && (
+            <div className="space-y-4">
+              <div className="space-y-3 rounded-xl border border-emerald-100 p-3 dark:border-slate-700">
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setKind('sadaqah')}
+                    aria-pressed={kind === 'sadaqah'}
+                    className={toggleClassName(kind === 'sadaqah')}
+                  >
+                    Sadaqah
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setKind('zakat')}
+                    aria-pressed={kind === 'zakat'}
+                    className={toggleClassName(kind === 'zakat')}
+                  >
+                    Zakat
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="col-span-2 block">
+                    <span className={labelClassName}>Amount</span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="any"
+                      value={amount}
+                      onChange={(event) => setAmount(event.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className={labelClassName}>Currency</span>
+                    <input
+                      type="text"
+                      value={currency}
+                      maxLength={3}
+                      onChange={(event) =>
+                        setCurrency(event.target.value.toUpperCase())
+                      }
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="block">
+                    <span className={labelClassName}>Recipient</span>
+                    <select
+                      value={category}
+                      onChange={(event) =>
+                        setCategory(event.target.value as GivingCategory)
+                      }
+                      className={inputClassName}
+                    >
+                      {givingCategories.map((option) => (
+                        <option key={option} value={option}>
+                          {categoryLabels[option]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className={labelClassName}>Date</span>
+                    <input
+                      type="date"
+                      value={date}
+                      max={todayKey}
+                      onChange={(event) => setDate(event.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className={labelClassName}>Note</span>
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(event) => setNote(event.target.value)}
+                    className={inputClassName}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={logEntry}
+                  disabled={!canLog}
+                  className="w-full rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+                >
+                  Log giving
+                </button>
+              </div>
+
+              {recentEntries.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  Nothing logged yet.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {recentEntries.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-slate-100 p-3 text-sm dark:border-slate-800"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-700 dark:text-slate-200">
+                          {formatMoney(entry.amount, entry.currency)}{' '}
+                          <span className="text-xs font-normal text-slate-500 dark:text-slate-400">
+                            {entry.kind === 'zakat' ? 'Zakat' : 'Sadaqah'} · {categoryLabels[entry.category]}
+                          </span>
+                        </p>
+                        <p className="truncate text-xs text-slate-500 dark:text-slate-400">
+                          {dateFormatter.format(parseDateKey(entry.date))}
+                          {entry.note && ` · ${entry.note}`}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onChange({
+                            ...ledger,
+                            entries: ledger.entries.filter(
+                              (candidate) => candidate.id !== entry.id
+                            ),
+                          })
+                        }
+                        aria-label="Remove entry"
+                        className="text-slate-400 transition hover:text-rose-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {tab === 'totals' && (
+            <div className="space-y-4">
+              <div>
+                <p className={labelClassName}>By month</p>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {monthlyTotals.map(({ month, totals }) => (
+                      <tr
+                        key={month.toISOString()}
+                        className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                      >
+                        <td className="py-2">{monthFormatter.format(month)}</td>
+                        <td className="py-2 text-end">{formatTotals(totals)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <p className={labelClassName}>By Hijri year</p>
+                {hijriYearTotals.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Nothing logged yet.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {hijriYearTotals.map(({ year, totals }) => (
+                        <tr
+                          key={year}
+                          className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                        >
+                          <td className="py-2">
+                            <>{year} AH</>
+                          </td>
+                          <td className="py-2 text-end">{formatTotals(totals)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          )}
+
+          {tab === 'zakat' && (
+            <div className="space-y-4">
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Enter your zakatable wealth and the current nisab yourself. Zakat is 2.5% of what you hold above your debts once it reaches the nisab.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="col-span-2 block">
+                  <span className={labelClassName}>Nisab</span>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={ledger.zakat.nisab}
+                    onChange={(event) =>
+                      updateZakat({ nisab: parseAmount(event.target.value) })
+                    }
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="block">
+                  <span className={labelClassName}>Currency</span>
+                  <input
+                    type="text"
+                    value={zakatCurrency}
+                    maxLength={3}
+                    onChange={(event) => {
+                      const code = event.target.value.trim().toUpperCase();
+                      setZakatCurrency(code);
+                      if (/^[A-Z]{3}$/.test(code)) {
+                        updateZakat({ currency: code });
+                      }
+                    }}
+                    className={inputClassName}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {zakatAssetKeys.map((key) => (
+                  <label key={key} className="block">
+                    <span className={labelClassName}>{assetLabels[key]}</span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="any"
+                      value={ledger.zakat.assets[key]}
+                      onChange={(event) =>
+                        updateZakat({
+                          assets: {
+                            ...ledger.zakat.assets,
+                            [key]: parseAmount(event.target.value),
+                          },
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+                <label className="block">
+                  <span className={labelClassName}>Debts due now</span>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={ledger.zakat.liabilities}
+                    onChange={(event) =>
+                      updateZakat({
+                        liabilities: parseAmount(event.target.value),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="block">
+                  <span className={labelClassName}>Hawl started on</span>
+                  <input
+                    type="date"
+                    value={ledger.zakat.hawlStart ?? ''}
+                    max={todayKey}
+                    onChange={(event) =>
+                      updateZakat({ hawlStart: event.target.value || null })
+                    }
+                    className={inputClassName}
+                  />
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-center">
+                <div className="rounded-lg bg-emerald-50 p-3 dark:bg-slate-800">
+                  <p className="text-lg font-semibold text-emerald-800 dark:text-emerald-200">
+                    {formatMoney(zakat.netWealth, ledger.zakat.currency)}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Net wealth
+                  </p>
+                </div>
+                <div className="rounded-lg bg-emerald-50 p-3 dark:bg-slate-800">
+                  <p className="text-lg font-semibold text-emerald-800 dark:text-emerald-200">
+                    {formatMoney(zakat.due, ledger.zakat.currency)}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Zakat owed
+                  </p>
+                </div>
+              </div>
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                {ledger.zakat.nisab === 0
+                  ? 'Enter the nisab to work out whether zakat is owed.'
+                  : zakat.aboveNisab
+                    ? 'Your wealth is above the nisab.'
+                    : 'Your wealth is below the nisab, so no zakat is owed.'}
+              </p>
+              {hawl && (
+                <p className="text-sm text-slate-600 dark:text-slate-300">
+                  <>Next hawl anniversary: {dateFormatter.format(hawl.nextAnniversary)}</>
+                </p>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Log your zakat payment on the Log tab to clear the reminder.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GivingLedgerPanel;
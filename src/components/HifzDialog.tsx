@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { formatDateKey, parseDateKey } from '../lib/habits';
+import {
+  createHifzPortion,
+  getDaysUntilDue,
+  getHifzStrength,
+  type HifzPortion,
+} from '../lib/hifz';
+import { getSurah, surahs } from '../lib/quranData';
+
+type HifzDialogProps = {
+  locale: 'en' | 'ar';
+  portions: HifzPortion[];
+  today: Date;
+  onChange: (portions: HifzPortion[]) => void;
+  // Called when a portion memorised today is added.
+  onMemorized: () => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const HifzDialog = ({
+  locale,
+  portions,
+  today,
+  onChange,
+  onMemorized,
+  onClose,
+}: HifzDialogProps) => {
+  const [surahNumber, setSurahNumber] = useState(1);
+  const [wholeSurah, setWholeSurah] = useState(true);
+  const [fromAyah, setFromAyah] = useState('1');
+  const [toAyah, setToAyah] = useState('1');
+  const [memorizedOn, setMemorizedOn] = useState(formatDateKey(today));
+
+  const surah = getSurah(surahNumber) ?? surahs[0];
+  const todayKey = formatDateKey(today);
+
+  const addPortion = () => {
+    const clamp = (value: string) =>
+      Math.min(surah.ayahs, Math.max(1, Math.floor(Number(value) || 1)));
+    const portion = createHifzPortion(
+      surah.number,
+      wholeSurah ? 1 : clamp(fromAyah),
+      wholeSurah ? surah.ayahs : clamp(toAyah),
+      parseDateKey(memorizedOn || todayKey)
+    );
+    onChange([...portions, portion]);
+    if (portion.memorizedOn === todayKey) {
+      onMemorized();
+    }
+  };
+
+  const sortedPortions = [...portions].sort(
+    (a, b) => a.surah - b.surah || a.fromAyah - b.fromAyah
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Hifz"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Hifz
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Each portion comes back for revision less often the better you recall it.
+        </p>
+
+        <div className="mb-6 space-y-3 rounded-xl border border-emerald-100 p-3 dark:border-slate-700">
+          <div>
+            <p className={labelClassName}>Surah</p>
+            <select
+              value={surah.number}
+              onChange={(event) => {
+                setSurahNumber(Number(event.target.value));
+                setFromAyah('1');
+                setToAyah('1');
+              }}
+              aria-label="Surah"
+              className={inputClassName}
+            >
+              {surahs.map((option) => (
+                <option key={option.number} value={option.number}>
+                  {option.number}. {locale === 'ar' ? option.arabicName : option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-200">
+            <input
+              type="checkbox"
+              checked={wholeSurah}
+              onChange={(event) => setWholeSurah(event.target.checked)}
+              className="h-4 w-4 accent-emerald-600"
+            />
+            The whole surah
+          </label>
+          {!wholeSurah && (
+            <div className="grid grid-cols-2 gap-2">
+              <label>
+                <p className={labelClassName}>From ayah</p>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={surah.ayahs}
+                  value={fromAyah}
+                  onChange={(event) => setFromAyah(event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <label>
+                <p className={labelClassName}>To ayah</p>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={surah.ayahs}
+                  value={toAyah}
+                  onChange={(event) => setToAyah(event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+          )}
+          <label className="block">
+            <p className={labelClassName}>Memorised on</p>
+            <input
+              type="date"
+              value={memorizedOn}
+              max={todayKey}
+              onChange={(event) => setMemorizedOn(event.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={addPortion}
+            className="w-full rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          >
+            Add portion
+          </button>
+        </div>
+
+        {sortedPortions.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            No portions yet.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {sortedPortions.map((portion) => {
+              const portionSurah = getSurah(portion.surah);
+              const strength = getHifzStrength(portion);
+              const daysUntilDue = getDaysUntilDue(portion, today);
+              return (
+                <li
+                  key={portion.id}
+                  className="rounded-lg border border-slate-100 p-3 dark:border-slate-800"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-700 dark:text-slate-200">
+                      {portionSurah &&
+                        (locale === 'ar'
+                          ? portionSurah.arabicName
+                          : portionSurah.name)}{' '}
+                      {portion.fromAyah}-{portion.toAyah}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange(
+                          portions.filter(
+                            (candidate) => candidate.id !== portion.id
+                          )
+                        )
+                      }
+                      aria-label="Remove portion"
+                      className="text-slate-400 transition hover:text-rose-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="mt-2 h-1.5 w-full rounded-full bg-gray-200 dark:bg-slate-800">
+                    <div
+                      className="h-1.5 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500"
+                      style={{ width: `${Math.max(strength, 2)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    {daysUntilDue <= 0
+                      ? 'Due for revision'
+                      : <>Next revision in {daysUntilDue} days</>}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HifzDialog;
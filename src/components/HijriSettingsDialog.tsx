@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import {
+  formatHijriDate,
+  getHijriMonthRange,
+  getHijriParts,
+  hijriOffsets,
+  hijriVariants,
+  type HijriSettings,
+  type HijriVariant,
+} from '../lib/hijri';
+import { formatDateKey, parseDateKey } from '../lib/habits';
+
+type HijriSettingsDialogProps = {
+  locale: 'en' | 'ar';
+  settings: HijriSettings;
+  today: Date;
+  onChange: (settings: HijriSettings) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const HijriSettingsDialog = ({
+  locale,
+  settings,
+  today,
+  onChange,
+  onClose,
+}: HijriSettingsDialogProps) => {
+  // Worked out from the settings being edited, so these always show the
+  // date as it will appear everywhere else.
+  const todayHijri = getHijriParts(today, settings);
+  const todayLabel = formatHijriDate(
+    today,
+    locale,
+    { day: 'numeric', month: 'long', year: 'numeric' },
+    settings
+  );
+
+  const [overrideYear, setOverrideYear] = useState(todayHijri.year);
+  const [overrideMonth, setOverrideMonth] = useState(todayHijri.month);
+  const [overrideStart, setOverrideStart] = useState(() =>
+    formatDateKey(
+      getHijriMonthRange(todayHijri.year, todayHijri.month, settings).start
+    )
+  );
+
+  const variantLabels: Record<HijriVariant, string> = {
+    umalqura: 'Umm al-Qura',
+    civil: 'Civil (arithmetic)',
+    tbla: 'Tabular (astronomical epoch)',
+  };
+
+  const monthLabels = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, index) =>
+        formatHijriDate(
+          getHijriMonthRange(todayHijri.year, index + 1, settings).start,
+          locale,
+          { month: 'long' },
+          settings
+        )
+      ),
+    [locale, settings, todayHijri.year]
+  );
+
+  const sortedOverrides = [...settings.overrides].sort(
+    (a, b) => b.year * 12 + b.month - (a.year * 12 + a.month)
+  );
+
+  const formatStart = (dateKey: string) =>
+    new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    }).format(parseDateKey(dateKey));
+
+  const addOverride = () => {
+    if (
+      !overrideStart ||
+      !Number.isInteger(overrideYear) ||
+      overrideYear < 1
+    ) {
+      return;
+    }
+    onChange({
+      ...settings,
+      overrides: [
+        ...settings.overrides.filter(
+          (override) =>
+            override.year !== overrideYear || override.month !== overrideMonth
+        ),
+        { year: overrideYear, month: overrideMonth, start: overrideStart },
+      ],
+    });
+  };
+
+  const removeOverride = (year: number, month: number) => {
+    onChange({
+      ...settings,
+      overrides: settings.overrides.filter(
+        (override) => override.year !== year || override.month !== month
+      ),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Hijri date"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Hijri date
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          Today is <span className="font-semibold">{todayLabel}</span>.
+        </p>
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Adjust it if your local moon sighting differs.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <p className={labelClassName}>Calendar</p>
+            <select
+              value={settings.variant}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  variant: event.target.value as HijriVariant,
+                })
+              }
+              aria-label="Calendar"
+              className={inputClassName}
+            >
+              {hijriVariants.map((variant) => (
+                <option key={variant} value={variant}>
+                  {variantLabels[variant]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className={labelClassName}>Adjustment</p>
+            <div className="grid grid-cols-5 gap-2">
+              {hijriOffsets.map((offset) => (
+                <button
+                  key={offset}
+                  type="button"
+                  onClick={() => onChange({ ...settings, offset })}
+                  aria-pressed={settings.offset === offset}
+                  className={`rounded-lg border px-2 py-2 text-sm transition ${
+                    settings.offset === offset
+                      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                  }`}
+                >
+                  <span dir="ltr">{offset > 0 ? `+${offset}` : offset}</span>
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Days added to the calculated Hijri date.
+            </p>
+          </div>
+
+          <div>
+            <p className={labelClassName}>Announced month starts</p>
+            <p className="mb-2 text-xs text-slate-500 dark:text-slate-400">
+              The first day of a month as announced where you live.
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={overrideMonth}
+                onChange={(event) =>
+                  setOverrideMonth(Number(event.target.value))
+                }
+                aria-label="Hijri month"
+                className={inputClassName}
+              >
+                {monthLabels.map((label, index) => (
+                  <option key={label} value={index + 1}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={overrideYear}
+                onChange={(event) =>
+                  setOverrideYear(Number(event.target.value))
+                }
+                aria-label="Hijri year"
+                className={inputClassName}
+              />
+              <input
+                type="date"
+                value={overrideStart}
+                onChange={(event) => setOverrideStart(event.target.value)}
+                aria-label="First day"
+                className={inputClassName}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={addOverride}
+              disabled={!overrideStart}
+              className="mt-2 w-full rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Save month start
+            </button>
+
+            {sortedOverrides.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {sortedOverrides.map((override) => (
+                  <li
+                    key={`${override.year}-${override.month}`}
+                    className="flex items-center justify-between gap-2 rounded-lg border border-slate-200 px-3 py-2 text-sm dark:border-slate-700"
+                  >
+                    <span className="text-slate-700 dark:text-slate-200">
+                      <>
+                        {monthLabels[override.month - 1]} {override.year}:{' '}
+                        {formatStart(override.start)}
+                      </>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        removeOverride(override.year, override.month)
+                      }
+                      aria-label="Remove month start"
+                      className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-slate-400 transition hover:text-rose-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HijriSettingsDialog;
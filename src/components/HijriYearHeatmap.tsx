@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+
+type HijriYearHeatmapProps = {
+  // First Gregorian day of each Hijri month, in order.
+  monthStarts: Date[];
+  // Last Gregorian day of the Hijri year.
+  yearEnd: Date;
+  monthLabels: string[];
+  today: Date;
+  getProgressForDate: (
+    date: Date
+  ) => { required: number; optional: number } | null;
+  onSelectMonth: (monthIndex: number) => void;
+};
+
+type Metric = 'required' | 'optional';
+
+const getCellClassName = (progress: number | null, isFuture: boolean) => {
+  if (isFuture) {
+    return 'bg-transparent';
+  }
+  if (progress === null) {
+    return 'bg-slate-100 dark:bg-slate-800';
+  }
+  if (progress === 0) {
+    return 'bg-slate-200 dark:bg-slate-700';
+  }
+  if (progress < 50) {
+    return 'bg-emerald-200 dark:bg-emerald-900';
+  }
+  if (progress < 100) {
+    return 'bg-emerald-400 dark:bg-emerald-700';
+  }
+  return 'bg-emerald-600 dark:bg-emerald-400';
+};
+
+// Twelve small month grids, one square per day, shaded by how much of the
+// chosen habit group was done.
+const HijriYearHeatmap = ({
+  monthStarts,
+  yearEnd,
+  monthLabels,
+  today,
+  getProgressForDate,
+  onSelectMonth,
+}: HijriYearHeatmapProps) => {
+  const [metric, setMetric] = useState<Metric>('required');
+
+  const months = useMemo(
+    () =>
+      monthStarts.map((start, index) => {
+        if (!start) {
+          return null;
+        }
+        const end = monthStarts[index + 1]
+          ? new Date(
+              monthStarts[index + 1].getFullYear(),
+              monthStarts[index + 1].getMonth(),
+              monthStarts[index + 1].getDate() - 1
+            )
+          : yearEnd;
+        const days = [] as {
+          date: Date;
+          progress: { required: number; optional: number } | null;
+          isFuture: boolean;
+        }[];
+        for (
+          let cursor = new Date(start);
+          cursor <= end;
+          cursor.setDate(cursor.getDate() + 1)
+        ) {
+          days.push({
+            date: new Date(cursor),
+            progress: getProgressForDate(cursor),
+            isFuture: cursor > today,
+          });
+        }
+        return { startWeekday: start.getDay(), days };
+      }),
+    [getProgressForDate, monthStarts, today, yearEnd]
+  );
+
+  return (
+    <div>
+      <div className="mb-4 flex justify-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => setMetric('required')}
+          aria-pressed={metric === 'required'}
+          className={`rounded-full border px-3 py-1 font-semibold transition ${
+            metric === 'required'
+              ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+              : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300'
+          }`}
+        >
+          Main habits
+        </button>
+        <button
+          type="button"
+          onClick={() => setMetric('optional')}
+          aria-pressed={metric === 'optional'}
+          className={`rounded-full border px-3 py-1 font-semibold transition ${
+            metric === 'optional'
+              ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+              : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300'
+          }`}
+        >
+          Taqarrub habits
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        {months.map((month, index) =>
+          month ? (
+            <button
+              key={monthLabels[index] || index}
+              type="button"
+              onClick={() => onSelectMonth(index)}
+              className="rounded-lg border border-slate-200 p-2 text-start transition hover:-translate-y-0.5 hover:border-emerald-300 dark:border-slate-700 dark:hover:border-emerald-500/60"
+            >
+              <p className="mb-1 text-xs font-semibold text-emerald-900 dark:text-emerald-100">
+                {monthLabels[index]}
+              </p>
+              <div className="grid grid-cols-7 gap-0.5">
+                {Array.from({ length: month.startWeekday }).map((_, spacer) => (
+                  <span key={`spacer-${spacer}`} className="aspect-square" />
+                ))}
+                {month.days.map((day) => (
+                  <span
+                    key={day.date.toISOString()}
+                    className={`aspect-square rounded-sm ${getCellClassName(
+                      day.progress?.[metric] ?? null,
+                      day.isFuture
+                    )}`}
+                  />
+                ))}
+              </div>
+            </button>
+          ) : (
+            <div key={index} />
+          )
+        )}
+      </div>
+      <div className="mt-4 flex items-center justify-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+        <span>Less</span>
+        {[0, 25, 75, 100].map((level) => (
+          <span
+            key={level}
+            className={`h-3 w-3 rounded-sm ${getCellClassName(level, false)}`}
+          />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+};
+
+export default HijriYearHeatmap;
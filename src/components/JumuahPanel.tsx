@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { CalendarHeart, Check } from 'lucide-react';
+import { defaultHabits, formatDateKey, type DayRecord } from '../lib/habits';
+import {
+  computeFridayStats,
+  fridayRangeOptions,
+  getRecentFridays,
+  type JumuahAct,
+} from '../lib/jumuah';
+
+type JumuahPanelProps = {
+  // The acts the profile tracks.
+  acts: JumuahAct[];
+  // YYYY-MM-DD; Fridays before it are left out of the statistics.
+  since?: string;
+  records: Map<string, DayRecord>;
+  today: Date;
+  onUpdate: (date: Date, changes: Partial<DayRecord>) => void;
+};
+
+// Shown on Fridays: today's Jumu'ah acts, and how often each was done over
+// the last few Fridays.
+const JumuahPanel = ({
+  acts,
+  since,
+  records,
+  today,
+  onUpdate,
+}: JumuahPanelProps) => {
+  const [range, setRange] = useState(fridayRangeOptions[0]);
+
+  const fridays = useMemo(
+    () => getRecentFridays(today, range, since),
+    [range, since, today]
+  );
+  const stats = useMemo(
+    () => computeFridayStats(records, fridays),
+    [fridays, records]
+  );
+  const record = records.get(formatDateKey(today)) ?? defaultHabits;
+
+  const actLabels: Record<JumuahAct, string> = {
+    jumuahGhusl: 'Ghusl',
+    jumuahEarly: 'Went early to the masjid',
+    jumuahKahf: 'Read Surah Al-Kahf',
+    jumuahSalawat: 'Extra salawat on the Prophet ﷺ',
+    jumuahDua: "Du'aa in the last hour before Maghrib",
+  };
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <h2 className="mb-4 flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+        <CalendarHeart className="h-6 w-6 text-amber-500 dark:text-amber-300" />
+        Jumu&apos;ah
+      </h2>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {acts.map((act) => (
+          <button
+            key={act}
+            type="button"
+            onClick={() => onUpdate(today, { [act]: !record[act] })}
+            aria-pressed={record[act]}
+            className={`flex items-center gap-2 rounded-lg border-2 px-3 py-2 text-start text-sm transition ${
+              record[act]
+                ? 'border-emerald-500 bg-emerald-50 text-emerald-900 dark:border-emerald-400/70 dark:bg-emerald-950/40 dark:text-emerald-100'
+                : 'border-gray-200 text-gray-700 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-200 dark:hover:border-emerald-500/60'
+            }`}
+          >
+            {record[act] ? (
+              <Check className="h-4 w-4 flex-shrink-0 text-emerald-600 dark:text-emerald-300" />
+            ) : (
+              <span className="h-4 w-4 flex-shrink-0 rounded-full border-2 border-gray-300 dark:border-slate-600" />
+            )}
+            {actLabels[act]}
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-2 mt-6 flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+          Past Fridays
+        </p>
+        <div className="flex gap-1">
+          {fridayRangeOptions.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRange(option)}
+              aria-pressed={range === option}
+              className={`rounded-md px-2 py-1 text-xs transition ${
+                range === option
+                  ? 'bg-emerald-600 text-white dark:bg-emerald-500'
+                  : 'text-slate-500 hover:bg-emerald-50 dark:text-slate-400 dark:hover:bg-slate-800'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {acts.map((act) => (
+          <li key={act}>
+            <div className="mb-1 flex justify-between gap-3 text-sm text-gray-700 dark:text-slate-200">
+              <span>{actLabels[act]}</span>
+              <span className="flex-shrink-0 text-slate-500 dark:text-slate-400">
+                {stats.done[act]}/{stats.fridays}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-emerald-100 dark:bg-slate-800">
+              <div
+                className="h-full rounded-full bg-emerald-500 dark:bg-emerald-400"
+                style={{
+                  width: `${
+                    stats.fridays ? (stats.done[act] / stats.fridays) * 100 : 0
+                  }%`,
+                }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+      {acts.includes('jumuahKahf') && (
+        <p className="mt-3 text-center text-xs text-slate-500 dark:text-slate-400">
+          Al-Kahf read on {stats.done.jumuahKahf} of the last {stats.fridays} Fridays, {stats.kahfStreak} in a row.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JumuahPanel;
@@ -0,0 +1,56 @@
+import { Check, Moon } from 'lucide-react';
+import type { MakeUpFastBalance } from '../lib/ramadan';
+
+type MakeUpFastsPanelProps = {
+  balance: MakeUpFastBalance;
+  // Whether today's record already has a make-up fast.
+  fastedToday: boolean;
+  // Eid and Tashreeq days, when fasting is not allowed.
+  fastingForbidden: boolean;
+  onToggle: () => void;
+};
+
+// Ramadan fasts still owed, shown from Shawwal until they are all made up.
+const MakeUpFastsPanel = ({
+  balance,
+  fastedToday,
+  fastingForbidden,
+  onToggle,
+}: MakeUpFastsPanelProps) => (
+  <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+    <h2 className="mb-2 flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+      <Moon className="h-6 w-6 text-amber-500 dark:text-amber-300" />
+      Make-up fasts
+    </h2>
+    <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+      {balance.remaining} of {balance.owed} Ramadan fasts left to make up.
+    </p>
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={fastingForbidden && !fastedToday}
+      aria-pressed={fastedToday}
+      className={`flex w-full items-center gap-3 rounded-lg border-2 p-4 text-start transition disabled:cursor-not-allowed disabled:opacity-50 ${
+        fastedToday
+          ? 'border-emerald-500 bg-emerald-50 text-emerald-900 dark:border-emerald-400/70 dark:bg-emerald-950/40 dark:text-emerald-100'
+          : 'border-gray-200 bg-white text-gray-700 hover:border-emerald-300 dark:border-slate-800 dark:bg-slate-900/60 dark:text-slate-200 dark:hover:border-emerald-500/60'
+      }`}
+    >
+      {fastedToday ? (
+        <span className="flex h-6 w-6 items-center justify-center rounded-full bg-emerald-600 dark:bg-emerald-500">
+          <Check className="h-4 w-4 text-white" />
+        </span>
+      ) : (
+        <span className="h-6 w-6 rounded-full border-2 border-gray-300 dark:border-slate-600" />
+      )}
+      I am making up a fast today
+    </button>
+    {fastingForbidden && (
+      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+        Fasting is not allowed on the days of Eid.
+      </p>
+    )}
+  </div>
+);
+
+export default MakeUpFastsPanel;
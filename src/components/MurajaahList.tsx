@@ -0,0 +1,106 @@
+import { ListChecks } from 'lucide-react';
+import {
+  getDueHifzPortions,
+  getHifzStrength,
+  recallGrades,
+  type HifzPortion,
+  type RecallGrade,
+} from '../lib/hifz';
+import { getSurah } from '../lib/quranData';
+
+type MurajaahListProps = {
+  locale: 'en' | 'ar';
+  portions: HifzPortion[];
+  today: Date;
+  onReview: (id: string, grade: RecallGrade) => void;
+  onManage: () => void;
+};
+
+const gradeClassNames: Record<RecallGrade, string> = {
+  again:
+    'border-rose-200 text-rose-700 hover:bg-rose-50 dark:border-rose-500/40 dark:text-rose-300 dark:hover:bg-rose-950/40',
+  hard: 'border-amber-200 text-amber-700 hover:bg-amber-50 dark:border-amber-500/40 dark:text-amber-300 dark:hover:bg-amber-950/40',
+  good: 'border-emerald-200 text-emerald-700 hover:bg-emerald-50 dark:border-emerald-500/40 dark:text-emerald-300 dark:hover:bg-emerald-950/40',
+  easy: 'border-sky-200 text-sky-700 hover:bg-sky-50 dark:border-sky-500/40 dark:text-sky-300 dark:hover:bg-sky-950/40',
+};
+
+// Portions due for revision today, each graded on how well it was recalled.
+const MurajaahList = ({
+  locale,
+  portions,
+  today,
+  onReview,
+  onManage,
+}: MurajaahListProps) => {
+  const due = getDueHifzPortions(portions, today);
+
+  const gradeLabels: Record<RecallGrade, string> = {
+    again: 'Forgot',
+    hard: 'Hard',
+    good: 'Good',
+    easy: 'Easy',
+  };
+
+  return (
+    <div className="w-full max-w-[520px] rounded-lg border-2 border-gray-200 bg-white p-3 dark:border-slate-800 dark:bg-slate-900/60">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-slate-200">
+          <ListChecks className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+          Today's muraja'ah
+        </p>
+        <button
+          type="button"
+          onClick={onManage}
+          className="text-xs font-medium text-emerald-700 hover:underline dark:text-emerald-300"
+        >
+          Manage hifz
+        </button>
+      </div>
+      {portions.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Add what you have memorised to get a revision plan.
+        </p>
+      ) : due.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Nothing to revise today.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {due.map((portion) => {
+            const surah = getSurah(portion.surah);
+            return (
+              <li
+                key={portion.id}
+                className="rounded-md border border-slate-100 p-2 dark:border-slate-800"
+              >
+                <div className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-slate-200">
+                  <span>
+                    {surah && (locale === 'ar' ? surah.arabicName : surah.name)}{' '}
+                    {portion.fromAyah}-{portion.toAyah}
+                  </span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {getHifzStrength(portion)}%
+                  </span>
+                </div>
+                <div className="mt-2 grid grid-cols-4 gap-1">
+                  {recallGrades.map((grade) => (
+                    <button
+                      key={grade}
+                      type="button"
+                      onClick={() => onReview(portion.id, grade)}
+                      className={`rounded-md border px-2 py-1 text-xs transition ${gradeClassNames[grade]}`}
+                    >
+                      {gradeLabels[grade]}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MurajaahList;
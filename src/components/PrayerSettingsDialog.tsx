@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { cities, getCity } from '../lib/cities';
+import {
+  asrMadhhabs,
+  calculationMethods,
+  highLatitudeRules,
+  isValidLocation,
+  type AsrMadhhab,
+  type CalculationMethod,
+  type HighLatitudeRule,
+  type PrayerSettings,
+} from '../lib/prayerTimes';
+
+type PrayerSettingsDialogProps = {
+  settings: PrayerSettings;
+  onChange: (settings: PrayerSettings) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const PrayerSettingsDialog = ({
+  settings,
+  onChange,
+  onClose,
+}: PrayerSettingsDialogProps) => {
+  const [latitude, setLatitude] = useState(
+    settings.location ? `${settings.location.latitude}` : ''
+  );
+  const [longitude, setLongitude] = useState(
+    settings.location ? `${settings.location.longitude}` : ''
+  );
+
+  const methodLabels: Record<CalculationMethod, string> = {
+    mwl: 'Muslim World League',
+    isna: 'Islamic Society of North America',
+    egyptian: 'Egyptian General Authority of Survey',
+    ummAlQura: 'Umm al-Qura, Makkah',
+    karachi: 'University of Islamic Sciences, Karachi',
+  };
+  const asrLabels: Record<AsrMadhhab, string> = {
+    standard: "Standard (Shafi'i, Maliki, Hanbali)",
+    hanafi: 'Hanafi',
+  };
+  const highLatitudeLabels: Record<HighLatitudeRule, string> = {
+    none: 'No adjustment',
+    middleOfNight: 'Middle of the night',
+    seventhOfNight: 'One-seventh of the night',
+    angleBased: 'Angle-based',
+  };
+
+  const coordinatesValid =
+    latitude.trim() !== '' &&
+    longitude.trim() !== '' &&
+    isValidLocation(Number(latitude), Number(longitude));
+
+  const selectCity = (cityId: string) => {
+    const city = getCity(cityId);
+    if (!city) {
+      onChange({
+        ...settings,
+        location: settings.location && { ...settings.location, cityId: null },
+      });
+      return;
+    }
+    setLatitude(`${city.latitude}`);
+    setLongitude(`${city.longitude}`);
+    onChange({
+      ...settings,
+      method: city.method,
+      location: {
+        latitude: city.latitude,
+        longitude: city.longitude,
+        cityId: city.id,
+      },
+    });
+  };
+
+  const updateCoordinates = (nextLatitude: string, nextLongitude: string) => {
+    setLatitude(nextLatitude);
+    setLongitude(nextLongitude);
+    const lat = Number(nextLatitude);
+    const lng = Number(nextLongitude);
+    if (
+      nextLatitude.trim() === '' ||
+      nextLongitude.trim() === '' ||
+      !isValidLocation(lat, lng)
+    ) {
+      return;
+    }
+    onChange({
+      ...settings,
+      location: { latitude: lat, longitude: lng, cityId: null },
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Prayer times"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Prayer times
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Times are calculated on this device from your location.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <p className={labelClassName}>City</p>
+            <select
+              value={settings.location?.cityId ?? ''}
+              onChange={(event) => selectCity(event.target.value)}
+              aria-label="City"
+              className={inputClassName}
+            >
+              <option value="">Custom coordinates</option>
+              {cities.map((city) => (
+                <option key={city.id} value={city.id}>
+                  {city.name}, {city.country}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className={labelClassName}>Latitude</p>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                min={-90}
+                max={90}
+                value={latitude}
+                aria-label="Latitude"
+                onChange={(event) =>
+                  updateCoordinates(event.target.value, longitude)
+                }
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <p className={labelClassName}>Longitude</p>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                min={-180}
+                max={180}
+                value={longitude}
+                aria-label="Longitude"
+                onChange={(event) =>
+                  updateCoordinates(latitude, event.target.value)
+                }
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          {!coordinatesValid && (latitude !== '' || longitude !== '') && (
+            <p className="text-xs text-rose-600 dark:text-rose-300">
+              Enter a latitude from -90 to 90 and a longitude from -180 to 180.
+            </p>
+          )}
+
+          <div>
+            <p className={labelClassName}>Calculation method</p>
+            <select
+              value={settings.method}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  method: event.target.value as CalculationMethod,
+                })
+              }
+              aria-label="Calculation method"
+              className={inputClassName}
+            >
+              {calculationMethods.map((method) => (
+                <option key={method} value={method}>
+                  {methodLabels[method]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className={labelClassName}>Asr</p>
+            <div className="grid grid-cols-2 gap-2">
+              {asrMadhhabs.map((madhhab) => (
+                <button
+                  key={madhhab}
+                  type="button"
+                  onClick={() => onChange({ ...settings, asrMadhhab: madhhab })}
+                  aria-pressed={settings.asrMadhhab === madhhab}
+                  className={`rounded-lg border px-3 py-2 text-sm transition ${
+                    settings.asrMadhhab === madhhab
+                      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                  }`}
+                >
+                  {asrLabels[madhhab]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClassName}>High latitudes</p>
+            <select
+              value={settings.highLatitudeRule}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  highLatitudeRule: event.target.value as HighLatitudeRule,
+                })
+              }
+              aria-label="High latitudes"
+              className={inputClassName}
+            >
+              {highLatitudeRules.map((rule) => (
+                <option key={rule} value={rule}>
+                  {highLatitudeLabels[rule]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Places Fajr and Isha where twilight lasts all night.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrayerSettingsDialog;
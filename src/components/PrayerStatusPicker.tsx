@@ -0,0 +1,56 @@
+import { prayerStatuses, type PrayerStatus } from '../lib/prayerStatus';
+
+type PrayerStatusPickerProps = {
+  value: PrayerStatus | null;
+  onChange: (status: PrayerStatus | null) => void;
+};
+
+const statusClassNames: Record<PrayerStatus, string> = {
+  jamaah:
+    'border-emerald-600 bg-emerald-600 text-white dark:border-emerald-500 dark:bg-emerald-500',
+  onTime:
+    'border-emerald-500 bg-emerald-50 text-emerald-900 dark:border-emerald-400/70 dark:bg-emerald-950/40 dark:text-emerald-100',
+  late: 'border-amber-400 bg-amber-50 text-amber-900 dark:border-amber-400/70 dark:bg-amber-950/40 dark:text-amber-100',
+  qada: 'border-sky-400 bg-sky-50 text-sky-900 dark:border-sky-400/70 dark:bg-sky-950/40 dark:text-sky-100',
+  missed:
+    'border-rose-400 bg-rose-50 text-rose-900 dark:border-rose-400/70 dark:bg-rose-950/40 dark:text-rose-100',
+};
+
+// Row of status chips for one fard prayer. Picking the active chip again
+// clears the prayer back to unrecorded.
+const PrayerStatusPicker = ({ value, onChange }: PrayerStatusPickerProps) => {
+  const statusLabels: Record<PrayerStatus, string> = {
+    jamaah: "In jama'ah",
+    onTime: 'On time',
+    late: 'Late',
+    qada: 'Made up',
+    missed: 'Missed',
+  };
+
+  return (
+    <div
+      className="mt-2 flex flex-wrap gap-1"
+      role="group"
+      aria-label="Prayer status"
+      onClick={(event) => event.stopPropagation()}
+    >
+      {prayerStatuses.map((status) => (
+        <button
+          key={status}
+          type="button"
+          onClick={() => onChange(value === status ? null : status)}
+          aria-pressed={value === status}
+          className={`rounded-full border px-2 py-0.5 text-xs transition ${
+            value === status
+              ? statusClassNames[status]
+              : 'border-gray-200 text-gray-500 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-400 dark:hover:border-emerald-500/70'
+          }`}
+        >
+          {statusLabels[status]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PrayerStatusPicker;
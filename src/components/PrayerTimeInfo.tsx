@@ -0,0 +1,52 @@
+import type { PrayerWindow } from '../lib/prayerTimes';
+
+type PrayerTimeInfoProps = {
+  locale: 'en' | 'ar';
+  prayerWindow: PrayerWindow;
+  now: Date;
+};
+
+const splitMinutes = (milliseconds: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(milliseconds / 60_000));
+  return { hours: Math.floor(totalMinutes / 60), minutes: totalMinutes % 60 };
+};
+
+// Start time of a prayer plus how long is left of it, or until it begins.
+const PrayerTimeInfo = ({
+  locale,
+  prayerWindow,
+  now,
+}: PrayerTimeInfoProps) => {
+  const startLabel = new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(prayerWindow.start);
+  const isCurrent = prayerWindow.start <= now && now < prayerWindow.end;
+  const isUpcoming = now < prayerWindow.start;
+  const target = isCurrent ? prayerWindow.end : prayerWindow.start;
+  const { hours, minutes } = splitMinutes(target.getTime() - now.getTime());
+
+  return (
+    <span className="block text-xs text-slate-500 dark:text-slate-400">
+      {startLabel}
+      {isCurrent && (
+        <span className="font-semibold text-amber-700 dark:text-amber-300">
+          {' · '}
+          {hours > 0 ? (
+            <>{hours}h {minutes}m left</>
+          ) : (
+            <>{minutes}m left</>
+          )}
+        </span>
+      )}
+      {isUpcoming && (
+        <>
+          {' · '}
+          {hours > 0 ? <>in {hours}h {minutes}m</> : <>in {minutes}m</>}
+        </>
+      )}
+    </span>
+  );
+};
+
+export default PrayerTimeInfo;
@@ -0,0 +1,19 @@
+import { profileColorClassNames, type Profile } from '../lib/profiles';
+
+type ProfileAvatarProps = {
+  profile: Profile;
+  size?: 'sm' | 'md';
+};
+
+const ProfileAvatar = ({ profile, size = 'md' }: ProfileAvatarProps) => (
+  <span
+    aria-hidden="true"
+    className={`flex flex-shrink-0 items-center justify-center rounded-full font-semibold text-white ${
+      profileColorClassNames[profile.color]
+    } ${size === 'sm' ? 'h-7 w-7 text-xs' : 'h-10 w-10 text-sm'}`}
+  >
+    {profile.name.trim().charAt(0).toUpperCase()}
+  </span>
+);
+
+export default ProfileAvatar;
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Check, Users } from 'lucide-react';
+import type { Profile } from '../lib/profiles';
+import ProfileAvatar from './ProfileAvatar';
+
+type ProfileSwitcherProps = {
+  profiles: Profile[];
+  activeProfile: Profile;
+  onSwitch: (profileId: string) => void;
+  onManage: () => void;
+};
+
+const ProfileSwitcher = ({
+  profiles,
+  activeProfile,
+  onSwitch,
+  onManage,
+}: ProfileSwitcherProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label="Switch profile"
+        aria-expanded={open}
+        title={activeProfile.name}
+        className="rounded-full shadow-sm transition hover:-translate-y-0.5"
+      >
+        <ProfileAvatar profile={activeProfile} />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-50 mt-3 w-56 rounded-xl border border-emerald-100 bg-white/95 p-3 shadow-xl backdrop-blur dark:border-slate-700 dark:bg-slate-900/95">
+          <p className="mb-2 text-sm font-semibold text-emerald-900 dark:text-emerald-100">
+            Profiles
+          </p>
+          <ul className="mb-3 space-y-1">
+            {profiles.map((profile) => (
+              <li key={profile.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setOpen(false);
+                    if (profile.id !== activeProfile.id) {
+                      onSwitch(profile.id);
+                    }
+                  }}
+                  aria-pressed={profile.id === activeProfile.id}
+                  className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left text-sm text-slate-700 transition hover:bg-emerald-50 dark:text-slate-200 dark:hover:bg-slate-800"
+                >
+                  <ProfileAvatar profile={profile} size="sm" />
+                  <span className="min-w-0 flex-1 truncate">{profile.name}</span>
+                  {profile.id === activeProfile.id && (
+                    <Check className="h-4 w-4 text-emerald-600 dark:text-emerald-300" />
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => {
+              setOpen(false);
+              onManage();
+            }}
+            className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+          >
+            <Users className="h-4 w-4" />
+            Manage profiles
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
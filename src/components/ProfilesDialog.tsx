@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import type { Habits } from '../lib/habits';
+import {
+  builtInHabits,
+  createProfile,
+  getDefaultHabits,
+  profileColorClassNames,
+  profileColors,
+  profileKinds,
+  updateProfile,
+  type Profile,
+  type ProfileColor,
+  type ProfileKind,
+} from '../lib/profiles';
+import ProfileAvatar from './ProfileAvatar';
+
+type ProfilesDialogProps = {
+  profiles: Profile[];
+  activeProfileId: string;
+  habitLabels: Record<keyof Habits, string>;
+  onChange: (profiles: Profile[]) => void;
+  onRemove: (profileId: string) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const ColorPicker = ({
+  value,
+  onChange,
+}: {
+  value: ProfileColor;
+  onChange: (color: ProfileColor) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {profileColors.map((color) => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        aria-pressed={value === color}
+        aria-label={color}
+        className={`h-7 w-7 rounded-full transition ${profileColorClassNames[color]} ${
+          value === color
+            ? 'ring-2 ring-emerald-400 ring-offset-2 dark:ring-offset-slate-900'
+            : 'opacity-70 hover:opacity-100'
+        }`}
+      />
+    ))}
+  </div>
+);
+
+const KindPicker = ({
+  value,
+  labels,
+  onChange,
+}: {
+  value: ProfileKind;
+  labels: Record<ProfileKind, string>;
+  onChange: (kind: ProfileKind) => void;
+}) => (
+  <div className="grid grid-cols-2 gap-2">
+    {profileKinds.map((kind) => (
+      <button
+        key={kind}
+        type="button"
+        onClick={() => onChange(kind)}
+        aria-pressed={value === kind}
+        className={`rounded-lg border px-3 py-2 text-sm transition ${
+          value === kind
+            ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+            : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+        }`}
+      >
+        {labels[kind]}
+      </button>
+    ))}
+  </div>
+);
+
+const ProfileRow = ({
+  profile,
+  isActive,
+  canRemove,
+  kindLabels,
+  habitLabels,
+  onUpdate,
+  onRemove,
+}: {
+  profile: Profile;
+  isActive: boolean;
+  canRemove: boolean;
+  kindLabels: Record<ProfileKind, string>;
+  habitLabels: Record<keyof Habits, string>;
+  onUpdate: (changes: Partial<Profile>) => void;
+  onRemove: () => void;
+}) => {
+  const [draftName, setDraftName] = useState(profile.name);
+  const [expanded, setExpanded] = useState(false);
+  const [confirmingRemoval, setConfirmingRemoval] = useState(false);
+
+  const commitName = () => {
+    const name = draftName.trim();
+    if (!name) {
+      setDraftName(profile.name);
+      return;
+    }
+    if (name !== profile.name) {
+      onUpdate({ name });
+    }
+  };
+
+  const toggleHabit = (habit: keyof Habits, enabled: boolean) => {
+    onUpdate({
+      enabledHabits: builtInHabits.filter((candidate) =>
+        candidate === habit ? enabled : profile.enabledHabits.includes(candidate)
+      ),
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-3 dark:border-slate-700">
+      <div className="flex items-center gap-2">
+        <ProfileAvatar profile={profile} size="sm" />
+        <form
+          className="min-w-0 flex-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            commitName();
+          }}
+        >
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            onBlur={commitName}
+            aria-label="Profile name"
+            className={`${inputClassName} py-1`}
+          />
+        </form>
+        {isActive && (
+          <span className="rounded bg-emerald-50 px-2 py-1 text-xs text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-200">
+            Open
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => setExpanded((prev) => !prev)}
+          aria-expanded={expanded}
+          aria-label="Edit profile"
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+        >
+          {expanded ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={() => setConfirmingRemoval(true)}
+          disabled={!canRemove}
+          aria-label="Delete profile"
+          className="flex h-8 w-8 items-center justify-center rounded-full border border-rose-200 text-rose-700 transition hover:border-rose-400 disabled:cursor-not-allowed disabled:opacity-40 dark:border-rose-500/40 dark:text-rose-200"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {confirmingRemoval && (
+        <div className="mt-3 rounded-lg bg-rose-50 p-3 text-sm text-rose-900 dark:bg-rose-950/40 dark:text-rose-100">
+          <p className="mb-2">
+            This deletes the profile and everything recorded in it.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => setConfirmingRemoval(false)}
+              className="rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={onRemove}
+              className="rounded-lg bg-rose-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-rose-500"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <ColorPicker
+            value={profile.color}
+            onChange={(color) => onUpdate({ color })}
+          />
+          <div>
+            <KindPicker
+              value={profile.kind}
+              labels={kindLabels}
+              onChange={(kind) =>
+                onUpdate({ kind, enabledHabits: getDefaultHabits(kind) })
+              }
+            />
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Changing this resets the habits below.
+            </p>
+          </div>
+          <div>
+            <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+              Habits
+            </p>
+            <div className="grid gap-1 sm:grid-cols-2">
+              {builtInHabits.map((habit) => (
+                <label
+                  key={habit}
+                  className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200"
+                >
+                  <input
+                    type="checkbox"
+                    checked={profile.enabledHabits.includes(habit)}
+                    onChange={(event) =>
+                      toggleHabit(habit, event.target.checked)
+                    }
+                    className="h-4 w-4 accent-emerald-600"
+                  />
+                  {habitLabels[habit]}
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              These apply to past days too, so streaks and statistics change with them. Ticks on a hidden habit are kept.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ProfilesDialog = ({
+  profiles,
+  activeProfileId,
+  habitLabels,
+  onChange,
+  onRemove,
+  onClose,
+}: ProfilesDialogProps) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<ProfileColor>('sky');
+  const [kind, setKind] = useState<ProfileKind>('adult');
+
+  const kindLabels: Record<ProfileKind, string> = {
+    adult: 'Adult',
+    child: 'Child',
+  };
+
+  const changeProfile = (id: string, changes: Partial<Profile>) => {
+    onChange(
+      profiles.map((profile) =>
+        profile.id === id ? updateProfile(profile, changes, new Date()) : profile
+      )
+    );
+  };
+
+  const addProfile = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    onChange([
+      ...profiles,
+      createProfile({ name: trimmed, color, kind }, new Date()),
+    ]);
+    setName('');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Profiles"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Profiles
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Each profile keeps its own days, habits and settings on this device.
+        </p>
+
+        <div className="mb-5 space-y-2">
+          {profiles.map((profile) => (
+            <ProfileRow
+              key={profile.id}
+              profile={profile}
+              isActive={profile.id === activeProfileId}
+              canRemove={profiles.length > 1}
+              kindLabels={kindLabels}
+              habitLabels={habitLabels}
+              onUpdate={(changes) => changeProfile(profile.id, changes)}
+              onRemove={() => onRemove(profile.id)}
+            />
+          ))}
+        </div>
+
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            addProfile();
+          }}
+          className="space-y-3 rounded-xl border border-emerald-100 p-3 dark:border-slate-700"
+        >
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name"
+            aria-label="New profile name"
+            className={inputClassName}
+          />
+          <ColorPicker value={color} onChange={setColor} />
+          <KindPicker value={kind} labels={kindLabels} onChange={setKind} />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            A child profile starts with the five prayers and the daily adhkar.
+          </p>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          >
+            <Plus className="h-4 w-4" />
+            Add profile
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesDialog;
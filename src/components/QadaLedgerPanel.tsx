@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react';
+import { CalendarClock, ChevronDown, ChevronUp, Minus, Plus } from 'lucide-react';
+import { formatDateKey } from '../lib/habits';
+import { PRAYER_NAMES, type PrayerName } from '../lib/prayerTimes';
+import {
+  computeQadaBalances,
+  getOverallCompletion,
+  logMakeUp,
+  type PrayerCounts,
+  type QadaLedger,
+} from '../lib/qada';
+
+type QadaLedgerPanelProps = {
+  locale: 'en' | 'ar';
+  ledger: QadaLedger;
+  // Prayers marked missed in the daily records.
+  missedCounts: PrayerCounts;
+  prayerLabels: Record<PrayerName, string>;
+  today: Date;
+  onChange: (ledger: QadaLedger) => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const stepButtonClassName =
+  'flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-700 dark:text-emerald-200';
+
+const QadaLedgerPanel = ({
+  locale,
+  ledger,
+  missedCounts,
+  prayerLabels,
+  today,
+  onChange,
+}: QadaLedgerPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [editingBalance, setEditingBalance] = useState(false);
+
+  const balances = useMemo(
+    () => computeQadaBalances(ledger, missedCounts, today),
+    [ledger, missedCounts, today]
+  );
+  const overallCompletion = getOverallCompletion(balances);
+  const totalRemaining = balances.reduce(
+    (total, balance) => total + balance.remaining,
+    0
+  );
+  const totalMissed = PRAYER_NAMES.reduce(
+    (total, prayer) => total + missedCounts[prayer],
+    0
+  );
+  const todayLog = ledger.log[formatDateKey(today)] ?? {};
+
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [locale]
+  );
+
+  const updateEstimate = (prayer: PrayerName, value: string) => {
+    const count = Math.max(0, Math.floor(Number(value) || 0));
+    onChange({
+      ...ledger,
+      estimates: { ...ledger.estimates, [prayer]: count },
+    });
+  };
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+          <CalendarClock className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+          Qada Prayers
+        </h2>
+        <button
+          type="button"
+          onClick={() => setOpen((current) => !current)}
+          className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          aria-label="Toggle Qada Prayers"
+        >
+          {open ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+      </div>
+
+      <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+        {totalRemaining === 0
+          ? 'No prayers left to make up.'
+          : overallCompletion
+            ? <>{totalRemaining} prayers left, done by {dateFormatter.format(overallCompletion)} at your current pace.</>
+            : <>{totalRemaining} prayers left. Log make-ups to see when you will finish.</>}
+      </p>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 dark:text-slate-400">
+                  <th className="py-2 text-start font-medium">Prayer</th>
+                  <th className="py-2 font-medium">Left</th>
+                  <th className="py-2 font-medium">Today</th>
+                  <th className="py-2 text-end font-medium">Done by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {balances.map((balance) => (
+                  <tr
+                    key={balance.prayer}
+                    className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                  >
+                    <td className="py-2">{prayerLabels[balance.prayer]}</td>
+                    <td className="py-2 text-center">
+                      <span className="font-semibold text-emerald-700 dark:text-emerald-300">
+                        {balance.remaining}
+                      </span>
+                      <span className="text-slate-400 dark:text-slate-500">
+                        /{balance.owed}
+                      </span>
+                    </td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onChange(logMakeUp(ledger, balance.prayer, today, -1))
+                          }
+                          disabled={!todayLog[balance.prayer]}
+                          aria-label={`Remove a ${prayerLabels[balance.prayer]} make-up`}
+                          className={stepButtonClassName}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </button>
+                        <span className="w-6 text-center font-semibold">
+                          {todayLog[balance.prayer] ?? 0}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onChange(logMakeUp(ledger, balance.prayer, today, 1))
+                          }
+                          aria-label={`Log a ${prayerLabels[balance.prayer]} make-up`}
+                          className={stepButtonClassName}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="py-2 text-end text-xs text-slate-500 dark:text-slate-400">
+                      {balance.remaining === 0
+                        ? '—'
+                        : balance.projectedCompletion
+                          ? dateFormatter.format(balance.projectedCompletion)
+                          : 'No pace yet'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setEditingBalance((current) => !current)}
+            aria-expanded={editingBalance}
+            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-600 transition hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70"
+          >
+            Edit what you owe
+          </button>
+
+          {editingBalance && (
+            <div className="space-y-3">
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Estimate the prayers missed before you started tracking.
+              </p>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+                {PRAYER_NAMES.map((prayer) => (
+                  <label key={prayer} className="block">
+                    <span className="mb-1 block text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+                      {prayerLabels[prayer]}
+                    </span>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={0}
+                      step={1}
+                      value={ledger.estimates[prayer]}
+                      onChange={(event) =>
+                        updateEstimate(prayer, event.target.value)
+                      }
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={ledger.includeMissedDays}
+                  onChange={(event) =>
+                    onChange({
+                      ...ledger,
+                      includeMissedDays: event.target.checked,
+                    })
+                  }
+                  className="mt-0.5 h-4 w-4 accent-emerald-600"
+                />
+                <span>Also count the {totalMissed} prayers marked missed in your daily records</span>
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QadaLedgerPanel;
@@ -0,0 +1,402 @@
+import { useMemo, useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { formatDateKey } from '../lib/habits';
+import type { HijriSettings } from '../lib/hijri';
+import {
+  createAyahReading,
+  createPageReading,
+  getKhatmPlan,
+  getKhatmStatus,
+  type KhatmTarget,
+  type QuranProgress,
+} from '../lib/quran';
+import {
+  getJuzForPage,
+  getSurah,
+  getSurahForPage,
+  surahs,
+  TOTAL_PAGES,
+  type Surah,
+} from '../lib/quranData';
+
+type QuranProgressPanelProps = {
+  locale: 'en' | 'ar';
+  progress: QuranProgress;
+  today: Date;
+  hijriSettings: HijriSettings;
+  onChange: (progress: QuranProgress) => void;
+  // Called after a reading is logged for today.
+  onRead: () => void;
+};
+
+type EntryMode = 'pages' | 'ayahs';
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-1 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const toggleClassName = (active: boolean) =>
+  `rounded-lg border px-3 py-2 text-sm transition ${
+    active
+      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+  }`;
+
+const clampNumber = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.floor(Number(value) || min)));
+
+const QuranProgressPanel = ({
+  locale,
+  progress,
+  today,
+  hijriSettings,
+  onChange,
+  onRead,
+}: QuranProgressPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<EntryMode>('pages');
+
+  const status = useMemo(
+    () => getKhatmStatus(progress, today),
+    [progress, today]
+  );
+  const plan = useMemo(
+    () => getKhatmPlan(progress, status, today, hijriSettings),
+    [hijriSettings, progress, status, today]
+  );
+
+  const [fromPage, setFromPage] = useState(`${status.nextPage}`);
+  const [toPage, setToPage] = useState(`${status.nextPage}`);
+  const [surahNumber, setSurahNumber] = useState(
+    getSurahForPage(status.nextPage).number
+  );
+  const [fromAyah, setFromAyah] = useState('1');
+  const [toAyah, setToAyah] = useState('1');
+
+  const surah = getSurah(surahNumber) ?? surahs[0];
+  const nextSurah = getSurahForPage(status.nextPage);
+  const nextJuz = getJuzForPage(status.nextPage);
+  const todayKey = formatDateKey(today);
+  const todayReadings = progress.readings.filter(
+    (reading) => reading.date === todayKey
+  );
+
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [locale]
+  );
+
+  const surahName = (value: Surah) =>
+    locale === 'ar' ? value.arabicName : value.name;
+
+  const logReading = () => {
+    const reading =
+      mode === 'pages'
+        ? createPageReading(
+            progress.khatm,
+            today,
+            clampNumber(fromPage, 1, TOTAL_PAGES),
+            clampNumber(toPage, 1, TOTAL_PAGES)
+          )
+        : createAyahReading(
+            progress.khatm,
+            today,
+            surah.number,
+            clampNumber(fromAyah, 1, surah.ayahs),
+            clampNumber(toAyah, 1, surah.ayahs)
+          );
+    onChange({ ...progress, readings: [...progress.readings, reading] });
+    onRead();
+    const next = Math.min(TOTAL_PAGES, reading.toPage + 1);
+    setFromPage(`${next}`);
+    setToPage(`${next}`);
+  };
+
+  const removeReading = (id: string) =>
+    onChange({
+      ...progress,
+      readings: progress.readings.filter((reading) => reading.id !== id),
+    });
+
+  const setTarget = (target: KhatmTarget | null) =>
+    onChange({ ...progress, target });
+
+  const startNextKhatm = () => {
+    onChange({ ...progress, khatm: progress.khatm + 1 });
+    setFromPage('1');
+    setToPage('1');
+  };
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+          <BookOpen className="h-6 w-6 text-emerald-600 dark:text-emerald-300" />
+          Khatm {progress.khatm}
+        </h2>
+        <button
+          type="button"
+          onClick={() => setOpen((current) => !current)}
+          className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          aria-label="Toggle Khatm"
+        >
+          {open ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <div className="mb-2 flex items-center justify-between text-sm text-gray-700 dark:text-slate-200">
+          <span>
+            {status.pagesRead}/{TOTAL_PAGES} pages
+          </span>
+          <span className="text-2xl font-bold text-emerald-600 dark:text-emerald-300">
+            {status.percent}%
+          </span>
+        </div>
+        <div className="h-3 w-full rounded-full bg-gray-200 dark:bg-slate-800">
+          <div
+            className="h-3 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 transition-all duration-500"
+            style={{ width: `${(status.pagesRead / TOTAL_PAGES) * 100}%` }}
+          />
+        </div>
+        <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+          {status.complete
+            ? 'Khatm complete. May Allah accept it.'
+            : <>Next: page {status.nextPage}, juz {nextJuz.number}, {surahName(nextSurah)}</>}
+        </p>
+        {status.projectedFinish && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Done by {dateFormatter.format(status.projectedFinish)} at your current pace.
+          </p>
+        )}
+        {plan && (
+          <p className="mt-1 text-xs font-medium text-amber-700 dark:text-amber-300">
+            {plan.daysLeft === 0
+              ? <>The target date, {dateFormatter.format(plan.finishBy)}, has passed.</>
+              : <>Read {plan.pagesPerDay} pages a day to finish by {dateFormatter.format(plan.finishBy)}.</>}
+          </p>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {status.complete ? (
+            <button
+              type="button"
+              onClick={startNextKhatm}
+              className="w-full rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+            >
+              Start the next khatm
+            </button>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setMode('pages')}
+                  aria-pressed={mode === 'pages'}
+                  className={toggleClassName(mode === 'pages')}
+                >
+                  Pages
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('ayahs')}
+                  aria-pressed={mode === 'ayahs'}
+                  className={toggleClassName(mode === 'ayahs')}
+                >
+                  Ayahs
+                </button>
+              </div>
+
+              {mode === 'pages' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <label>
+                    <p className={labelClassName}>From page</p>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      max={TOTAL_PAGES}
+                      value={fromPage}
+                      onChange={(event) => setFromPage(event.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label>
+                    <p className={labelClassName}>To page</p>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      max={TOTAL_PAGES}
+                      value={toPage}
+                      onChange={(event) => setToPage(event.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <select
+                    value={surah.number}
+                    onChange={(event) => {
+                      setSurahNumber(Number(event.target.value));
+                      setFromAyah('1');
+                      setToAyah('1');
+                    }}
+                    aria-label="Surah"
+                    className={inputClassName}
+                  >
+                    {surahs.map((option) => (
+                      <option key={option.number} value={option.number}>
+                        {option.number}. {surahName(option)}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-2 gap-2">
+                    <label>
+                      <p className={labelClassName}>From ayah</p>
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        max={surah.ayahs}
+                        value={fromAyah}
+                        onChange={(event) => setFromAyah(event.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label>
+                      <p className={labelClassName}>To ayah</p>
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        max={surah.ayahs}
+                        value={toAyah}
+                        onChange={(event) => setToAyah(event.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={logReading}
+                className="w-full rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+              >
+                Log today's reading
+              </button>
+            </div>
+          )}
+
+          {todayReadings.length > 0 && (
+            <div>
+              <p className={labelClassName}>Today</p>
+              <ul className="space-y-1">
+                {todayReadings.map((reading) => {
+                  const readingSurah = reading.ayahs
+                    ? getSurah(reading.ayahs.surah)
+                    : null;
+                  return (
+                    <li
+                      key={reading.id}
+                      className="flex items-center justify-between gap-2 rounded-lg border border-slate-100 px-3 py-2 text-sm text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                    >
+                      <span>
+                        {reading.ayahs && readingSurah
+                          ? <>{surahName(readingSurah)} {reading.ayahs.fromAyah}-{reading.ayahs.toAyah}</>
+                          : <>Pages {reading.fromPage}-{reading.toPage}</>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeReading(reading.id)}
+                        aria-label="Remove reading"
+                        className="text-slate-400 transition hover:text-rose-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <p className={labelClassName}>Target</p>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                type="button"
+                onClick={() => setTarget(null)}
+                aria-pressed={!progress.target}
+                className={toggleClassName(!progress.target)}
+              >
+                None
+              </button>
+              <button
+                type="button"
+                onClick={() => setTarget({ kind: 'ramadan' })}
+                aria-pressed={progress.target?.kind === 'ramadan'}
+                className={toggleClassName(progress.target?.kind === 'ramadan')}
+              >
+                By Ramadan's end
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setTarget({
+                    kind: 'date',
+                    date:
+                      progress.target?.kind === 'date'
+                        ? progress.target.date
+                        : formatDateKey(
+                            new Date(
+                              today.getFullYear(),
+                              today.getMonth() + 1,
+                              today.getDate()
+                            )
+                          ),
+                  })
+                }
+                aria-pressed={progress.target?.kind === 'date'}
+                className={toggleClassName(progress.target?.kind === 'date')}
+              >
+                By a date
+              </button>
+            </div>
+            {progress.target?.kind === 'date' && (
+              <input
+                type="date"
+                value={progress.target.date}
+                min={todayKey}
+                onChange={(event) =>
+                  event.target.value &&
+                  setTarget({ kind: 'date', date: event.target.value })
+                }
+                aria-label="Finish by"
+                className={`mt-2 ${inputClassName}`}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuranProgressPanel;
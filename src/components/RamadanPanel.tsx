@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { Check, Minus, MoonStar, Plus } from 'lucide-react';
+import { fastStatuses, type FastStatus } from '../lib/fastStatus';
+import { getHijriParts, type HijriSettings } from '../lib/hijri';
+import { defaultHabits, formatDateKey, type DayRecord } from '../lib/habits';
+import { computeRamadanSummary, getRamadanDays } from '../lib/ramadan';
+
+type RamadanPanelProps = {
+  records: Map<string, DayRecord>;
+  today: Date;
+  hijriSettings: HijriSettings;
+  isDateEditable: (date: Date) => boolean;
+  onUpdate: (date: Date, changes: Partial<DayRecord>) => void;
+};
+
+const fastClassNames: Record<FastStatus, string> = {
+  fasted:
+    'border-emerald-500 bg-emerald-500 text-white dark:border-emerald-400 dark:bg-emerald-500',
+  excused:
+    'border-slate-300 bg-slate-200 text-slate-700 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100',
+  makeUp:
+    'border-amber-400 bg-amber-100 text-amber-900 dark:border-amber-400/70 dark:bg-amber-950/50 dark:text-amber-100',
+};
+
+const stepButtonClassName =
+  'flex h-8 w-8 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-700 dark:text-emerald-200';
+
+// Taraweeh is prayed in pairs.
+const RAKAHS_STEP = 2;
+
+// Shown through Ramadan: the selected day's fast and night prayers, and an
+// overview of the whole month so far. Days outside the edit window are
+// shown but cannot be selected.
+const RamadanPanel = ({
+  records,
+  today,
+  hijriSettings,
+  isDateEditable,
+  onUpdate,
+}: RamadanPanelProps) => {
+  const [selectedKey, setSelectedKey] = useState(() => formatDateKey(today));
+
+  const hijriYear = getHijriParts(today, hijriSettings).year;
+  const days = useMemo(
+    () => getRamadanDays(hijriYear, hijriSettings),
+    [hijriSettings, hijriYear]
+  );
+  const todayKey = formatDateKey(today);
+  const pastDays = useMemo(
+    () => days.filter((date) => formatDateKey(date) <= todayKey),
+    [days, todayKey]
+  );
+  const summary = useMemo(
+    () => computeRamadanSummary(records, pastDays),
+    [pastDays, records]
+  );
+
+  const selectedDate =
+    days.find((date) => formatDateKey(date) === selectedKey) ?? today;
+  const selectedDay = getHijriParts(selectedDate, hijriSettings).day;
+  const record = records.get(formatDateKey(selectedDate)) ?? defaultHabits;
+
+  const fastLabels: Record<FastStatus, string> = {
+    fasted: 'Fasted',
+    excused: 'Excused',
+    makeUp: 'To make up',
+  };
+
+  const update = (changes: Partial<DayRecord>) =>
+    onUpdate(selectedDate, changes);
+
+  const renderToggle = (
+    key: 'suhoor' | 'iftarDua' | 'itikaf',
+    label: string
+  ) => (
+    <button
+      type="button"
+      onClick={() => update({ [key]: !record[key] })}
+      aria-pressed={record[key]}
+      className={`flex items-center gap-2 rounded-lg border-2 px-3 py-2 text-start text-sm transition ${
+        record[key]
+          ? 'border-emerald-500 bg-emerald-50 text-emerald-900 dark:border-emerald-400/70 dark:bg-emerald-950/40 dark:text-emerald-100'
+          : 'border-gray-200 text-gray-700 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-200 dark:hover:border-emerald-500/60'
+      }`}
+    >
+      {record[key] ? (
+        <Check className="h-4 w-4 text-emerald-600 dark:text-emerald-300" />
+      ) : (
+        <span className="h-4 w-4 rounded-full border-2 border-gray-300 dark:border-slate-600" />
+      )}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <h2 className="mb-4 flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+        <MoonStar className="h-6 w-6 text-sky-500 dark:text-sky-300" />
+        Ramadan
+      </h2>
+
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+        {selectedKey === todayKey ? 'Today' : `Ramadan ${selectedDay}`}
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <p className="mb-1 text-sm text-gray-700 dark:text-slate-200">Fast</p>
+          <div className="grid grid-cols-3 gap-2">
+            {fastStatuses.map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() =>
+                  update({
+                    ramadanFast: record.ramadanFast === status ? null : status,
+                  })
+                }
+                aria-pressed={record.ramadanFast === status}
+                className={`rounded-lg border px-3 py-2 text-sm transition ${
+                  record.ramadanFast === status
+                    ? fastClassNames[status]
+                    : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+                }`}
+              >
+                {fastLabels[status]}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Days to make up are carried over after Ramadan until you fast them.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-700 dark:text-slate-200">Taraweeh rak'ahs</p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  taraweehRakahs: Math.max(0, record.taraweehRakahs - RAKAHS_STEP),
+                })
+              }
+              disabled={record.taraweehRakahs === 0}
+              aria-label="Fewer rak'ahs"
+              className={stepButtonClassName}
+            >
+              <Minus className="h-3 w-3" />
+            </button>
+            <span className="w-8 text-center text-lg font-semibold text-emerald-700 dark:text-emerald-300">
+              {record.taraweehRakahs}
+            </span>
+            <button
+              type="button"
+              onClick={() =>
+                update({ taraweehRakahs: record.taraweehRakahs + RAKAHS_STEP })
+              }
+              aria-label="More rak'ahs"
+              className={stepButtonClassName}
+            >
+              <Plus className="h-3 w-3" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {renderToggle('suhoor', 'Suhoor')}
+          {renderToggle('iftarDua', "Iftar du'aa")}
+          {selectedDay >= 21 && renderToggle('itikaf', "I'tikaf night")}
+        </div>
+      </div>
+
+      <p className="mb-2 mt-6 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+        This Ramadan
+      </p>
+      <div className="grid grid-cols-6 gap-1.5 sm:grid-cols-10">
+        {days.map((date) => {
+          const dateKey = formatDateKey(date);
+          const dayRecord = records.get(dateKey);
+          const hijriDay = getHijriParts(date, hijriSettings).day;
+          const selectable = dateKey <= todayKey && isDateEditable(date);
+          return (
+            <button
+              key={dateKey}
+              type="button"
+              onClick={() => setSelectedKey(dateKey)}
+              disabled={!selectable}
+              aria-pressed={dateKey === selectedKey}
+              title={`Ramadan ${hijriDay}`}
+              className={`relative flex aspect-square items-center justify-center rounded-md border text-xs font-semibold transition ${
+                dayRecord?.ramadanFast
+                  ? fastClassNames[dayRecord.ramadanFast]
+                  : 'border-slate-200 text-slate-500 dark:border-slate-700 dark:text-slate-400'
+              } ${
+                dateKey === selectedKey
+                  ? 'ring-2 ring-sky-400 dark:ring-sky-300/70'
+                  : ''
+              } ${selectable ? 'hover:-translate-y-0.5' : 'cursor-default opacity-60'}`}
+            >
+              {hijriDay}
+              {(dayRecord?.taraweehRakahs ?? 0) > 0 && (
+                <span className="absolute bottom-0.5 h-1 w-1 rounded-full bg-sky-500 dark:bg-sky-300" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-300">
+            {summary.fasted}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Fasted</p>
+        </div>
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-amber-600 dark:text-amber-300">
+            {summary.makeUp}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">To make up</p>
+        </div>
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-sky-600 dark:text-sky-300">
+            {summary.taraweehNights}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Taraweeh nights</p>
+        </div>
+      </div>
+      <p className="mt-2 text-center text-xs text-slate-500 dark:text-slate-400">
+        {summary.taraweehRakahs} rak'ahs of Taraweeh, {summary.suhoor} suhoors, {summary.iftarDua} iftar du'aas, {summary.itikafNights} nights of i'tikaf
+      </p>
+    </div>
+  );
+};
+
+export default RamadanPanel;
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { BellRing, X } from 'lucide-react';
+import {
+  canShowNotifications,
+  REMINDER_SNOOZE_MINUTES,
+  reminderIds,
+  type ReminderDelivery,
+  type ReminderId,
+  type ReminderSettings,
+} from '../lib/reminders';
+
+type RemindersDialogProps = {
+  settings: ReminderSettings;
+  delivery: ReminderDelivery;
+  onChange: (settings: ReminderSettings) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const getPermission = (): typeof Notification.permission | 'unsupported' =>
+  canShowNotifications() ? Notification.permission : 'unsupported';
+
+const RemindersDialog = ({
+  settings,
+  delivery,
+  onChange,
+  onClose,
+}: RemindersDialogProps) => {
+  const [permission, setPermission] = useState(getPermission);
+
+  const reminderLabels: Record<
+    ReminderId,
+    { title: string; description: string }
+  > = {
+    morningAdhkar: {
+      title: 'Morning adhkar',
+      description: 'Skipped once morning dhikr is ticked.',
+    },
+    eveningAdhkar: {
+      title: 'Evening adhkar',
+      description: 'Skipped once evening dhikr is ticked.',
+    },
+    duha: {
+      title: 'Duha prayer',
+      description: 'Skipped once Duha is ticked.',
+    },
+    witr: {
+      title: 'Witr before sleep',
+      description: 'Skipped once Witr is ticked.',
+    },
+    kahf: {
+      title: 'Surah Al-Kahf',
+      description: 'On Fridays. Skipped once Al-Kahf is ticked.',
+    },
+    fasting: {
+      title: 'Monday and Thursday fasts',
+      description: 'The evening before, unless fasting is not allowed.',
+    },
+  };
+
+  const deliveryNotes: Record<ReminderDelivery, string> = {
+    background:
+      'Reminders come from this device even while the app is closed, though the browser may deliver them late.',
+    whileOpen:
+      'This browser only lets reminders come while the app is open, including in a background tab.',
+    unavailable:
+      'Reminders need the browser database, which could not be opened on this device.',
+  };
+
+  const requestPermission = () => {
+    Notification.requestPermission()
+      .then(setPermission)
+      .catch(() => setPermission(getPermission()));
+  };
+
+  const updateReminder = (
+    id: ReminderId,
+    changes: Partial<ReminderSettings[ReminderId]>
+  ) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...changes } });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Reminders"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Reminders
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-2 text-sm text-slate-600 dark:text-slate-300">
+          {deliveryNotes[delivery]}
+        </p>
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Snoozing brings a reminder back in {REMINDER_SNOOZE_MINUTES} minutes.
+        </p>
+
+        {permission === 'unsupported' && (
+          <p className="mb-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-900/30 dark:text-amber-100">
+            This browser cannot show notifications.
+          </p>
+        )}
+        {permission === 'denied' && (
+          <p className="mb-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-900/30 dark:text-amber-100">
+            Notifications are blocked. Allow them in your browser settings.
+          </p>
+        )}
+        {permission === 'default' && (
+          <button
+            type="button"
+            onClick={requestPermission}
+            className="mb-4 flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700"
+          >
+            <BellRing className="h-4 w-4" />
+            Allow notifications
+          </button>
+        )}
+
+        <ul className="space-y-2">
+          {reminderIds.map((id) => (
+            <li
+              key={id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-200 px-3 py-2 dark:border-slate-700"
+            >
+              <label className="flex flex-1 items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings[id].enabled}
+                  onChange={(event) =>
+                    updateReminder(id, { enabled: event.target.checked })
+                  }
+                  className="mt-1 h-4 w-4 accent-emerald-600"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-800 dark:text-slate-100">
+                    {reminderLabels[id].title}
+                  </span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">
+                    {reminderLabels[id].description}
+                  </span>
+                </span>
+              </label>
+              <input
+                type="time"
+                value={settings[id].time}
+                disabled={!settings[id].enabled}
+                onChange={(event) => {
+                  if (event.target.value) {
+                    updateReminder(id, { time: event.target.value });
+                  }
+                }}
+                aria-label={reminderLabels[id].title}
+                className={inputClassName}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default RemindersDialog;
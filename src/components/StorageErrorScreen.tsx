@@ -0,0 +1,21 @@
+// Shown in place of the app when its saved data cannot be read at start-up.
+// Nothing is written, so the data is left as it was for the next attempt.
+const StorageErrorScreen = () => (
+  <div className="flex min-h-screen items-center justify-center bg-slate-50 p-4 text-slate-700 dark:bg-slate-950 dark:text-slate-200">
+    <div className="max-w-sm text-center">
+      <p className="mb-2 text-lg font-semibold">Your data could not be loaded</p>
+      <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+        The browser refused to read this app&apos;s storage. Close other tabs of the app and try again.
+      </p>
+      <button
+        type="button"
+        onClick={() => window.location.reload()}
+        className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700"
+      >
+        Try again
+      </button>
+    </div>
+  </div>
+);
+
+export default StorageErrorScreen;
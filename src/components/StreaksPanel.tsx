@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Flame, Trophy } from 'lucide-react';
+import { prayerStatuses, type PrayerStatus } from '../lib/prayerStatus';
+import { PRAYER_NAMES, type PrayerName } from '../lib/prayerTimes';
+import type { PrayerStatusCounts, StreakStats } from '../lib/streaks';
+
+type StreaksPanelProps = {
+  rows: { key: string; label: string; stats: StreakStats }[];
+  allMain: StreakStats;
+  prayerStatusCounts: PrayerStatusCounts;
+  prayerLabels: Record<PrayerName, string>;
+  hijriMonthLabel: string;
+};
+
+const StreaksPanel = ({
+  rows,
+  allMain,
+  prayerStatusCounts,
+  prayerLabels,
+  hijriMonthLabel,
+}: StreaksPanelProps) => {
+  const [open, setOpen] = useState(false);
+
+  const statusLabels: Record<PrayerStatus, string> = {
+    jamaah: "Jama'ah",
+    onTime: 'On time',
+    late: 'Late',
+    qada: 'Made up',
+    missed: 'Missed',
+  };
+
+  return (
+    <div className="mb-6 rounded-lg bg-white p-6 shadow-lg dark:bg-slate-900/70">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-slate-100">
+          <Flame className="h-6 w-6 text-orange-500 dark:text-orange-300" />
+          Streaks
+        </h2>
+        <button
+          type="button"
+          onClick={() => setOpen((current) => !current)}
+          className="flex h-9 w-9 items-center justify-center rounded-full bg-emerald-600 text-white shadow-sm transition hover:-translate-y-0.5 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+          aria-label="Toggle Streaks"
+        >
+          {open ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-300">
+            {allMain.current}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Current streak
+          </p>
+        </div>
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-300">
+            {allMain.longest}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Longest streak
+          </p>
+        </div>
+        <div className="rounded-lg border border-emerald-100 p-3 dark:border-slate-700">
+          <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-300">
+            {allMain.monthCompleted}/{allMain.monthApplicable}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {hijriMonthLabel}
+          </p>
+        </div>
+      </div>
+      <p className="mt-2 text-center text-xs text-slate-500 dark:text-slate-400">
+        Days with all main habits done
+      </p>
+
+      {open && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500 dark:text-slate-400">
+                <th className="py-2 text-start font-medium">Habit</th>
+                <th className="py-2 font-medium">
+                  <Flame className="mx-auto h-4 w-4" aria-label="Current streak" />
+                </th>
+                <th className="py-2 font-medium">
+                  <Trophy className="mx-auto h-4 w-4" aria-label="Longest streak" />
+                </th>
+                <th className="py-2 font-medium">{hijriMonthLabel}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.key}
+                  className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                >
+                  <td className="py-2">{row.label}</td>
+                  <td className="py-2 text-center font-semibold text-orange-600 dark:text-orange-300">
+                    {row.stats.current}
+                  </td>
+                  <td className="py-2 text-center">{row.stats.longest}</td>
+                  <td className="py-2 text-center text-slate-500 dark:text-slate-400">
+                    {row.stats.monthCompleted}/{row.stats.monthApplicable}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="mt-6 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300">
+            Prayers this month
+          </p>
+          <table className="mt-2 w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500 dark:text-slate-400">
+                <th className="py-2 text-start font-medium">Prayer</th>
+                {prayerStatuses.map((status) => (
+                  <th key={status} className="py-2 font-medium">
+                    {statusLabels[status]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PRAYER_NAMES.map((prayer) => (
+                <tr
+                  key={prayer}
+                  className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                >
+                  <td className="py-2">{prayerLabels[prayer]}</td>
+                  {prayerStatuses.map((status) => (
+                    <td
+                      key={status}
+                      className={`py-2 text-center ${
+                        prayerStatusCounts[prayer][status] === 0
+                          ? 'text-slate-300 dark:text-slate-600'
+                          : ''
+                      }`}
+                    >
+                      {prayerStatusCounts[prayer][status]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreaksPanel;
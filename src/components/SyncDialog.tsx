@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { ArrowLeftRight, Server, Upload, X } from 'lucide-react';
+import type { DayRecord } from '../lib/habits';
+import type { StorageRepository } from '../lib/storage';
+import {
+  syncRecords,
+  type SyncError,
+  type SyncResult,
+  type SyncSettings,
+  type SyncTransport,
+} from '../lib/sync';
+import {
+  createFileTransport,
+  createHttpTransport,
+} from '../lib/syncTransports';
+
+type SyncDialogProps = {
+  storage: StorageRepository;
+  settings: SyncSettings;
+  onSettingsChange: (settings: SyncSettings) => void;
+  onSynced: (records: Map<string, DayRecord>) => void;
+  onClose: () => void;
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const labelClassName =
+  'mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-700 dark:text-emerald-300';
+
+const SyncDialog = ({
+  storage,
+  settings,
+  onSettingsChange,
+  onSynced,
+  onClose,
+}: SyncDialogProps) => {
+  // The passphrase is never stored; it is asked for on every sync.
+  const [passphrase, setPassphrase] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [error, setError] = useState<SyncError | null>(null);
+
+  const errorMessages: Record<SyncError, string> = {
+    unknownFormat: 'This is not Sunnah Tracker sync data.',
+    newerVersion:
+      'This sync data was written by a newer version of the app. Update the app and try again.',
+    wrongPassphrase:
+      'The passphrase does not match the one used on your other devices.',
+    transport: 'The sync file or server could not be reached.',
+    storage: 'The merged days could not be saved on this device.',
+  };
+
+  const runSync = async (transport: SyncTransport) => {
+    setBusy(true);
+    setResult(null);
+    setError(null);
+    const outcome = await syncRecords(storage, transport, passphrase);
+    setBusy(false);
+    if (outcome.records) {
+      onSynced(outcome.records);
+    }
+    if ('error' in outcome) {
+      setError(outcome.error);
+      return;
+    }
+    setResult(outcome.result);
+  };
+
+  const syncWithServer = () => {
+    const url = serverUrl.trim();
+    if (url !== settings.serverUrl) {
+      onSettingsChange({ ...settings, serverUrl: url });
+    }
+    void runSync(createHttpTransport(url));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Sync devices"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Sync devices
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-2 text-sm text-slate-600 dark:text-slate-300">
+          Merges this profile&apos;s daily records with your other devices. When the same habit was changed on two devices, the later change wins.
+        </p>
+        <p className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+          Records are encrypted with your passphrase before they leave this device. Use the same passphrase everywhere.
+        </p>
+
+        <p className={labelClassName}>Passphrase</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          autoComplete="current-password"
+          aria-label="Passphrase"
+          className={`${inputClassName} mb-6`}
+        />
+
+        <p className={labelClassName}>Sync file</p>
+        <p className="mb-3 text-sm text-slate-600 dark:text-slate-300">
+          Pick the file saved on your other device, or start without one. The merged result is saved as a new file to take back.
+        </p>
+        <label className="mb-2 flex w-full cursor-pointer items-center justify-center gap-2 rounded-lg border border-dashed border-emerald-300 px-3 py-3 text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/50 dark:text-emerald-200 dark:hover:bg-slate-800">
+          <Upload className="h-4 w-4" />
+          {file ? file.name : 'Choose a sync file'}
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null);
+              event.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => void runSync(createFileTransport(file))}
+          disabled={busy || !passphrase}
+          className="mb-6 flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+        >
+          <ArrowLeftRight className="h-4 w-4" />
+          Sync with file
+        </button>
+
+        <p className={labelClassName}>Sync server</p>
+        <input
+          type="url"
+          value={serverUrl}
+          onChange={(event) => setServerUrl(event.target.value)}
+          placeholder="https://example.com/sync/my-devices"
+          aria-label="Sync server address"
+          className={`${inputClassName} mb-2`}
+        />
+        <button
+          type="button"
+          onClick={syncWithServer}
+          disabled={busy || !passphrase || !serverUrl.trim()}
+          className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-emerald-500 dark:hover:bg-emerald-400"
+        >
+          <Server className="h-4 w-4" />
+          Sync with server
+        </button>
+
+        {busy && (
+          <p className="mt-4 text-sm text-slate-600 dark:text-slate-300">
+            Syncing...
+          </p>
+        )}
+        {error && (
+          <p className="mt-4 rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-950/40 dark:text-rose-200">
+            {errorMessages[error]}
+          </p>
+        )}
+        {result && (
+          <p className="mt-4 rounded-lg border border-emerald-100 p-3 text-sm text-slate-700 dark:border-slate-700 dark:text-slate-200">
+            {result.receivedDays} days updated here, {result.sentDays} days sent.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncDialog;
@@ -0,0 +1,366 @@
+import { useMemo, useState } from 'react';
+import { Plus, RotateCcw, Trash2, Undo2, X } from 'lucide-react';
+import type { HabitKey } from '../lib/habits';
+import {
+  createDhikr,
+  getDailyTotals,
+  getDhikrCount,
+  getDhikrTotals,
+  type Dhikr,
+  type TasbihCounts,
+  type TasbihSettings,
+} from '../lib/tasbih';
+
+type TasbihDialogProps = {
+  locale: 'en' | 'ar';
+  settings: TasbihSettings;
+  counts: TasbihCounts;
+  today: Date;
+  // Habits a dhikr can be linked to, with their labels.
+  habitOptions: { key: HabitKey; label: string }[];
+  onSettingsChange: (settings: TasbihSettings) => void;
+  onCount: (dhikr: Dhikr, count: number) => void;
+  onClose: () => void;
+};
+
+type Tab = 'counter' | 'history' | 'adhkar';
+
+const HISTORY_DAYS = 14;
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-emerald-400 focus:outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200';
+
+const toggleClassName = (active: boolean) =>
+  `rounded-lg border px-3 py-2 text-sm transition ${
+    active
+      ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+      : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300 dark:hover:border-emerald-500/70'
+  }`;
+
+const vibrate = (pattern: number | number[]) => {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(pattern);
+  }
+};
+
+const TasbihDialog = ({
+  locale,
+  settings,
+  counts,
+  today,
+  habitOptions,
+  onSettingsChange,
+  onCount,
+  onClose,
+}: TasbihDialogProps) => {
+  const [tab, setTab] = useState<Tab>('counter');
+  const [selectedId, setSelectedId] = useState(settings.adhkar[0]?.id ?? null);
+
+  const selected =
+    settings.adhkar.find((dhikr) => dhikr.id === selectedId) ??
+    settings.adhkar[0] ??
+    null;
+  const count = selected ? getDhikrCount(counts, selected.id, today) : 0;
+  const dailyTotals = useMemo(
+    () => getDailyTotals(counts, today, HISTORY_DAYS),
+    [counts, today]
+  );
+  const maxDailyTotal = Math.max(1, ...dailyTotals.map((day) => day.total));
+  const dayFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale === 'ar' ? 'ar' : 'en', {
+        day: 'numeric',
+        month: 'short',
+      }),
+    [locale]
+  );
+
+  const increment = () => {
+    if (!selected) {
+      return;
+    }
+    const next = count + 1;
+    if (settings.vibrate) {
+      vibrate(next === selected.target ? [80, 60, 80] : 15);
+    }
+    onCount(selected, next);
+  };
+
+  const updateDhikr = (id: string, changes: Partial<Dhikr>) =>
+    onSettingsChange({
+      ...settings,
+      adhkar: settings.adhkar.map((dhikr) =>
+        dhikr.id === id ? { ...dhikr, ...changes } : dhikr
+      ),
+    });
+
+  const addDhikr = () => {
+    const dhikr = createDhikr({ name: 'SubhanAllah', target: 33, habit: null });
+    onSettingsChange({ ...settings, adhkar: [...settings.adhkar, dhikr] });
+  };
+
+  const removeDhikr = (id: string) =>
+    onSettingsChange({
+      ...settings,
+      adhkar: settings.adhkar.filter((dhikr) => dhikr.id !== id),
+    });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-slate-900/40 p-4 backdrop-blur-sm sm:items-center"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Tasbih"
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] w-full max-w-lg overflow-y-auto rounded-2xl bg-white p-5 shadow-xl dark:bg-slate-900"
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-lg font-semibold text-emerald-900 dark:text-emerald-100">
+            Tasbih
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full border border-emerald-100 text-emerald-700 transition hover:border-emerald-300 dark:border-slate-700 dark:text-emerald-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mb-4 grid grid-cols-3 gap-2">
+          <button
+            type="button"
+            onClick={() => setTab('counter')}
+            aria-pressed={tab === 'counter'}
+            className={toggleClassName(tab === 'counter')}
+          >
+            Counter
+          </button>
+          <button
+            type="button"
+            onClick={() => setTab('history')}
+            aria-pressed={tab === 'history'}
+            className={toggleClassName(tab === 'history')}
+          >
+            History
+          </button>
+          <button
+            type="button"
+            onClick={() => setTab('adhkar')}
+            aria-pressed={tab === 'adhkar'}
+            className={toggleClassName(tab === 'adhkar')}
+          >
+            Adhkar
+          </button>
+        </div>
+
+        {tab === 'counter' &&
+          (selected ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {settings.adhkar.map((dhikr) => (
+                  <button
+                    key={dhikr.id}
+                    type="button"
+                    onClick={() => setSelectedId(dhikr.id)}
+                    aria-pressed={dhikr.id === selected.id}
+                    className={`rounded-full border px-3 py-1 text-sm transition ${
+                      dhikr.id === selected.id
+                        ? 'border-emerald-500 bg-emerald-50 text-emerald-900'
+                        : 'border-gray-200 text-gray-600 hover:border-emerald-300 dark:border-slate-700 dark:text-slate-300'
+                    }`}
+                  >
+                    {dhikr.name}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                type="button"
+                onClick={increment}
+                aria-label={`Count ${selected.name}`}
+                className={`mx-auto flex h-56 w-56 select-none flex-col items-center justify-center rounded-full border-8 shadow-lg transition active:scale-95 ${
+                  count >= selected.target
+                    ? 'border-emerald-500 bg-emerald-50 dark:border-emerald-400 dark:bg-emerald-950/40'
+                    : 'border-emerald-100 bg-white dark:border-slate-700 dark:bg-slate-900'
+                }`}
+              >
+                <span className="text-6xl font-bold text-emerald-700 dark:text-emerald-300">
+                  {count}
+                </span>
+                <span className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                  / {selected.target}
+                </span>
+              </button>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => onCount(selected, count - 1)}
+                  disabled={count === 0}
+                  className="flex items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-3 text-sm text-gray-600 transition hover:border-emerald-300 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-300"
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onCount(selected, 0)}
+                  disabled={count === 0}
+                  className="flex items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-3 text-sm text-gray-600 transition hover:border-rose-300 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-300"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Reset
+                </button>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={settings.vibrate}
+                  onChange={(event) =>
+                    onSettingsChange({
+                      ...settings,
+                      vibrate: event.target.checked,
+                    })
+                  }
+                  className="h-4 w-4 accent-emerald-600"
+                />
+                Vibrate on each count
+              </label>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Add a dhikr to start counting.
+            </p>
+          ))}
+
+        {tab === 'history' && (
+          <div className="space-y-4">
+            <div className="flex h-24 items-end gap-1">
+              {dailyTotals.map((day) => (
+                <div
+                  key={day.date.toISOString()}
+                  className="flex-1 rounded-t bg-emerald-500/80 dark:bg-emerald-400/70"
+                  style={{ height: `${(day.total / maxDailyTotal) * 100}%` }}
+                  title={`${dayFormatter.format(day.date)}: ${day.total}`}
+                />
+              ))}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 dark:text-slate-400">
+                  <th className="py-2 text-start font-medium">Dhikr</th>
+                  <th className="py-2 font-medium">Today</th>
+                  <th className="py-2 font-medium">7 days</th>
+                  <th className="py-2 font-medium">30 days</th>
+                  <th className="py-2 font-medium">All time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {settings.adhkar.map((dhikr) => {
+                  const totals = getDhikrTotals(counts, dhikr.id, today);
+                  return (
+                    <tr
+                      key={dhikr.id}
+                      className="border-t border-slate-100 text-gray-700 dark:border-slate-800 dark:text-slate-200"
+                    >
+                      <td className="py-2">{dhikr.name}</td>
+                      <td className="py-2 text-center">{totals.today}</td>
+                      <td className="py-2 text-center">{totals.week}</td>
+                      <td className="py-2 text-center">{totals.month}</td>
+                      <td className="py-2 text-center">{totals.allTime}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {tab === 'adhkar' && (
+          <div className="space-y-3">
+            {settings.adhkar.map((dhikr) => (
+              <div
+                key={dhikr.id}
+                className="space-y-2 rounded-lg border border-slate-100 p-3 dark:border-slate-800"
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={dhikr.name}
+                    onChange={(event) =>
+                      updateDhikr(dhikr.id, { name: event.target.value })
+                    }
+                    aria-label="Dhikr"
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeDhikr(dhikr.id)}
+                    aria-label="Remove dhikr"
+                    className="text-slate-400 transition hover:text-rose-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    value={dhikr.target}
+                    onChange={(event) =>
+                      updateDhikr(dhikr.id, {
+                        target: Math.max(
+                          1,
+                          Math.floor(Number(event.target.value) || 1)
+                        ),
+                      })
+                    }
+                    aria-label="Target"
+                    className={inputClassName}
+                  />
+                  <select
+                    value={dhikr.habit ?? ''}
+                    onChange={(event) =>
+                      updateDhikr(dhikr.id, {
+                        habit: (event.target.value || null) as HabitKey | null,
+                      })
+                    }
+                    aria-label="Habit to tick"
+                    className={inputClassName}
+                  >
+                    <option value="">No habit</option>
+                    {habitOptions.map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addDhikr}
+              className="flex w-full items-center justify-center gap-2 rounded-lg border border-dashed border-emerald-200 px-3 py-2 text-sm text-emerald-700 transition hover:bg-emerald-50 dark:border-emerald-500/40 dark:text-emerald-200 dark:hover:bg-slate-800"
+            >
+              <Plus className="h-4 w-4" />
+              Add dhikr
+            </button>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Reaching a dhikr's target ticks the habit linked to it.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TasbihDialog;
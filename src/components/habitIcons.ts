@@ -0,0 +1,49 @@
+import {
+  Bed,
+  Book,
+  BookOpen,
+  Circle,
+  Clock,
+  Coffee,
+  Droplets,
+  Dumbbell,
+  Footprints,
+  HandHeart,
+  Heart,
+  HeartHandshake,
+  Leaf,
+  Moon,
+  Sparkles,
+  Star,
+  Sun,
+  Sunrise,
+  Sunset,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+
+// Icons a custom habit can pick from, stored by name in its definition.
+export const habitIcons: Record<string, LucideIcon> = {
+  book: Book,
+  bookOpen: BookOpen,
+  sun: Sun,
+  moon: Moon,
+  sunrise: Sunrise,
+  sunset: Sunset,
+  star: Star,
+  sparkles: Sparkles,
+  heart: Heart,
+  handHeart: HandHeart,
+  heartHandshake: HeartHandshake,
+  users: Users,
+  droplets: Droplets,
+  leaf: Leaf,
+  clock: Clock,
+  bed: Bed,
+  coffee: Coffee,
+  footprints: Footprints,
+  dumbbell: Dumbbell,
+};
+
+export const getHabitIcon = (name: string): LucideIcon =>
+  habitIcons[name] ?? Circle;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+// Returns the current date and re-renders once the local day changes, so
+// views left open past midnight move on to the new day.
+const useCurrentDate = (intervalMs = 60_000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const checkDate = () => {
+      const current = new Date();
+      if (!isSameDay(current, now)) {
+        setNow(current);
+      }
+    };
+
+    const intervalId = window.setInterval(checkDate, intervalMs);
+    // Timers are throttled in background tabs, so re-check on return.
+    document.addEventListener('visibilitychange', checkDate);
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', checkDate);
+    };
+  }, [intervalMs, now]);
+
+  return now;
+};
+
+export default useCurrentDate;
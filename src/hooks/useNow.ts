@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+// Returns the current time, refreshed every `intervalMs`, for countdowns.
+const useNow = (intervalMs = 30_000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const tick = () => setNow(new Date());
+
+    const intervalId = window.setInterval(tick, intervalMs);
+    // Timers are throttled in background tabs, so refresh on return.
+    document.addEventListener('visibilitychange', tick);
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [intervalMs]);
+
+  return now;
+};
+
+export default useNow;
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Registers the service worker, which keeps the app working offline and
+// shows reminder notifications. Reports when a newer version has been
+// installed and is waiting, and reloads onto it once applied.
+const useServiceWorker = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(
+    null
+  );
+  const updateRequested = useRef(false);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+    let active = true;
+    let registration: ServiceWorkerRegistration | null = null;
+
+    // Without a controller this is the first install, not an update.
+    const reportWaiting = (worker: ServiceWorker | null) => {
+      if (active && worker && navigator.serviceWorker.controller) {
+        setWaitingWorker(worker);
+      }
+    };
+
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .then((result) => {
+        registration = result;
+        reportWaiting(result.waiting);
+        result.addEventListener('updatefound', () => {
+          const installing = result.installing;
+          installing?.addEventListener('statechange', () => {
+            if (installing.state === 'installed') {
+              reportWaiting(installing);
+            }
+          });
+        });
+      })
+      .catch(() => undefined);
+
+    // Browsers look for a new version on navigation; an installed app can
+    // stay open for days, so look again whenever it comes back into view.
+    const checkForUpdate = () => {
+      if (document.visibilityState === 'visible') {
+        registration?.update().catch(() => undefined);
+      }
+    };
+    // The first install also claims the page; only an accepted update
+    // should reload it.
+    const handleControllerChange = () => {
+      if (updateRequested.current) {
+        window.location.reload();
+      }
+    };
+
+    document.addEventListener('visibilitychange', checkForUpdate);
+    navigator.serviceWorker.addEventListener(
+      'controllerchange',
+      handleControllerChange
+    );
+    return () => {
+      active = false;
+      document.removeEventListener('visibilitychange', checkForUpdate);
+      navigator.serviceWorker.removeEventListener(
+        'controllerchange',
+        handleControllerChange
+      );
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    updateRequested.current = true;
+    waitingWorker?.postMessage({ type: 'skipWaiting' });
+  }, [waitingWorker]);
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate };
+};
+
+export default useServiceWorker;
@@ -0,0 +1,351 @@
+import { formatDateKey } from './habits';
+
+// Bundled adhkar for the guided reader, so it works offline. Arabic text is
+// fully vowelled; translations are meant as a reading aid.
+
+export type AdhkarSetId = 'morning' | 'evening' | 'sleep';
+
+export type AdhkarItem = {
+  id: string;
+  arabic: string;
+  transliteration: string;
+  translation: string;
+  repeat: number;
+};
+
+// Counts read so far today, per set and item.
+export type AdhkarProgress = {
+  // YYYY-MM-DD the counts belong to; older progress is discarded.
+  date: string;
+  counts: Partial<Record<AdhkarSetId, Record<string, number>>>;
+};
+
+export const ADHKAR_PROGRESS_STORAGE_KEY = 'sunnah:adhkarProgress';
+
+export const adhkarSetIds: AdhkarSetId[] = ['morning', 'evening', 'sleep'];
+
+// The habit each set ticks when it is finished.
+export const adhkarSetHabits = {
+  morning: 'morningDhikr',
+  evening: 'eveningDhikr',
+  sleep: 'sleepDhikr',
+} as const satisfies Record<AdhkarSetId, string>;
+
+const ayatAlKursi: AdhkarItem = {
+  id: 'ayatAlKursi',
+  arabic:
+    'اللَّهُ لَا إِلَٰهَ إِلَّا هُوَ الْحَيُّ الْقَيُّومُ ۚ لَا تَأْخُذُهُ سِنَةٌ وَلَا نَوْمٌ ۚ لَّهُ مَا فِي السَّمَاوَاتِ وَمَا فِي الْأَرْضِ ۗ مَن ذَا الَّذِي يَشْفَعُ عِندَهُ إِلَّا بِإِذْنِهِ ۚ يَعْلَمُ مَا بَيْنَ أَيْدِيهِمْ وَمَا خَلْفَهُمْ ۖ وَلَا يُحِيطُونَ بِشَيْءٍ مِّنْ عِلْمِهِ إِلَّا بِمَا شَاءَ ۚ وَسِعَ كُرْسِيُّهُ السَّمَاوَاتِ وَالْأَرْضَ ۖ وَلَا يَئُودُهُ حِفْظُهُمَا ۚ وَهُوَ الْعَلِيُّ الْعَظِيمُ',
+  transliteration:
+    "Allahu la ilaha illa huwa al-hayyu al-qayyum. La ta'khudhuhu sinatun wa la nawm. Lahu ma fi as-samawati wa ma fi al-ard. Man dha alladhi yashfa'u 'indahu illa bi-idhnih. Ya'lamu ma bayna aydihim wa ma khalfahum, wa la yuhituna bi-shay'in min 'ilmihi illa bima sha'. Wasi'a kursiyyuhu as-samawati wa al-ard, wa la ya'uduhu hifzuhuma, wa huwa al-'aliyyu al-'azim.",
+  translation:
+    'Allah! There is no god but He, the Ever-Living, the Sustainer of all. Neither drowsiness nor sleep overtakes Him. To Him belongs whatever is in the heavens and the earth. Who could intercede with Him except by His permission? He knows what is before them and what is behind them, and they encompass nothing of His knowledge except what He wills. His Throne extends over the heavens and the earth, and guarding them does not tire Him. He is the Most High, the Most Great. (2:255)',
+  repeat: 1,
+};
+
+const ikhlas: AdhkarItem = {
+  id: 'ikhlas',
+  arabic:
+    'بِسْمِ اللَّهِ الرَّحْمَٰنِ الرَّحِيمِ ۝ قُلْ هُوَ اللَّهُ أَحَدٌ ۝ اللَّهُ الصَّمَدُ ۝ لَمْ يَلِدْ وَلَمْ يُولَدْ ۝ وَلَمْ يَكُن لَّهُ كُفُوًا أَحَدٌ',
+  transliteration:
+    "Bismillahir-rahmanir-rahim. Qul huwa Allahu ahad. Allahu as-samad. Lam yalid wa lam yulad. Wa lam yakun lahu kufuwan ahad.",
+  translation:
+    'In the name of Allah, the Most Merciful, the Most Compassionate. Say: He is Allah, the One. Allah, the Eternal Refuge. He neither begets nor is born, and there is none comparable to Him. (112)',
+  repeat: 3,
+};
+
+const falaq: AdhkarItem = {
+  id: 'falaq',
+  arabic:
+    'بِسْمِ اللَّهِ الرَّحْمَٰنِ الرَّحِيمِ ۝ قُلْ أَعُوذُ بِرَبِّ الْفَلَقِ ۝ مِن شَرِّ مَا خَلَقَ ۝ وَمِن شَرِّ غَاسِقٍ إِذَا وَقَبَ ۝ وَمِن شَرِّ النَّفَّاثَاتِ فِي الْعُقَدِ ۝ وَمِن شَرِّ حَاسِدٍ إِذَا حَسَدَ',
+  transliteration:
+    "Bismillahir-rahmanir-rahim. Qul a'udhu bi-rabbil-falaq. Min sharri ma khalaq. Wa min sharri ghasiqin idha waqab. Wa min sharrin-naffathati fil-'uqad. Wa min sharri hasidin idha hasad.",
+  translation:
+    'In the name of Allah, the Most Merciful, the Most Compassionate. Say: I seek refuge in the Lord of daybreak, from the evil of what He created, from the evil of the darkness when it settles, from the evil of those who blow on knots, and from the evil of an envier when he envies. (113)',
+  repeat: 3,
+};
+
+const nas: AdhkarItem = {
+  id: 'nas',
+  arabic:
+    'بِسْمِ اللَّهِ الرَّحْمَٰنِ الرَّحِيمِ ۝ قُلْ أَعُوذُ بِرَبِّ النَّاسِ ۝ مَلِكِ النَّاسِ ۝ إِلَٰهِ النَّاسِ ۝ مِن شَرِّ الْوَسْوَاسِ الْخَنَّاسِ ۝ الَّذِي يُوَسْوِسُ فِي صُدُورِ النَّاسِ ۝ مِنَ الْجِنَّةِ وَالنَّاسِ',
+  transliteration:
+    "Bismillahir-rahmanir-rahim. Qul a'udhu bi-rabbin-nas. Malikin-nas. Ilahin-nas. Min sharril-waswasil-khannas. Alladhi yuwaswisu fi sudurin-nas. Minal-jinnati wan-nas.",
+  translation:
+    'In the name of Allah, the Most Merciful, the Most Compassionate. Say: I seek refuge in the Lord of mankind, the King of mankind, the God of mankind, from the evil of the retreating whisperer, who whispers in the hearts of mankind, from among the jinn and mankind. (114)',
+  repeat: 3,
+};
+
+const sayyidAlIstighfar: AdhkarItem = {
+  id: 'sayyidAlIstighfar',
+  arabic:
+    'اللَّهُمَّ أَنْتَ رَبِّي لَا إِلَٰهَ إِلَّا أَنْتَ، خَلَقْتَنِي وَأَنَا عَبْدُكَ، وَأَنَا عَلَىٰ عَهْدِكَ وَوَعْدِكَ مَا اسْتَطَعْتُ، أَعُوذُ بِكَ مِنْ شَرِّ مَا صَنَعْتُ، أَبُوءُ لَكَ بِنِعْمَتِكَ عَلَيَّ، وَأَبُوءُ بِذَنْبِي، فَاغْفِرْ لِي فَإِنَّهُ لَا يَغْفِرُ الذُّنُوبَ إِلَّا أَنْتَ',
+  transliteration:
+    "Allahumma anta rabbi la ilaha illa ant, khalaqtani wa ana 'abduk, wa ana 'ala 'ahdika wa wa'dika mastata't, a'udhu bika min sharri ma sana't, abu'u laka bi-ni'matika 'alayy, wa abu'u bi-dhanbi, faghfir li fa-innahu la yaghfirudh-dhunuba illa ant.",
+  translation:
+    'O Allah, You are my Lord; there is no god but You. You created me and I am Your servant, and I keep Your covenant and promise as best I can. I seek refuge in You from the evil of what I have done. I acknowledge Your favour upon me and I acknowledge my sin, so forgive me, for none forgives sins but You.',
+  repeat: 1,
+};
+
+const bismillahiLaYadurr: AdhkarItem = {
+  id: 'bismillahiLaYadurr',
+  arabic:
+    'بِسْمِ اللَّهِ الَّذِي لَا يَضُرُّ مَعَ اسْمِهِ شَيْءٌ فِي الْأَرْضِ وَلَا فِي السَّمَاءِ وَهُوَ السَّمِيعُ الْعَلِيمُ',
+  transliteration:
+    "Bismillahil-ladhi la yadurru ma'asmihi shay'un fil-ardi wa la fis-sama'i wa huwas-sami'ul-'alim.",
+  translation:
+    'In the name of Allah, with whose name nothing on earth or in the heavens can cause harm, and He is the All-Hearing, the All-Knowing.',
+  repeat: 3,
+};
+
+const raditu: AdhkarItem = {
+  id: 'raditu',
+  arabic:
+    'رَضِيتُ بِاللَّهِ رَبًّا، وَبِالْإِسْلَامِ دِينًا، وَبِمُحَمَّدٍ صَلَّى اللَّهُ عَلَيْهِ وَسَلَّمَ نَبِيًّا',
+  transliteration:
+    "Raditu billahi rabba, wa bil-islami dina, wa bi-Muhammadin sallallahu 'alayhi wa sallama nabiyya.",
+  translation:
+    'I am pleased with Allah as my Lord, with Islam as my religion, and with Muhammad ﷺ as my Prophet.',
+  repeat: 3,
+};
+
+const hasbiyallah: AdhkarItem = {
+  id: 'hasbiyallah',
+  arabic:
+    'حَسْبِيَ اللَّهُ لَا إِلَٰهَ إِلَّا هُوَ، عَلَيْهِ تَوَكَّلْتُ، وَهُوَ رَبُّ الْعَرْشِ الْعَظِيمِ',
+  transliteration:
+    "Hasbiyallahu la ilaha illa huwa, 'alayhi tawakkaltu, wa huwa rabbul-'arshil-'azim.",
+  translation:
+    'Allah is sufficient for me; there is no god but He. In Him I put my trust, and He is the Lord of the Mighty Throne.',
+  repeat: 7,
+};
+
+const yaHayyu: AdhkarItem = {
+  id: 'yaHayyu',
+  arabic:
+    'يَا حَيُّ يَا قَيُّومُ، بِرَحْمَتِكَ أَسْتَغِيثُ، أَصْلِحْ لِي شَأْنِي كُلَّهُ، وَلَا تَكِلْنِي إِلَىٰ نَفْسِي طَرْفَةَ عَيْنٍ',
+  transliteration:
+    "Ya hayyu ya qayyum, bi-rahmatika astaghith, aslih li sha'ni kullah, wa la takilni ila nafsi tarfata 'ayn.",
+  translation:
+    'O Ever-Living, O Sustainer of all, by Your mercy I seek help. Set right all my affairs and do not leave me to myself even for the blink of an eye.',
+  repeat: 1,
+};
+
+const subhanallahiWaBihamdihi: AdhkarItem = {
+  id: 'subhanallahiWaBihamdihi',
+  arabic: 'سُبْحَانَ اللَّهِ وَبِحَمْدِهِ',
+  transliteration: 'Subhanallahi wa bihamdih.',
+  translation: 'Glory be to Allah and praise be to Him.',
+  repeat: 100,
+};
+
+export const adhkarSets: Record<AdhkarSetId, AdhkarItem[]> = {
+  morning: [
+    ayatAlKursi,
+    ikhlas,
+    falaq,
+    nas,
+    {
+      id: 'asbahna',
+      arabic:
+        'أَصْبَحْنَا وَأَصْبَحَ الْمُلْكُ لِلَّهِ، وَالْحَمْدُ لِلَّهِ، لَا إِلَٰهَ إِلَّا اللَّهُ وَحْدَهُ لَا شَرِيكَ لَهُ، لَهُ الْمُلْكُ وَلَهُ الْحَمْدُ وَهُوَ عَلَىٰ كُلِّ شَيْءٍ قَدِيرٌ، رَبِّ أَسْأَلُكَ خَيْرَ مَا فِي هَٰذَا الْيَوْمِ وَخَيْرَ مَا بَعْدَهُ، وَأَعُوذُ بِكَ مِنْ شَرِّ مَا فِي هَٰذَا الْيَوْمِ وَشَرِّ مَا بَعْدَهُ، رَبِّ أَعُوذُ بِكَ مِنَ الْكَسَلِ وَسُوءِ الْكِبَرِ، رَبِّ أَعُوذُ بِكَ مِنْ عَذَابٍ فِي النَّارِ وَعَذَابٍ فِي الْقَبْرِ',
+      transliteration:
+        "Asbahna wa asbahal-mulku lillah, wal-hamdu lillah, la ilaha illallahu wahdahu la sharika lah, lahul-mulku wa lahul-hamdu wa huwa 'ala kulli shay'in qadir. Rabbi as'aluka khayra ma fi hadhal-yawmi wa khayra ma ba'dah, wa a'udhu bika min sharri ma fi hadhal-yawmi wa sharri ma ba'dah. Rabbi a'udhu bika minal-kasali wa su'il-kibar. Rabbi a'udhu bika min 'adhabin fin-nari wa 'adhabin fil-qabr.",
+      translation:
+        'We have entered the morning and the dominion belongs to Allah, and all praise is for Allah. There is no god but Allah alone, without partner; His is the dominion and His is the praise, and He has power over all things. My Lord, I ask You for the good of this day and the good after it, and I seek refuge in You from the evil of this day and the evil after it. My Lord, I seek refuge in You from laziness and the misery of old age. My Lord, I seek refuge in You from punishment in the Fire and punishment in the grave.',
+      repeat: 1,
+    },
+    {
+      id: 'bikaAsbahna',
+      arabic:
+        'اللَّهُمَّ بِكَ أَصْبَحْنَا، وَبِكَ أَمْسَيْنَا، وَبِكَ نَحْيَا، وَبِكَ نَمُوتُ، وَإِلَيْكَ النُّشُورُ',
+      transliteration:
+        'Allahumma bika asbahna, wa bika amsayna, wa bika nahya, wa bika namutu, wa ilaykan-nushur.',
+      translation:
+        'O Allah, by You we enter the morning and by You we enter the evening, by You we live and by You we die, and to You is the resurrection.',
+      repeat: 1,
+    },
+    sayyidAlIstighfar,
+    bismillahiLaYadurr,
+    raditu,
+    hasbiyallah,
+    yaHayyu,
+    {
+      id: 'tahlil',
+      arabic:
+        'لَا إِلَٰهَ إِلَّا اللَّهُ وَحْدَهُ لَا شَرِيكَ لَهُ، لَهُ الْمُلْكُ وَلَهُ الْحَمْدُ، وَهُوَ عَلَىٰ كُلِّ شَيْءٍ قَدِيرٌ',
+      transliteration:
+        "La ilaha illallahu wahdahu la sharika lah, lahul-mulku wa lahul-hamd, wa huwa 'ala kulli shay'in qadir.",
+      translation:
+        'There is no god but Allah alone, without partner. His is the dominion and His is the praise, and He has power over all things.',
+      repeat: 10,
+    },
+    subhanallahiWaBihamdihi,
+  ],
+  evening: [
+    ayatAlKursi,
+    ikhlas,
+    falaq,
+    nas,
+    {
+      id: 'amsayna',
+      arabic:
+        'أَمْسَيْنَا وَأَمْسَى الْمُلْكُ لِلَّهِ، وَالْحَمْدُ لِلَّهِ، لَا إِلَٰهَ إِلَّا اللَّهُ وَحْدَهُ لَا شَرِيكَ لَهُ، لَهُ الْمُلْكُ وَلَهُ الْحَمْدُ وَهُوَ عَلَىٰ كُلِّ شَيْءٍ قَدِيرٌ، رَبِّ أَسْأَلُكَ خَيْرَ مَا فِي هَٰذِهِ اللَّيْلَةِ وَخَيْرَ مَا بَعْدَهَا، وَأَعُوذُ بِكَ مِنْ شَرِّ مَا فِي هَٰذِهِ اللَّيْلَةِ وَشَرِّ مَا بَعْدَهَا، رَبِّ أَعُوذُ بِكَ مِنَ الْكَسَلِ وَسُوءِ الْكِبَرِ، رَبِّ أَعُوذُ بِكَ مِنْ عَذَابٍ فِي النَّارِ وَعَذَابٍ فِي الْقَبْرِ',
+      transliteration:
+        "Amsayna wa amsal-mulku lillah, wal-hamdu lillah, la ilaha illallahu wahdahu la sharika lah, lahul-mulku wa lahul-hamdu wa huwa 'ala kulli shay'in qadir. Rabbi as'aluka khayra ma fi hadhihil-laylati wa khayra ma ba'daha, wa a'udhu bika min sharri ma fi hadhihil-laylati wa sharri ma ba'daha. Rabbi a'udhu bika minal-kasali wa su'il-kibar. Rabbi a'udhu bika min 'adhabin fin-nari wa 'adhabin fil-qabr.",
+      translation:
+        'We have entered the evening and the dominion belongs to Allah, and all praise is for Allah. There is no god but Allah alone, without partner; His is the dominion and His is the praise, and He has power over all things. My Lord, I ask You for the good of this night and the good after it, and I seek refuge in You from the evil of this night and the evil after it. My Lord, I seek refuge in You from laziness and the misery of old age. My Lord, I seek refuge in You from punishment in the Fire and punishment in the grave.',
+      repeat: 1,
+    },
+    {
+      id: 'bikaAmsayna',
+      arabic:
+        'اللَّهُمَّ بِكَ أَمْسَيْنَا، وَبِكَ أَصْبَحْنَا، وَبِكَ نَحْيَا، وَبِكَ نَمُوتُ، وَإِلَيْكَ الْمَصِيرُ',
+      transliteration:
+        'Allahumma bika amsayna, wa bika asbahna, wa bika nahya, wa bika namutu, wa ilaykal-masir.',
+      translation:
+        'O Allah, by You we enter the evening and by You we enter the morning, by You we live and by You we die, and to You is the return.',
+      repeat: 1,
+    },
+    sayyidAlIstighfar,
+    bismillahiLaYadurr,
+    raditu,
+    hasbiyallah,
+    yaHayyu,
+    {
+      id: 'kalimatillah',
+      arabic: 'أَعُوذُ بِكَلِمَاتِ اللَّهِ التَّامَّاتِ مِنْ شَرِّ مَا خَلَقَ',
+      transliteration: "A'udhu bi-kalimatillahit-tammati min sharri ma khalaq.",
+      translation:
+        'I seek refuge in the perfect words of Allah from the evil of what He has created.',
+      repeat: 3,
+    },
+    subhanallahiWaBihamdihi,
+  ],
+  sleep: [
+    ayatAlKursi,
+    {
+      id: 'baqarahEnd',
+      arabic:
+        'آمَنَ الرَّسُولُ بِمَا أُنزِلَ إِلَيْهِ مِن رَّبِّهِ وَالْمُؤْمِنُونَ ۚ كُلٌّ آمَنَ بِاللَّهِ وَمَلَائِكَتِهِ وَكُتُبِهِ وَرُسُلِهِ لَا نُفَرِّقُ بَيْنَ أَحَدٍ مِّن رُّسُلِهِ ۚ وَقَالُوا سَمِعْنَا وَأَطَعْنَا ۖ غُفْرَانَكَ رَبَّنَا وَإِلَيْكَ الْمَصِيرُ ۝ لَا يُكَلِّفُ اللَّهُ نَفْسًا إِلَّا وُسْعَهَا ۚ لَهَا مَا كَسَبَتْ وَعَلَيْهَا مَا اكْتَسَبَتْ ۗ رَبَّنَا لَا تُؤَاخِذْنَا إِن نَّسِينَا أَوْ أَخْطَأْنَا ۚ رَبَّنَا وَلَا تَحْمِلْ عَلَيْنَا إِصْرًا كَمَا حَمَلْتَهُ عَلَى الَّذِينَ مِن قَبْلِنَا ۚ رَبَّنَا وَلَا تُحَمِّلْنَا مَا لَا طَاقَةَ لَنَا بِهِ ۖ وَاعْفُ عَنَّا وَاغْفِرْ لَنَا وَارْحَمْنَا ۚ أَنتَ مَوْلَانَا فَانصُرْنَا عَلَى الْقَوْمِ الْكَافِرِينَ',
+      transliteration:
+        "Amanar-rasulu bima unzila ilayhi min rabbihi wal-mu'minun. Kullun amana billahi wa mala'ikatihi wa kutubihi wa rusulih, la nufarriqu bayna ahadin min rusulih. Wa qalu sami'na wa ata'na, ghufranaka rabbana wa ilaykal-masir. La yukallifullahu nafsan illa wus'aha, laha ma kasabat wa 'alayha maktasabat. Rabbana la tu'akhidhna in nasina aw akhta'na. Rabbana wa la tahmil 'alayna isran kama hamaltahu 'alal-ladhina min qablina. Rabbana wa la tuhammilna ma la taqata lana bih. Wa'fu 'anna waghfir lana warhamna, anta mawlana fansurna 'alal-qawmil-kafirin.",
+      translation:
+        'The Messenger believes in what was sent down to him from his Lord, and so do the believers. All believe in Allah, His angels, His books and His messengers: "We make no distinction between any of His messengers." And they say, "We hear and obey. Your forgiveness, our Lord; to You is the return." Allah does not burden a soul beyond its capacity. It gets what good it earned and bears what evil it earned. Our Lord, do not hold us to account if we forget or err. Our Lord, do not lay on us a burden like the one You laid on those before us. Our Lord, do not burden us with what we cannot bear. Pardon us, forgive us and have mercy on us. You are our Protector, so help us against the disbelieving people. (2:285-286)',
+      repeat: 1,
+    },
+    ikhlas,
+    falaq,
+    nas,
+    {
+      id: 'bismikaAmutu',
+      arabic: 'بِاسْمِكَ اللَّهُمَّ أَمُوتُ وَأَحْيَا',
+      transliteration: 'Bismika Allahumma amutu wa ahya.',
+      translation: 'In Your name, O Allah, I die and I live.',
+      repeat: 1,
+    },
+    {
+      id: 'qiniAdhabak',
+      arabic: 'اللَّهُمَّ قِنِي عَذَابَكَ يَوْمَ تَبْعَثُ عِبَادَكَ',
+      transliteration: "Allahumma qini 'adhabaka yawma tab'athu 'ibadak.",
+      translation:
+        'O Allah, protect me from Your punishment on the day You resurrect Your servants.',
+      repeat: 3,
+    },
+    {
+      id: 'subhanallah',
+      arabic: 'سُبْحَانَ اللَّهِ',
+      transliteration: 'Subhanallah.',
+      translation: 'Glory be to Allah.',
+      repeat: 33,
+    },
+    {
+      id: 'alhamdulillah',
+      arabic: 'الْحَمْدُ لِلَّهِ',
+      transliteration: 'Alhamdulillah.',
+      translation: 'All praise is for Allah.',
+      repeat: 33,
+    },
+    {
+      id: 'allahuAkbar',
+      arabic: 'اللَّهُ أَكْبَرُ',
+      transliteration: 'Allahu akbar.',
+      translation: 'Allah is the Greatest.',
+      repeat: 34,
+    },
+  ],
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+export const parseAdhkarProgress = (
+  stored: string | null,
+  today: Date
+): AdhkarProgress => {
+  const empty: AdhkarProgress = { date: formatDateKey(today), counts: {} };
+  if (!stored) {
+    return empty;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<
+      Record<keyof AdhkarProgress, unknown>
+    >;
+    if (
+      parsed.date !== empty.date ||
+      !parsed.counts ||
+      typeof parsed.counts !== 'object'
+    ) {
+      return empty;
+    }
+    const storedCounts = parsed.counts as Record<string, unknown>;
+    const counts: AdhkarProgress['counts'] = {};
+    adhkarSetIds.forEach((setId) => {
+      const setCounts = storedCounts[setId];
+      if (setCounts && typeof setCounts === 'object') {
+        counts[setId] = Object.fromEntries(
+          Object.entries(setCounts as Record<string, unknown>).filter(
+            (entry): entry is [string, number] => isCount(entry[1])
+          )
+        );
+      }
+    });
+    return { date: empty.date, counts };
+  } catch {
+    return empty;
+  }
+};
+
+export const getAdhkarCount = (
+  progress: AdhkarProgress,
+  setId: AdhkarSetId,
+  itemId: string
+) => progress.counts[setId]?.[itemId] ?? 0;
+
+// Counts are clamped to the item's repeat count.
+export const setAdhkarCount = (
+  progress: AdhkarProgress,
+  setId: AdhkarSetId,
+  item: AdhkarItem,
+  count: number
+): AdhkarProgress => ({
+  ...progress,
+  counts: {
+    ...progress.counts,
+    [setId]: {
+      ...progress.counts[setId],
+      [item.id]: Math.min(item.repeat, Math.max(0, count)),
+    },
+  },
+});
+
+export const getAdhkarSetProgress = (
+  progress: AdhkarProgress,
+  setId: AdhkarSetId
+) => {
+  const items = adhkarSets[setId];
+  const done = items.filter(
+    (item) => getAdhkarCount(progress, setId, item.id) >= item.repeat
+  ).length;
+  return { done, total: items.length, complete: done === items.length };
+};
@@ -0,0 +1,221 @@
+import { getHabitKeysForDate, type CustomHabit } from './customHabits';
+import {
+  getHijriMonthRange,
+  getHijriParts,
+  type HijriSettings,
+} from './hijri';
+import {
+  formatDateKey,
+  getCompletionPercent,
+  isHabitDone,
+  type DayRecord,
+  type HabitKey,
+  type Habits,
+} from './habits';
+import { prayerStatuses, type PrayerStatus } from './prayerStatus';
+import { PRAYER_NAMES, type PrayerName } from './prayerTimes';
+import { habitAppliesOn } from './streaks';
+
+export type MonthCalendar = 'gregorian' | 'hijri';
+
+export type TrendPoint = {
+  // First day of the month bucket.
+  start: Date;
+  // Average daily completion, or null when no tracked day fell in it.
+  main: number | null;
+  optional: number | null;
+};
+
+export type PrayerConsistency = Record<
+  PrayerName,
+  Record<PrayerStatus | 'unmarked', number>
+>;
+
+export const ANALYTICS_WINDOWS = [7, 30, 90];
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const average = (values: number[]) =>
+  values.length === 0
+    ? null
+    : Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Days from `days - 1` days ago up to today, newest first. Nothing before
+// the first stored record is counted, so a new user is not marked down for
+// days they were not tracking yet.
+const getTrackedDays = (
+  records: Map<string, DayRecord>,
+  today: Date,
+  days: number
+) => {
+  const firstKey = [...records.keys()].sort()[0];
+  if (!firstKey) {
+    return [];
+  }
+  const result: Date[] = [];
+  for (let index = 0; index < days; index += 1) {
+    const date = addDays(today, -index);
+    if (formatDateKey(date) < firstKey) {
+      break;
+    }
+    result.push(date);
+  }
+  return result;
+};
+
+// Completion percentage per habit for each of ANALYTICS_WINDOWS, or null for
+// a window in which the habit never applied.
+export const computeHabitRates = (
+  records: Map<string, DayRecord>,
+  habits: HabitKey[],
+  customHabits: CustomHabit[],
+  today: Date,
+  hijriSettings: HijriSettings
+) => {
+  const longest = Math.max(...ANALYTICS_WINDOWS);
+  const tallies = new Map(
+    habits.map((habit) => [
+      habit,
+      ANALYTICS_WINDOWS.map(() => ({ done: 0, applicable: 0 })),
+    ])
+  );
+
+  getTrackedDays(records, today, longest).forEach((date, index) => {
+    const record = records.get(formatDateKey(date));
+    habits.forEach((habit) => {
+      if (!habitAppliesOn(habit, date, customHabits, hijriSettings)) {
+        return;
+      }
+      const done = isHabitDone(record?.[habit]);
+      ANALYTICS_WINDOWS.forEach((window, windowIndex) => {
+        if (index < window) {
+          const tally = tallies.get(habit)![windowIndex];
+          tally.applicable += 1;
+          tally.done += done ? 1 : 0;
+        }
+      });
+    });
+  });
+
+  return Object.fromEntries(
+    habits.map((habit) => [
+      habit,
+      tallies
+        .get(habit)!
+        .map(({ done, applicable }) =>
+          applicable === 0 ? null : Math.round((done / applicable) * 100)
+        ),
+    ])
+  ) as Record<HabitKey, (number | null)[]>;
+};
+
+const getMonthBucket = (
+  today: Date,
+  calendar: MonthCalendar,
+  monthsAgo: number,
+  hijriSettings: HijriSettings
+) => {
+  if (calendar === 'gregorian') {
+    return {
+      start: new Date(today.getFullYear(), today.getMonth() - monthsAgo, 1),
+      end: new Date(today.getFullYear(), today.getMonth() - monthsAgo + 1, 0),
+    };
+  }
+  const { year, month } = getHijriParts(today, hijriSettings);
+  const index = year * 12 + (month - 1) - monthsAgo;
+  return getHijriMonthRange(
+    Math.floor(index / 12),
+    (index % 12) + 1,
+    hijriSettings
+  );
+};
+
+// Average main and Taqarrub completion per month, oldest first.
+export const computeCompletionTrend = (
+  records: Map<string, DayRecord>,
+  enabledHabits: (keyof Habits)[],
+  customHabits: CustomHabit[],
+  today: Date,
+  calendar: MonthCalendar,
+  months: number,
+  hijriSettings: HijriSettings
+): TrendPoint[] => {
+  const firstKey = [...records.keys()].sort()[0];
+  const todayKey = formatDateKey(today);
+
+  return Array.from({ length: months }, (_, index) => {
+    const { start, end } = getMonthBucket(
+      today,
+      calendar,
+      months - 1 - index,
+      hijriSettings
+    );
+    const main: number[] = [];
+    const optional: number[] = [];
+    for (
+      let cursor = new Date(start);
+      cursor <= end && formatDateKey(cursor) <= todayKey;
+      cursor.setDate(cursor.getDate() + 1)
+    ) {
+      const dateKey = formatDateKey(cursor);
+      if (!firstKey || dateKey < firstKey) {
+        continue;
+      }
+      const record = records.get(dateKey) ?? {};
+      const keys = getHabitKeysForDate(enabledHabits, customHabits, cursor);
+      main.push(getCompletionPercent(record, keys.main));
+      optional.push(getCompletionPercent(record, keys.optional));
+    }
+    return { start, main: average(main), optional: average(optional) };
+  });
+};
+
+// Average main completion per weekday (0 is Sunday) over the last `days`.
+export const computeWeekdayRates = (
+  records: Map<string, DayRecord>,
+  enabledHabits: (keyof Habits)[],
+  customHabits: CustomHabit[],
+  today: Date,
+  days: number
+) => {
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+  getTrackedDays(records, today, days).forEach((date) => {
+    const record = records.get(formatDateKey(date)) ?? {};
+    byWeekday[date.getDay()].push(
+      getCompletionPercent(
+        record,
+        getHabitKeysForDate(enabledHabits, customHabits, date).main
+      )
+    );
+  });
+  return byWeekday.map((values, weekday) => ({
+    weekday,
+    percent: average(values),
+  }));
+};
+
+// How each fard prayer was recorded over the last `days`.
+export const computePrayerConsistency = (
+  records: Map<string, DayRecord>,
+  today: Date,
+  days: number
+) => {
+  const consistency = Object.fromEntries(
+    PRAYER_NAMES.map((prayer) => [
+      prayer,
+      Object.fromEntries(
+        [...prayerStatuses, 'unmarked'].map((status) => [status, 0])
+      ),
+    ])
+  ) as PrayerConsistency;
+
+  getTrackedDays(records, today, days).forEach((date) => {
+    const record = records.get(formatDateKey(date));
+    PRAYER_NAMES.forEach((prayer) => {
+      consistency[prayer][record?.[prayer] ?? 'unmarked'] += 1;
+    });
+  });
+
+  return consistency;
+};
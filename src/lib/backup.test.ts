@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseBackup } from './backup';
+
+describe('parseBackup', () => {
+  // East of Greenwich, where local midnight falls on the previous UTC date.
+  beforeEach(() => {
+    vi.stubEnv('TZ', 'Asia/Riyadh');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps an unversioned dump to the days it recorded', () => {
+    expect(new Date(2026, 9, 1).getTimezoneOffset()).toBe(-180);
+    const outcome = parseBackup(
+      JSON.stringify({
+        'habits:2026-10-01': JSON.stringify({ fajr: true }),
+        'habits:2026-10-04': JSON.stringify({ isha: true }),
+      })
+    );
+
+    expect('preview' in outcome).toBe(true);
+    if ('preview' in outcome) {
+      expect([...outcome.preview.records.keys()].sort()).toEqual([
+        '2026-10-01',
+        '2026-10-04',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  CUSTOM_HABITS_STORAGE_KEY,
+  parseCustomHabits,
+} from './customHabits';
+import {
+  defaultHabits,
+  formatDateKey,
+  getHabitCompletion,
+  isFardPrayerKey,
+  isRakahCount,
+  normalizeDayRecord,
+  parseDateKey,
+  type DayRecord,
+  type HabitKey,
+  type Habits,
+} from './habits';
+import { isFastStatus } from './fastStatus';
+import { isPrayerStatus, type PrayerStatus } from './prayerStatus';
+import { SETTINGS_KEY_PREFIX, type StorageRepository } from './storage';
+import { stampDayChanges } from './sync';
+
+// 2: prayers hold a status string instead of a boolean.
+// 3: days carry Ramadan entries (fast status, Taraweeh rak'ahs).
+// 4: days carry Jumu'ah entries.
+export const BACKUP_SCHEMA_VERSION = 4;
+const BACKUP_APP_ID = 'sunnah-tracker';
+
+export type Backup = {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  records: Record<string, DayRecord>;
+  settings: Record<string, string>;
+};
+
+export type BackupPreview = {
+  schemaVersion: number;
+  records: Map<string, DayRecord>;
+  settings: Record<string, string>;
+  firstDate: string | null;
+  lastDate: string | null;
+  skippedRecords: number;
+};
+
+export type BackupError = 'invalidJson' | 'unknownFormat' | 'newerVersion';
+
+export type ImportMode = 'merge' | 'replace';
+
+const habitKeys = Object.keys(defaultHabits) as (keyof Habits)[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const createBackup = async (
+  storage: StorageRepository
+): Promise<Backup> => ({
+  app: BACKUP_APP_ID,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  records: Object.fromEntries(await storage.getDays()),
+  settings: await storage.getSettings(),
+});
+
+// Accepts bare YYYY-MM-DD keys, raw `habits:` storage keys and full ISO
+// timestamps. A timestamp is read as the UTC date older builds keyed days
+// by; parseBackup then places those the way the storage migration does.
+const normalizeDateKey = (key: string): string | null => {
+  const bare = key.startsWith('habits:') ? key.slice('habits:'.length) : key;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(bare)) {
+    return Number.isNaN(new Date(bare).getTime())
+      ? null
+      : normalizeDateKey(bare.slice(0, 10));
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(bare)) {
+    return null;
+  }
+  return formatDateKey(parseDateKey(bare)) === bare ? bare : null;
+};
+
+const isValidHabitValue = (key: keyof Habits, value: unknown) => {
+  if (key === 'ramadanFast') {
+    return value === null || isFastStatus(value);
+  }
+  if (key === 'taraweehRakahs') {
+    return isRakahCount(value);
+  }
+  return (
+    typeof value === 'boolean' ||
+    (isFardPrayerKey(key) && (value === null || isPrayerStatus(value)))
+  );
+};
+
+// Checks a stored day against the Habits shape. Missing habits fall back to
+// their defaults; a value of the wrong type rejects the whole day. Prayers
+// may be statuses or, in older backups, booleans. Change times are kept so
+// synced devices can still tell which values are newer.
+const validateRecord = (value: unknown): DayRecord | null => {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const record: Record<string, unknown> = {};
+  for (const key of habitKeys) {
+    const habitValue = value[key];
+    if (habitValue === undefined) {
+      continue;
+    }
+    if (!isValidHabitValue(key, habitValue)) {
+      return null;
+    }
+    record[key] = habitValue;
+  }
+  Object.entries(value).forEach(([key, habitValue]) => {
+    if (key.startsWith('custom:') && typeof habitValue === 'boolean') {
+      record[key] = habitValue;
+    }
+  });
+  if (value.changedAt !== undefined) {
+    record.changedAt = value.changedAt;
+  }
+  return normalizeDayRecord(record);
+};
+
+const safeParse = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+export const parseBackup = (
+  text: string
+): { preview: BackupPreview } | { error: BackupError } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'invalidJson' };
+  }
+  if (!isPlainObject(parsed)) {
+    return { error: 'unknownFormat' };
+  }
+
+  let schemaVersion = 0;
+  let rawRecords: Record<string, unknown>;
+  let rawSettings: Record<string, unknown> = {};
+
+  if (parsed.app === BACKUP_APP_ID) {
+    if (typeof parsed.schemaVersion !== 'number') {
+      return { error: 'unknownFormat' };
+    }
+    if (parsed.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      return { error: 'newerVersion' };
+    }
+    if (!isPlainObject(parsed.records)) {
+      return { error: 'unknownFormat' };
+    }
+    schemaVersion = parsed.schemaVersion;
+    rawRecords = parsed.records;
+    rawSettings = isPlainObject(parsed.settings) ? parsed.settings : {};
+  } else {
+    // Unversioned dump of localStorage: `habits:*` days next to `sunnah:*`
+    // settings.
+    rawRecords = {};
+    Object.entries(parsed).forEach(([key, value]) => {
+      if (key.startsWith(SETTINGS_KEY_PREFIX)) {
+        rawSettings[key] = value;
+      } else if (key.startsWith('habits:')) {
+        rawRecords[key] =
+          typeof value === 'string' ? safeParse(value) : value;
+      }
+    });
+    if (Object.keys(rawRecords).length === 0) {
+      return { error: 'unknownFormat' };
+    }
+  }
+
+  const records = new Map<string, DayRecord>();
+  let skippedRecords = 0;
+  Object.entries(rawRecords).forEach(([key, value]) => {
+    const dateKey = normalizeDateKey(key);
+    const record = dateKey ? validateRecord(value) : null;
+    if (!dateKey || !record) {
+      skippedRecords += 1;
+      return;
+    }
+    records.set(dateKey, record);
+  });
+
+  const settings: Record<string, string> = {};
+  Object.entries(rawSettings).forEach(([key, value]) => {
+    if (key.startsWith(SETTINGS_KEY_PREFIX) && typeof value === 'string') {
+      settings[key] = value;
+    }
+  });
+
+  const dates = [...records.keys()].sort();
+  return {
+    preview: {
+      schemaVersion,
+      records,
+      settings,
+      firstDate: dates[0] ?? null,
+      lastDate: dates[dates.length - 1] ?? null,
+      skippedRecords,
+    },
+  };
+};
+
+const pickPrayerStatus = (
+  current: PrayerStatus | null,
+  incoming: PrayerStatus | null
+) => {
+  if (!current || !incoming) {
+    return current ?? incoming;
+  }
+  return getHabitCompletion(incoming) > getHabitCompletion(current)
+    ? incoming
+    : current;
+};
+
+const mergeHabitValue = (
+  habit: HabitKey,
+  current: DayRecord,
+  incoming: DayRecord
+) => {
+  if (isFardPrayerKey(habit)) {
+    return pickPrayerStatus(current[habit], incoming[habit]);
+  }
+  if (habit === 'ramadanFast') {
+    return current.ramadanFast ?? incoming.ramadanFast;
+  }
+  if (habit === 'taraweehRakahs') {
+    return Math.max(current.taraweehRakahs, incoming.taraweehRakahs);
+  }
+  return !!current[habit] || !!incoming[habit];
+};
+
+// Merging keeps every habit ticked on either side, the better status of
+// each prayer and this device's fast status, so nothing recorded on this
+// device is lost. Habits the merge changes are stamped as changed now, so
+// the next sync does not let older copies on other devices win. Replacing
+// clears local history and settings first.
+export const applyBackup = async (
+  storage: StorageRepository,
+  preview: BackupPreview,
+  mode: ImportMode
+) => {
+  const existing =
+    mode === 'merge' ? await storage.getDays() : new Map<string, DayRecord>();
+  const existingSettings = mode === 'merge' ? await storage.getSettings() : {};
+
+  if (mode === 'replace') {
+    await storage.clear();
+  }
+
+  const now = Date.now();
+  for (const [dateKey, record] of preview.records) {
+    const current = existing.get(dateKey);
+    if (!current) {
+      await storage.putDay(dateKey, record);
+      continue;
+    }
+    const merged: Record<string, unknown> = { ...current };
+    Object.keys(record)
+      .filter((key) => key !== 'changedAt')
+      .forEach((key) => {
+        const habit = key as HabitKey;
+        merged[habit] = mergeHabitValue(habit, current, record);
+      });
+    await storage.putDay(
+      dateKey,
+      stampDayChanges(current, merged as DayRecord, now)
+    );
+  }
+
+  for (const [key, value] of Object.entries(preview.settings)) {
+    const current = existingSettings[key] ?? null;
+    if (mode === 'merge' && key === CUSTOM_HABITS_STORAGE_KEY) {
+      // Keep local definitions and add any the backup knows about, so the
+      // imported `custom:` values still have a habit to belong to.
+      const local = parseCustomHabits(current);
+      const incoming = parseCustomHabits(value).filter(
+        (habit) => !local.some((candidate) => candidate.id === habit.id)
+      );
+      await storage.putSetting(key, JSON.stringify([...local, ...incoming]));
+      continue;
+    }
+    if (mode === 'merge' && current !== null) {
+      continue;
+    }
+    await storage.putSetting(key, value);
+  }
+};
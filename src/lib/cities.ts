@@ -0,0 +1,57 @@
+import type { CalculationMethod } from './prayerTimes';
+
+export type City = {
+  id: string;
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  // The method most local mosques follow; picked when the city is chosen.
+  method: CalculationMethod;
+};
+
+export const cities: City[] = [
+  { id: 'makkah', name: 'Makkah', country: 'Saudi Arabia', latitude: 21.4225, longitude: 39.8262, method: 'ummAlQura' },
+  { id: 'madinah', name: 'Madinah', country: 'Saudi Arabia', latitude: 24.4672, longitude: 39.6111, method: 'ummAlQura' },
+  { id: 'riyadh', name: 'Riyadh', country: 'Saudi Arabia', latitude: 24.7136, longitude: 46.6753, method: 'ummAlQura' },
+  { id: 'jeddah', name: 'Jeddah', country: 'Saudi Arabia', latitude: 21.5433, longitude: 39.1728, method: 'ummAlQura' },
+  { id: 'dubai', name: 'Dubai', country: 'United Arab Emirates', latitude: 25.2048, longitude: 55.2708, method: 'ummAlQura' },
+  { id: 'doha', name: 'Doha', country: 'Qatar', latitude: 25.2854, longitude: 51.531, method: 'ummAlQura' },
+  { id: 'kuwait', name: 'Kuwait City', country: 'Kuwait', latitude: 29.3759, longitude: 47.9774, method: 'mwl' },
+  { id: 'muscat', name: 'Muscat', country: 'Oman', latitude: 23.588, longitude: 58.3829, method: 'mwl' },
+  { id: 'cairo', name: 'Cairo', country: 'Egypt', latitude: 30.0444, longitude: 31.2357, method: 'egyptian' },
+  { id: 'alexandria', name: 'Alexandria', country: 'Egypt', latitude: 31.2001, longitude: 29.9187, method: 'egyptian' },
+  { id: 'amman', name: 'Amman', country: 'Jordan', latitude: 31.9454, longitude: 35.9284, method: 'mwl' },
+  { id: 'jerusalem', name: 'Jerusalem', country: 'Palestine', latitude: 31.7683, longitude: 35.2137, method: 'mwl' },
+  { id: 'beirut', name: 'Beirut', country: 'Lebanon', latitude: 33.8938, longitude: 35.5018, method: 'mwl' },
+  { id: 'damascus', name: 'Damascus', country: 'Syria', latitude: 33.5138, longitude: 36.2765, method: 'egyptian' },
+  { id: 'baghdad', name: 'Baghdad', country: 'Iraq', latitude: 33.3152, longitude: 44.3661, method: 'mwl' },
+  { id: 'istanbul', name: 'Istanbul', country: 'Turkey', latitude: 41.0082, longitude: 28.9784, method: 'mwl' },
+  { id: 'tehran', name: 'Tehran', country: 'Iran', latitude: 35.6892, longitude: 51.389, method: 'mwl' },
+  { id: 'casablanca', name: 'Casablanca', country: 'Morocco', latitude: 33.5731, longitude: -7.5898, method: 'mwl' },
+  { id: 'algiers', name: 'Algiers', country: 'Algeria', latitude: 36.7538, longitude: 3.0588, method: 'mwl' },
+  { id: 'tunis', name: 'Tunis', country: 'Tunisia', latitude: 36.8065, longitude: 10.1815, method: 'mwl' },
+  { id: 'khartoum', name: 'Khartoum', country: 'Sudan', latitude: 15.5007, longitude: 32.5599, method: 'egyptian' },
+  { id: 'lagos', name: 'Lagos', country: 'Nigeria', latitude: 6.5244, longitude: 3.3792, method: 'mwl' },
+  { id: 'nairobi', name: 'Nairobi', country: 'Kenya', latitude: -1.2921, longitude: 36.8219, method: 'mwl' },
+  { id: 'johannesburg', name: 'Johannesburg', country: 'South Africa', latitude: -26.2041, longitude: 28.0473, method: 'mwl' },
+  { id: 'karachi', name: 'Karachi', country: 'Pakistan', latitude: 24.8607, longitude: 67.0011, method: 'karachi' },
+  { id: 'lahore', name: 'Lahore', country: 'Pakistan', latitude: 31.5204, longitude: 74.3587, method: 'karachi' },
+  { id: 'delhi', name: 'Delhi', country: 'India', latitude: 28.6139, longitude: 77.209, method: 'karachi' },
+  { id: 'dhaka', name: 'Dhaka', country: 'Bangladesh', latitude: 23.8103, longitude: 90.4125, method: 'karachi' },
+  { id: 'kualaLumpur', name: 'Kuala Lumpur', country: 'Malaysia', latitude: 3.139, longitude: 101.6869, method: 'mwl' },
+  { id: 'jakarta', name: 'Jakarta', country: 'Indonesia', latitude: -6.2088, longitude: 106.8456, method: 'mwl' },
+  { id: 'london', name: 'London', country: 'United Kingdom', latitude: 51.5074, longitude: -0.1278, method: 'mwl' },
+  { id: 'paris', name: 'Paris', country: 'France', latitude: 48.8566, longitude: 2.3522, method: 'mwl' },
+  { id: 'berlin', name: 'Berlin', country: 'Germany', latitude: 52.52, longitude: 13.405, method: 'mwl' },
+  { id: 'amsterdam', name: 'Amsterdam', country: 'Netherlands', latitude: 52.3676, longitude: 4.9041, method: 'mwl' },
+  { id: 'stockholm', name: 'Stockholm', country: 'Sweden', latitude: 59.3293, longitude: 18.0686, method: 'mwl' },
+  { id: 'newYork', name: 'New York', country: 'United States', latitude: 40.7128, longitude: -74.006, method: 'isna' },
+  { id: 'chicago', name: 'Chicago', country: 'United States', latitude: 41.8781, longitude: -87.6298, method: 'isna' },
+  { id: 'losAngeles', name: 'Los Angeles', country: 'United States', latitude: 34.0522, longitude: -118.2437, method: 'isna' },
+  { id: 'toronto', name: 'Toronto', country: 'Canada', latitude: 43.6532, longitude: -79.3832, method: 'isna' },
+  { id: 'sydney', name: 'Sydney', country: 'Australia', latitude: -33.8688, longitude: 151.2093, method: 'mwl' },
+];
+
+export const getCity = (id: string | null) =>
+  cities.find((city) => city.id === id) ?? null;
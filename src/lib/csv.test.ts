@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createCustomHabit } from './customHabits';
+import { buildHabitsCsv } from './csv';
+import { builtInHabits } from './profiles';
+import { defaultHijriSettings } from './hijri';
+
+describe('buildHabitsCsv', () => {
+  const day = new Date(2026, 9, 1);
+  const habit = (name: string) =>
+    createCustomHabit(
+      { name, icon: 'star', kind: 'optional', section: 'optional' },
+      day
+    );
+
+  const getHeader = (names: string[]) =>
+    buildHabitsCsv(
+      new Map(),
+      builtInHabits,
+      names.map(habit),
+      day,
+      day,
+      defaultHijriSettings
+    ).split('\r\n')[0];
+
+  it('numbers custom habits whose names repeat', () => {
+    expect(getHeader(['Walk', 'Walk', 'fajr'])).toContain(
+      ',Walk,Walk (2),fajr (2),'
+    );
+  });
+
+  it('quotes text that a spreadsheet would run as a formula', () => {
+    expect(getHeader(['=HYPERLINK("x")', '-1', '@sum'])).toContain(
+      `,"'=HYPERLINK(""x"")",'-1,'@sum,`
+    );
+  });
+});
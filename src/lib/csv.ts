@@ -0,0 +1,119 @@
+import {
+  getCustomHabitKey,
+  getHabitKeysForDate,
+  isCustomHabitActiveOn,
+  type CustomHabit,
+} from './customHabits';
+import {
+  getHijriParts,
+  getSpecialDay,
+  isMondayOrThursday,
+  isWhiteDay,
+  type HijriSettings,
+} from './hijri';
+import {
+  defaultHabits,
+  formatDateKey,
+  getCompletionPercent,
+  type DayRecord,
+  type Habits,
+  type HabitValue,
+} from './habits';
+
+const habitKeys = Object.keys(defaultHabits) as (keyof Habits)[];
+
+// Spreadsheets run text that starts like a formula, so such text gets a
+// leading quote and is shown as written.
+const escapeCsvValue = (value: string | number) => {
+  const text =
+    typeof value === 'string' && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : `${value}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Custom habits are headed by their names. A name already taken gets a
+// number, so every column can be told apart.
+const getUniqueHeaders = (names: string[], taken: string[]) => {
+  const used = new Set(taken);
+  return names.map((name) => {
+    let header = name;
+    for (let count = 2; used.has(header); count += 1) {
+      header = `${name} (${count})`;
+    }
+    used.add(header);
+    return header;
+  });
+};
+
+const formatHijriDate = (date: Date, hijriSettings: HijriSettings) => {
+  const { day, month, year } = getHijriParts(date, hijriSettings);
+  return `${year}-${`${month}`.padStart(2, '0')}-${`${day}`.padStart(2, '0')}`;
+};
+
+// One row per Gregorian day in the range. Habit cells are 1/0, prayer and
+// Ramadan fast cells hold their status and Taraweeh its rak'ahs; cells stay
+// empty on days with no record, for unrecorded prayers, and before a custom
+// habit existed.
+export const buildHabitsCsv = (
+  records: Map<string, DayRecord>,
+  enabledHabits: (keyof Habits)[],
+  customHabits: CustomHabit[],
+  start: Date,
+  end: Date,
+  hijriSettings: HijriSettings
+) => {
+  const leading = ['gregorian_date', 'hijri_date', ...habitKeys];
+  const trailing = [
+    'main_percent',
+    'taqarrub_percent',
+    'white_day',
+    'monday_thursday',
+    'special_day',
+  ];
+  const header = [
+    ...leading,
+    ...getUniqueHeaders(
+      customHabits.map((habit) => habit.name),
+      [...leading, ...trailing]
+    ),
+    ...trailing,
+  ];
+  const rows: (string | number)[][] = [header];
+
+  for (
+    let cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    cursor <= end;
+    cursor.setDate(cursor.getDate() + 1)
+  ) {
+    const record = records.get(formatDateKey(cursor));
+    const keys = getHabitKeysForDate(enabledHabits, customHabits, cursor);
+    const cell = (value: HabitValue) => {
+      if (!record || value === null) {
+        return '';
+      }
+      if (typeof value === 'string' || typeof value === 'number') {
+        return value;
+      }
+      return value ? 1 : 0;
+    };
+
+    rows.push([
+      formatDateKey(cursor),
+      formatHijriDate(cursor, hijriSettings),
+      ...habitKeys.map((habit) => cell(record?.[habit])),
+      ...customHabits.map((habit) =>
+        isCustomHabitActiveOn(habit, cursor)
+          ? cell(record?.[getCustomHabitKey(habit)])
+          : ''
+      ),
+      record ? getCompletionPercent(record, keys.main) : '',
+      record ? getCompletionPercent(record, keys.optional) : '',
+      isWhiteDay(cursor, hijriSettings) ? 1 : 0,
+      isMondayOrThursday(cursor) ? 1 : 0,
+      getSpecialDay(cursor, hijriSettings) ?? '',
+    ]);
+  }
+
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
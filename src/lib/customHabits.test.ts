@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  archiveCustomHabit,
+  isCustomHabitActiveOn,
+  isCustomHabitArchived,
+  parseCustomHabits,
+  restoreCustomHabit,
+} from './customHabits';
+
+describe('custom habit archiving', () => {
+  it('keeps the archived days out after the habit is restored', () => {
+    const [habit] = parseCustomHabits(
+      JSON.stringify([
+        {
+          id: 'reading',
+          name: 'Reading',
+          icon: 'star',
+          kind: 'optional',
+          section: 'optional',
+          createdOn: '2026-10-01',
+          archivedOn: '2026-10-05',
+        },
+      ])
+    );
+    expect(isCustomHabitArchived(habit)).toBe(true);
+
+    const restored = restoreCustomHabit(habit, new Date(2026, 9, 10));
+
+    expect(isCustomHabitArchived(restored)).toBe(false);
+    expect(isCustomHabitActiveOn(restored, new Date(2026, 9, 4))).toBe(true);
+    expect(isCustomHabitActiveOn(restored, new Date(2026, 9, 7))).toBe(false);
+    expect(isCustomHabitActiveOn(restored, new Date(2026, 9, 10))).toBe(true);
+
+    const archivedAgain = archiveCustomHabit(restored, new Date(2026, 9, 20));
+
+    expect(archivedAgain.archivedRanges).toEqual([
+      { from: '2026-10-05', to: '2026-10-10' },
+      { from: '2026-10-20' },
+    ]);
+    expect(isCustomHabitActiveOn(archivedAgain, new Date(2026, 9, 21))).toBe(
+      false
+    );
+  });
+});
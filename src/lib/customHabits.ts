@@ -0,0 +1,173 @@
+import {
+  formatDateKey,
+  mainHabits,
+  optionalHabits,
+  type CustomHabitKey,
+  type HabitKey,
+  type Habits,
+} from './habits';
+
+export type HabitKind = 'main' | 'optional';
+export type HabitSection = 'prayers' | 'worship' | 'extra' | 'optional';
+
+export type CustomHabit = {
+  id: string;
+  name: string;
+  icon: string;
+  kind: HabitKind;
+  section: HabitSection;
+  // YYYY-MM-DD; days before this are never counted against the habit.
+  createdOn: string;
+  // Every time the habit was archived, oldest first. Days inside a period
+  // are not counted; the last period has no end while it is archived.
+  archivedRanges: ArchivedRange[];
+};
+
+// YYYY-MM-DD; `from` is the day it was archived and `to` the day it was
+// restored, which counts again.
+export type ArchivedRange = { from: string; to?: string };
+
+export const CUSTOM_HABITS_STORAGE_KEY = 'sunnah:customHabits';
+
+const habitKinds: HabitKind[] = ['main', 'optional'];
+const habitSections: HabitSection[] = ['prayers', 'worship', 'extra', 'optional'];
+
+const isCustomHabit = (value: unknown): value is CustomHabit => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const habit = value as Partial<CustomHabit>;
+  return (
+    typeof habit.id === 'string' &&
+    typeof habit.name === 'string' &&
+    typeof habit.icon === 'string' &&
+    typeof habit.createdOn === 'string' &&
+    habitKinds.includes(habit.kind as HabitKind) &&
+    habitSections.includes(habit.section as HabitSection)
+  );
+};
+
+const isArchivedRange = (value: unknown): value is ArchivedRange => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { from, to } = value as Partial<ArchivedRange>;
+  return (
+    typeof from === 'string' && (to === undefined || typeof to === 'string')
+  );
+};
+
+// Habits saved before archiving could be undone hold a single `archivedOn`
+// day, which becomes an open period.
+const getArchivedRanges = (habit: CustomHabit): ArchivedRange[] => {
+  const value = habit as Partial<Record<string, unknown>>;
+  if (Array.isArray(value.archivedRanges)) {
+    return value.archivedRanges.filter(isArchivedRange);
+  }
+  return typeof value.archivedOn === 'string'
+    ? [{ from: value.archivedOn }]
+    : [];
+};
+
+const normalizeCustomHabit = (habit: CustomHabit): CustomHabit => ({
+  id: habit.id,
+  name: habit.name,
+  icon: habit.icon,
+  kind: habit.kind,
+  section: habit.section,
+  createdOn: habit.createdOn,
+  archivedRanges: getArchivedRanges(habit),
+});
+
+export const parseCustomHabits = (stored: string | null): CustomHabit[] => {
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter(isCustomHabit).map(normalizeCustomHabit)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const getCustomHabitKey = (habit: CustomHabit): CustomHabitKey =>
+  `custom:${habit.id}`;
+
+export const isCustomHabitKey = (key: HabitKey): key is CustomHabitKey =>
+  key.startsWith('custom:');
+
+export const createCustomHabit = (
+  fields: Pick<CustomHabit, 'name' | 'icon' | 'kind' | 'section'>,
+  date: Date
+): CustomHabit => ({
+  ...fields,
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  createdOn: formatDateKey(date),
+  archivedRanges: [],
+});
+
+export const isCustomHabitArchived = (habit: CustomHabit) =>
+  habit.archivedRanges.some((range) => range.to === undefined);
+
+export const archiveCustomHabit = (
+  habit: CustomHabit,
+  date: Date
+): CustomHabit => ({
+  ...habit,
+  archivedRanges: [...habit.archivedRanges, { from: formatDateKey(date) }],
+});
+
+// Closes the open period, so the days it covered stay out of the history.
+export const restoreCustomHabit = (
+  habit: CustomHabit,
+  date: Date
+): CustomHabit => ({
+  ...habit,
+  archivedRanges: habit.archivedRanges.map((range) =>
+    range.to === undefined ? { ...range, to: formatDateKey(date) } : range
+  ),
+});
+
+export const isCustomHabitActiveOn = (habit: CustomHabit, date: Date) => {
+  const dateKey = formatDateKey(date);
+  if (dateKey < habit.createdOn) {
+    return false;
+  }
+  return !habit.archivedRanges.some(
+    (range) =>
+      dateKey >= range.from && (range.to === undefined || dateKey < range.to)
+  );
+};
+
+// Main and Taqarrub keys that applied on a given day: the built-in habits
+// the profile has enabled plus whichever custom habits existed and were not
+// archived yet.
+export const getHabitKeysForDate = (
+  enabledHabits: (keyof Habits)[],
+  customHabits: CustomHabit[],
+  date: Date
+) => {
+  const main: HabitKey[] = mainHabits.filter((habit) =>
+    enabledHabits.includes(habit)
+  );
+  const optional: HabitKey[] = optionalHabits.filter((habit) =>
+    enabledHabits.includes(habit)
+  );
+
+  customHabits.forEach((habit) => {
+    if (!isCustomHabitActiveOn(habit, date)) {
+      return;
+    }
+    if (habit.kind === 'main') {
+      main.push(getCustomHabitKey(habit));
+    } else {
+      optional.push(getCustomHabitKey(habit));
+    }
+  });
+
+  return { main, optional };
+};
@@ -0,0 +1,8 @@
+// How an obligatory Ramadan fast went. Excused days (old age, chronic
+// illness) are settled with fidyah; `makeUp` days are owed after Ramadan.
+export type FastStatus = 'fasted' | 'excused' | 'makeUp';
+
+export const fastStatuses: FastStatus[] = ['fasted', 'excused', 'makeUp'];
+
+export const isFastStatus = (value: unknown): value is FastStatus =>
+  fastStatuses.includes(value as FastStatus);
@@ -0,0 +1,311 @@
+import { formatDateKey, parseDateKey } from './habits';
+import {
+  getHijriMonthRange,
+  getHijriParts,
+  type HijriSettings,
+} from './hijri';
+
+export type GivingKind = 'sadaqah' | 'zakat';
+
+export type GivingCategory =
+  | 'poor'
+  | 'family'
+  | 'masjid'
+  | 'education'
+  | 'relief'
+  | 'other';
+
+export type GivingEntry = {
+  id: string;
+  // YYYY-MM-DD.
+  date: string;
+  amount: number;
+  // ISO 4217 code, e.g. USD.
+  currency: string;
+  category: GivingCategory;
+  kind: GivingKind;
+  note: string;
+};
+
+export type ZakatAssets = {
+  cash: number;
+  gold: number;
+  silver: number;
+  investments: number;
+  business: number;
+  receivables: number;
+};
+
+export type ZakatSettings = {
+  currency: string;
+  // Entered by hand; no live metal prices are fetched.
+  nisab: number;
+  assets: ZakatAssets;
+  liabilities: number;
+  // YYYY-MM-DD on which wealth first reached the nisab. The hawl comes round
+  // on the same Hijri day every lunar year after it.
+  hawlStart: string | null;
+};
+
+export type GivingLedger = {
+  entries: GivingEntry[];
+  zakat: ZakatSettings;
+};
+
+// Totals per currency code.
+export type GivingTotals = Record<string, number>;
+
+export type HawlStatus = {
+  // Most recent anniversary with no zakat logged for it, if any.
+  dueSince: Date | null;
+  nextAnniversary: Date;
+  daysUntilNext: number;
+};
+
+export const GIVING_STORAGE_KEY = 'sunnah:givingLedger';
+
+export const ZAKAT_RATE = 0.025;
+// A payment made up to this many days before an anniversary still counts
+// for it.
+const EARLY_PAYMENT_DAYS = 30;
+
+export const givingCategories: GivingCategory[] = [
+  'poor',
+  'family',
+  'masjid',
+  'education',
+  'relief',
+  'other',
+];
+
+export const zakatAssetKeys: (keyof ZakatAssets)[] = [
+  'cash',
+  'gold',
+  'silver',
+  'investments',
+  'business',
+  'receivables',
+];
+
+const createZakatAssets = (): ZakatAssets => ({
+  cash: 0,
+  gold: 0,
+  silver: 0,
+  investments: 0,
+  business: 0,
+  receivables: 0,
+});
+
+export const defaultGivingLedger: GivingLedger = {
+  entries: [],
+  zakat: {
+    currency: 'USD',
+    nisab: 0,
+    assets: createZakatAssets(),
+    liabilities: 0,
+    hawlStart: null,
+  },
+};
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isCurrency = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+const isEntry = (value: unknown): value is GivingEntry => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Partial<GivingEntry>;
+  return (
+    typeof entry.id === 'string' &&
+    isDateKey(entry.date) &&
+    isAmount(entry.amount) &&
+    isCurrency(entry.currency) &&
+    givingCategories.includes(entry.category as GivingCategory) &&
+    (entry.kind === 'sadaqah' || entry.kind === 'zakat') &&
+    typeof entry.note === 'string'
+  );
+};
+
+const parseZakatSettings = (value: unknown): ZakatSettings => {
+  const fallback = defaultGivingLedger.zakat;
+  if (!value || typeof value !== 'object') {
+    return fallback;
+  }
+  const settings = value as Partial<Record<keyof ZakatSettings, unknown>>;
+  const storedAssets =
+    settings.assets && typeof settings.assets === 'object'
+      ? (settings.assets as Record<string, unknown>)
+      : {};
+  const assets = createZakatAssets();
+  zakatAssetKeys.forEach((key) => {
+    const amount = storedAssets[key];
+    if (isAmount(amount)) {
+      assets[key] = amount;
+    }
+  });
+  return {
+    currency: isCurrency(settings.currency)
+      ? settings.currency
+      : fallback.currency,
+    nisab: isAmount(settings.nisab) ? settings.nisab : fallback.nisab,
+    assets,
+    liabilities: isAmount(settings.liabilities)
+      ? settings.liabilities
+      : fallback.liabilities,
+    hawlStart: isDateKey(settings.hawlStart) ? settings.hawlStart : null,
+  };
+};
+
+export const parseGivingLedger = (stored: string | null): GivingLedger => {
+  if (!stored) {
+    return defaultGivingLedger;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<
+      Record<keyof GivingLedger, unknown>
+    >;
+    return {
+      entries: Array.isArray(parsed.entries)
+        ? parsed.entries.filter(isEntry)
+        : [],
+      zakat: parseZakatSettings(parsed.zakat),
+    };
+  } catch {
+    return defaultGivingLedger;
+  }
+};
+
+export const createGivingEntry = (
+  fields: Omit<GivingEntry, 'id'>
+): GivingEntry => ({
+  ...fields,
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+});
+
+export const computeZakat = (settings: ZakatSettings) => {
+  const assets = zakatAssetKeys.reduce(
+    (total, key) => total + settings.assets[key],
+    0
+  );
+  const netWealth = Math.max(0, assets - settings.liabilities);
+  const aboveNisab = settings.nisab > 0 && netWealth >= settings.nisab;
+  return {
+    netWealth,
+    aboveNisab,
+    due: aboveNisab ? netWealth * ZAKAT_RATE : 0,
+  };
+};
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const getDaysBetween = (from: Date, to: Date) =>
+  Math.round(
+    (startOfDay(to).getTime() - startOfDay(from).getTime()) / 86_400_000
+  );
+
+// Gregorian date of the given Hijri day; a 30th falls back to the 29th in
+// months that only have 29 days.
+const getDateForHijriDay = (
+  year: number,
+  month: number,
+  day: number,
+  hijriSettings: HijriSettings
+) => {
+  const { start, end } = getHijriMonthRange(year, month, hijriSettings);
+  const date = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + day - 1
+  );
+  return date > end ? end : date;
+};
+
+export const getHawlStatus = (
+  ledger: GivingLedger,
+  today: Date,
+  hijriSettings: HijriSettings
+): HawlStatus | null => {
+  if (!ledger.zakat.hawlStart) {
+    return null;
+  }
+  const start = getHijriParts(
+    parseDateKey(ledger.zakat.hawlStart),
+    hijriSettings
+  );
+  const todayYear = getHijriParts(today, hijriSettings).year;
+  const anniversary = (year: number) =>
+    getDateForHijriDay(year, start.month, start.day, hijriSettings);
+
+  let nextYear = Math.max(start.year + 1, todayYear);
+  if (getDaysBetween(today, anniversary(nextYear)) <= 0) {
+    nextYear += 1;
+  }
+  const nextAnniversary = anniversary(nextYear);
+
+  let dueSince: Date | null = null;
+  if (nextYear - 1 > start.year) {
+    const latest = anniversary(nextYear - 1);
+    const countsFrom = formatDateKey(
+      new Date(
+        latest.getFullYear(),
+        latest.getMonth(),
+        latest.getDate() - EARLY_PAYMENT_DAYS
+      )
+    );
+    const paid = ledger.entries.some(
+      (entry) => entry.kind === 'zakat' && entry.date >= countsFrom
+    );
+    dueSince = paid ? null : latest;
+  }
+
+  return {
+    dueSince,
+    nextAnniversary,
+    daysUntilNext: getDaysBetween(today, nextAnniversary),
+  };
+};
+
+const addToTotals = (totals: GivingTotals, entry: GivingEntry) => {
+  totals[entry.currency] = (totals[entry.currency] ?? 0) + entry.amount;
+};
+
+// Totals for the last `months` Gregorian months, newest first.
+export const getMonthlyGivingTotals = (
+  entries: GivingEntry[],
+  today: Date,
+  months: number
+) =>
+  Array.from({ length: months }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - index, 1);
+    const prefix = formatDateKey(month).slice(0, 7);
+    const totals: GivingTotals = {};
+    entries
+      .filter((entry) => entry.date.startsWith(prefix))
+      .forEach((entry) => addToTotals(totals, entry));
+    return { month, totals };
+  });
+
+// Totals per Hijri year, newest first.
+export const getHijriYearGivingTotals = (
+  entries: GivingEntry[],
+  hijriSettings: HijriSettings
+) => {
+  const years = new Map<number, GivingTotals>();
+  entries.forEach((entry) => {
+    const year = getHijriParts(parseDateKey(entry.date), hijriSettings).year;
+    const totals = years.get(year) ?? {};
+    addToTotals(totals, entry);
+    years.set(year, totals);
+  });
+  return [...years.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([year, totals]) => ({ year, totals }));
+};
@@ -0,0 +1,252 @@
+import { isFastStatus, type FastStatus } from './fastStatus';
+import {
+  isPrayedInTime,
+  isPrayerStatus,
+  migratePrayerValue,
+  PRAYER_STATUS_WEIGHTS,
+  type PrayerStatus,
+} from './prayerStatus';
+import { PRAYER_NAMES, type PrayerName } from './prayerTimes';
+
+export type Habits = {
+  fajr: PrayerStatus | null;
+  dhuhr: PrayerStatus | null;
+  asr: PrayerStatus | null;
+  maghrib: PrayerStatus | null;
+  isha: PrayerStatus | null;
+  fajrSunnah: boolean;
+  dhuhrSunnahBefore: boolean;
+  dhuhrSunnahAfter: boolean;
+  maghribSunnahAfter: boolean;
+  ishaSunnahAfter: boolean;
+  quran: boolean;
+  quranReflection: boolean;
+  quranMemorization: boolean;
+  quranRecitation: boolean;
+  morningDhikr: boolean;
+  eveningDhikr: boolean;
+  sleepDhikr: boolean;
+  dailyDuaa: boolean;
+  duhaPrayer: boolean;
+  witrPrayer: boolean;
+  tahajjudPrayer: boolean;
+  sadaqah: boolean;
+  islamicStudies: boolean;
+  exercise: boolean;
+  silatRahim: boolean;
+  ummahNews: boolean;
+  voluntaryFasting: boolean;
+  // Ramadan entries. They are tracked on their own and never count toward
+  // the daily progress, so the rest of the year stays comparable.
+  ramadanFast: FastStatus | null;
+  taraweehRakahs: number;
+  suhoor: boolean;
+  iftarDua: boolean;
+  itikaf: boolean;
+  // A missed Ramadan fast made up on this day.
+  makeUpFast: boolean;
+  // Jumu'ah entries, only asked for on Fridays. Like the Ramadan ones they
+  // stay out of the daily progress.
+  jumuahGhusl: boolean;
+  jumuahEarly: boolean;
+  jumuahKahf: boolean;
+  jumuahSalawat: boolean;
+  jumuahDua: boolean;
+};
+
+export const defaultHabits: Habits = {
+  fajr: null,
+  dhuhr: null,
+  asr: null,
+  maghrib: null,
+  isha: null,
+  fajrSunnah: false,
+  dhuhrSunnahBefore: false,
+  dhuhrSunnahAfter: false,
+  maghribSunnahAfter: false,
+  ishaSunnahAfter: false,
+  quran: false,
+  quranReflection: false,
+  quranMemorization: false,
+  quranRecitation: false,
+  morningDhikr: false,
+  eveningDhikr: false,
+  sleepDhikr: false,
+  dailyDuaa: false,
+  duhaPrayer: false,
+  witrPrayer: false,
+  tahajjudPrayer: false,
+  sadaqah: false,
+  islamicStudies: false,
+  exercise: false,
+  silatRahim: false,
+  ummahNews: false,
+  voluntaryFasting: false,
+  ramadanFast: null,
+  taraweehRakahs: 0,
+  suhoor: false,
+  iftarDua: false,
+  itikaf: false,
+  makeUpFast: false,
+  jumuahGhusl: false,
+  jumuahEarly: false,
+  jumuahKahf: false,
+  jumuahSalawat: false,
+  jumuahDua: false,
+};
+
+export const mainHabits: (keyof Habits)[] = [
+  'fajr',
+  'dhuhr',
+  'asr',
+  'maghrib',
+  'isha',
+  'quran',
+  'morningDhikr',
+  'eveningDhikr',
+  'sleepDhikr',
+  'dailyDuaa',
+];
+
+export const optionalHabits: (keyof Habits)[] = [
+  'fajrSunnah',
+  'dhuhrSunnahBefore',
+  'dhuhrSunnahAfter',
+  'maghribSunnahAfter',
+  'ishaSunnahAfter',
+  'quranReflection',
+  'quranMemorization',
+  'quranRecitation',
+  'duhaPrayer',
+  'tahajjudPrayer',
+  'witrPrayer',
+  'sadaqah',
+  'islamicStudies',
+  'exercise',
+  'silatRahim',
+  'ummahNews',
+  'voluntaryFasting',
+];
+
+// Values for user-defined habits live in the same daily record, under a
+// `custom:` prefix so they never clash with the built-in keys.
+export type CustomHabitKey = `custom:${string}`;
+export type HabitKey = keyof Habits | CustomHabitKey;
+export type DayRecord = Habits & {
+  [key: CustomHabitKey]: boolean | undefined;
+} & {
+  // When each habit was last changed on this or another device, in ms since
+  // the epoch, so synced copies of the day can be merged habit by habit.
+  // Days recorded before sync existed have none.
+  changedAt?: Partial<Record<HabitKey, number>>;
+};
+export type HabitValue =
+  | boolean
+  | number
+  | PrayerStatus
+  | FastStatus
+  | null
+  | undefined;
+
+// The five fard prayers carry a status instead of a done flag.
+export const isFardPrayerKey = (key: HabitKey): key is PrayerName =>
+  (PRAYER_NAMES as readonly string[]).includes(key);
+
+// 0 to 1: booleans count fully when set, prayers by their status weight.
+export const getHabitCompletion = (value: HabitValue) =>
+  isPrayerStatus(value) ? PRAYER_STATUS_WEIGHTS[value] : value ? 1 : 0;
+
+// Whether a habit counts as kept for streaks and "all done" checks.
+export const isHabitDone = (value: HabitValue) =>
+  isPrayerStatus(value) ? isPrayedInTime(value) : !!value;
+
+// Tapping a habit: prayers go between unrecorded and on time, the rest flip.
+export const getToggledValue = (key: HabitKey, value: HabitValue) => {
+  if (isFardPrayerKey(key)) {
+    return value ? null : 'onTime';
+  }
+  return !value;
+};
+
+// YYYY-MM-DD in local time.
+export const formatDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isRakahCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Days are stored per profile as `habits:<profileId>/YYYY-MM-DD`; builds
+// before profiles left out the profile.
+export const RECORD_KEY_PATTERN = /^habits:((?:[\w-]+\/)?\d{4}-\d{2}-\d{2})$/;
+
+const parseChangedAt = (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const entries = Object.entries(value).filter(
+    ([, time]) => typeof time === 'number' && Number.isFinite(time)
+  );
+  return entries.length > 0
+    ? (Object.fromEntries(entries) as Partial<Record<HabitKey, number>>)
+    : null;
+};
+
+// Fills in missing habits, upgrades boolean prayer values to statuses and
+// drops Ramadan values and change times of the wrong shape.
+export const normalizeDayRecord = (value: Record<string, unknown>) => {
+  const record = { ...defaultHabits, ...value } as DayRecord;
+  PRAYER_NAMES.forEach((prayer) => {
+    record[prayer] = migratePrayerValue(value[prayer]);
+  });
+  record.ramadanFast = isFastStatus(value.ramadanFast)
+    ? value.ramadanFast
+    : null;
+  record.taraweehRakahs = isRakahCount(value.taraweehRakahs)
+    ? value.taraweehRakahs
+    : 0;
+  const changedAt = parseChangedAt(value.changedAt);
+  if (changedAt) {
+    record.changedAt = changedAt;
+  } else {
+    delete record.changedAt;
+  }
+  return record;
+};
+
+export const parseHabitsRecord = (stored: string | null): DayRecord | null => {
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? normalizeDayRecord(parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getCompletionPercent = (
+  record: Partial<Record<HabitKey, HabitValue>>,
+  keys: HabitKey[]
+) => {
+  if (keys.length === 0) {
+    return 0;
+  }
+  const completed = keys.reduce(
+    (total, habit) => total + getHabitCompletion(record[habit]),
+    0
+  );
+  return Math.round((completed / keys.length) * 100);
+};
@@ -0,0 +1,146 @@
+import { formatDateKey, parseDateKey } from './habits';
+import { getSurah } from './quranData';
+
+// Self-graded recall after a revision, worst to best.
+export type RecallGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type HifzPortion = {
+  id: string;
+  surah: number;
+  fromAyah: number;
+  toAyah: number;
+  // YYYY-MM-DD.
+  memorizedOn: string;
+  // YYYY-MM-DD of the next revision.
+  dueOn: string;
+  // Days between the last revision and the next one.
+  interval: number;
+  // Multiplier applied to the interval after a good recall.
+  ease: number;
+  reviews: number;
+  lastReviewedOn: string | null;
+};
+
+export const HIFZ_STORAGE_KEY = 'sunnah:hifz';
+
+export const recallGrades: RecallGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+// An interval this long counts as fully consolidated for the strength bar.
+const STRONG_INTERVAL_DAYS = 90;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isPortion = (value: unknown): value is HifzPortion => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const portion = value as Partial<HifzPortion>;
+  const surah = typeof portion.surah === 'number' ? getSurah(portion.surah) : null;
+  return (
+    typeof portion.id === 'string' &&
+    !!surah &&
+    typeof portion.fromAyah === 'number' &&
+    typeof portion.toAyah === 'number' &&
+    portion.fromAyah >= 1 &&
+    portion.fromAyah <= portion.toAyah &&
+    portion.toAyah <= surah.ayahs &&
+    isDateKey(portion.memorizedOn) &&
+    isDateKey(portion.dueOn) &&
+    typeof portion.interval === 'number' &&
+    typeof portion.ease === 'number' &&
+    typeof portion.reviews === 'number' &&
+    (portion.lastReviewedOn === null || isDateKey(portion.lastReviewedOn))
+  );
+};
+
+export const parseHifzPortions = (stored: string | null): HifzPortion[] => {
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isPortion) : [];
+  } catch {
+    return [];
+  }
+};
+
+// A newly memorised portion comes up for revision the next day.
+export const createHifzPortion = (
+  surah: number,
+  fromAyah: number,
+  toAyah: number,
+  memorizedOn: Date
+): HifzPortion => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  surah,
+  fromAyah: Math.min(fromAyah, toAyah),
+  toAyah: Math.max(fromAyah, toAyah),
+  memorizedOn: formatDateKey(memorizedOn),
+  dueOn: formatDateKey(addDays(memorizedOn, 1)),
+  interval: 1,
+  ease: DEFAULT_EASE,
+  reviews: 0,
+  lastReviewedOn: null,
+});
+
+// SM-2 style scheduling: a forgotten portion starts over at one day, the
+// others grow their interval by the ease, which itself drifts with how
+// hard each recall felt.
+export const reviewHifzPortion = (
+  portion: HifzPortion,
+  grade: RecallGrade,
+  today: Date
+): HifzPortion => {
+  let { interval, ease } = portion;
+  if (grade === 'again') {
+    interval = 1;
+    ease = Math.max(MIN_EASE, ease - 0.2);
+  } else if (grade === 'hard') {
+    interval = Math.max(1, Math.round(interval * 1.2));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === 'good') {
+    interval = portion.reviews === 0 ? 3 : Math.round(interval * ease);
+  } else {
+    interval =
+      portion.reviews === 0 ? 5 : Math.round(interval * ease * 1.3);
+    ease += 0.15;
+  }
+  return {
+    ...portion,
+    interval,
+    ease,
+    reviews: portion.reviews + 1,
+    lastReviewedOn: formatDateKey(today),
+    dueOn: formatDateKey(addDays(today, interval)),
+  };
+};
+
+export const isHifzPortionDue = (portion: HifzPortion, today: Date) =>
+  portion.dueOn <= formatDateKey(today);
+
+// Overdue portions first, then the weakest.
+export const getDueHifzPortions = (portions: HifzPortion[], today: Date) =>
+  portions
+    .filter((portion) => isHifzPortionDue(portion, today))
+    .sort(
+      (a, b) => a.dueOn.localeCompare(b.dueOn) || a.interval - b.interval
+    );
+
+// 0 to 100, from how long the portion is currently trusted to hold.
+export const getHifzStrength = (portion: HifzPortion) =>
+  Math.min(100, Math.round((portion.interval / STRONG_INTERVAL_DAYS) * 100));
+
+export const getDaysUntilDue = (portion: HifzPortion, today: Date) =>
+  Math.round(
+    (parseDateKey(portion.dueOn).getTime() -
+      new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) /
+      86_400_000
+  );
@@ -0,0 +1,261 @@
+// Calendars Intl can compute the Hijri date with. Umm al-Qura follows the
+// Saudi tables; civil and tabular are arithmetic, differing only in the
+// epoch they count from.
+export type HijriVariant = 'umalqura' | 'civil' | 'tbla';
+
+// An announced start date for one Hijri month, for when the local moon
+// sighting does not agree with the calculated calendar.
+export type HijriMonthOverride = {
+  year: number;
+  month: number;
+  // YYYY-MM-DD of the first day of the month.
+  start: string;
+};
+
+export type HijriSettings = {
+  variant: HijriVariant;
+  // Days added to every date before it is converted, -2 to 2.
+  offset: number;
+  overrides: HijriMonthOverride[];
+};
+
+export const HIJRI_SETTINGS_STORAGE_KEY = 'sunnah:hijriSettings';
+
+export const hijriVariants: HijriVariant[] = ['umalqura', 'civil', 'tbla'];
+export const hijriOffsets = [-2, -1, 0, 1, 2];
+
+export const defaultHijriSettings: HijriSettings = {
+  variant: 'umalqura',
+  offset: 0,
+  overrides: [],
+};
+
+const isHijriMonthOverride = (value: unknown): value is HijriMonthOverride => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { year, month, start } = value as Partial<HijriMonthOverride>;
+  return (
+    Number.isInteger(year) &&
+    (year as number) > 0 &&
+    Number.isInteger(month) &&
+    (month as number) >= 1 &&
+    (month as number) <= 12 &&
+    typeof start === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(start)
+  );
+};
+
+export const parseHijriSettings = (stored: string | null): HijriSettings => {
+  if (!stored) {
+    return defaultHijriSettings;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<HijriSettings>;
+    return {
+      variant: hijriVariants.includes(parsed.variant as HijriVariant)
+        ? (parsed.variant as HijriVariant)
+        : defaultHijriSettings.variant,
+      offset: hijriOffsets.includes(parsed.offset as number)
+        ? (parsed.offset as number)
+        : defaultHijriSettings.offset,
+      overrides: Array.isArray(parsed.overrides)
+        ? parsed.overrides.filter(isHijriMonthOverride)
+        : [],
+    };
+  } catch {
+    return defaultHijriSettings;
+  }
+};
+
+const getIntlCalendar = (variant: HijriVariant) => `islamic-${variant}`;
+
+// Formatters are slow to create, so one is kept per calendar.
+const numberFormatters = new Map<HijriVariant, Intl.DateTimeFormat>();
+
+const getNumberFormatter = (variant: HijriVariant) => {
+  let formatter = numberFormatters.get(variant);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-u-ca-${getIntlCalendar(variant)}`, {
+      day: 'numeric',
+      month: 'numeric',
+      year: 'numeric',
+    });
+    numberFormatters.set(variant, formatter);
+  }
+  return formatter;
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (from: Date, to: Date) =>
+  Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+      Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+      86_400_000
+  );
+
+const getCalculatedParts = (date: Date, variant: HijriVariant) => {
+  const parts = getNumberFormatter(variant).formatToParts(date);
+  const dayPart = parts.find((part) => part.type === 'day');
+  const monthPart = parts.find((part) => part.type === 'month');
+  const yearPart = parts.find((part) => part.type === 'year');
+
+  return {
+    day: dayPart ? Number(dayPart.value) : 1,
+    month: monthPart ? Number(monthPart.value) : 1,
+    year: yearPart ? Number(yearPart.value) : 1,
+  };
+};
+
+const getMonthIndex = ({ year, month }: { year: number; month: number }) =>
+  year * 12 + month - 1;
+
+// The chosen calendar shifted by the offset, then corrected by any
+// announced month start. An override only moves the boundary at the start
+// of its month: a later start lengthens the previous month, an earlier one
+// takes days from it. The month ends wherever the next month begins.
+// Every Hijri lookup in the app takes the user's settings, so the header,
+// the calendar, fasting days and stats all agree on the date.
+export const getHijriParts = (date: Date, settings: HijriSettings) => {
+  const calculated = getCalculatedParts(
+    addDays(date, settings.offset),
+    settings.variant
+  );
+
+  for (const override of settings.overrides) {
+    const [year, month, day] = override.start.split('-').map(Number);
+    const elapsed = daysBetween(new Date(year, month - 1, day), date);
+    const monthDifference =
+      getMonthIndex(override) - getMonthIndex(calculated);
+
+    if (
+      elapsed >= 0 &&
+      elapsed < 30 &&
+      (monthDifference === 0 || monthDifference === 1)
+    ) {
+      return { day: elapsed + 1, month: override.month, year: override.year };
+    }
+    if (elapsed < 0 && monthDifference === 0) {
+      // Still the previous month: keep counting from its last calculated day.
+      const previous = getCalculatedParts(
+        addDays(date, settings.offset - calculated.day),
+        settings.variant
+      );
+      return { ...previous, day: previous.day + calculated.day };
+    }
+  }
+
+  return calculated;
+};
+
+// Formats a date in the Hijri calendar the way Intl would, but with the
+// offset and overrides applied. Month and year names are taken from a
+// nearby date the calculated calendar places in the same month, and the
+// day number is swapped in.
+export const formatHijriDate = (
+  date: Date,
+  locale: 'en' | 'ar',
+  options: Intl.DateTimeFormatOptions,
+  settings: HijriSettings
+) => {
+  const calendar = getIntlCalendar(settings.variant);
+  const intlLocale = `${locale === 'ar' ? 'ar-SA' : 'en'}-u-ca-${calendar}`;
+  const parts = getHijriParts(date, settings);
+  const target = getMonthIndex(parts);
+
+  let proxy = addDays(date, settings.offset);
+  for (let step = 0; step < 60; step += 1) {
+    const difference =
+      getMonthIndex(getCalculatedParts(proxy, settings.variant)) - target;
+    if (difference === 0) {
+      break;
+    }
+    proxy = addDays(proxy, difference < 0 ? 1 : -1);
+  }
+
+  const dayFormatter = new Intl.NumberFormat(intlLocale);
+  return new Intl.DateTimeFormat(intlLocale, options)
+    .formatToParts(proxy)
+    .map((part) =>
+      part.type === 'day' ? dayFormatter.format(parts.day) : part.value
+    )
+    .join('');
+};
+
+// White Days are the 13th-15th of every Hijri month except Ramadan.
+export const isWhiteDay = (date: Date, settings: HijriSettings) => {
+  const { day, month } = getHijriParts(date, settings);
+  return month !== 9 && (day === 13 || day === 14 || day === 15);
+};
+
+export const isMondayOrThursday = (date: Date) => {
+  const dow = date.getDay();
+  return dow === 1 || dow === 4;
+};
+
+export type SpecialDay = 'arafah' | 'eidAlAdha' | 'eidAlFitr' | 'ashura';
+
+export const getSpecialDay = (
+  date: Date,
+  settings: HijriSettings
+): SpecialDay | null => {
+  const { day, month } = getHijriParts(date, settings);
+  if (month === 12 && day === 9) {
+    return 'arafah';
+  }
+  if (month === 12 && day === 10) {
+    return 'eidAlAdha';
+  }
+  if (month === 10 && day === 1) {
+    return 'eidAlFitr';
+  }
+  if (month === 1 && day === 10) {
+    return 'ashura';
+  }
+  return null;
+};
+
+// First and last Gregorian day of a Hijri month. Starts from an estimate
+// based on the mean lunar month and walks day by day to the exact edges.
+export const getHijriMonthRange = (
+  year: number,
+  month: number,
+  settings: HijriSettings
+) => {
+  const today = new Date();
+  const todayParts = getHijriParts(today, settings);
+  const monthOffset =
+    year * 12 + month - (todayParts.year * 12 + todayParts.month);
+  const cursor = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() + Math.round(monthOffset * 29.53) - todayParts.day + 15
+  );
+
+  const compare = (date: Date) => {
+    const parts = getHijriParts(date, settings);
+    return parts.year * 12 + parts.month - (year * 12 + month);
+  };
+  while (compare(cursor) < 0) {
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  while (compare(cursor) > 0) {
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  const start = new Date(cursor);
+  while (compare(start) === 0) {
+    start.setDate(start.getDate() - 1);
+  }
+  start.setDate(start.getDate() + 1);
+
+  const end = new Date(cursor);
+  while (compare(end) === 0) {
+    end.setDate(end.getDate() + 1);
+  }
+  end.setDate(end.getDate() - 1);
+
+  return { start, end };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatDateKey } from './habits';
+import { getRecentFridays } from './jumuah';
+
+describe('getRecentFridays', () => {
+  const today = new Date(2026, 9, 19);
+
+  it('lists the last Fridays, newest first', () => {
+    expect(getRecentFridays(today, 3).map(formatDateKey)).toEqual([
+      '2026-10-16',
+      '2026-10-09',
+      '2026-10-02',
+    ]);
+  });
+
+  it('leaves out Fridays before tracking started', () => {
+    expect(
+      getRecentFridays(today, 12, '2026-10-05').map(formatDateKey)
+    ).toEqual(['2026-10-16', '2026-10-09']);
+  });
+});
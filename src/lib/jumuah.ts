@@ -0,0 +1,83 @@
+import { formatDateKey, type DayRecord, type Habits } from './habits';
+
+export type JumuahAct =
+  | 'jumuahGhusl'
+  | 'jumuahEarly'
+  | 'jumuahKahf'
+  | 'jumuahSalawat'
+  | 'jumuahDua';
+
+export type FridayStats = {
+  fridays: number;
+  // Fridays each act was done on.
+  done: Record<JumuahAct, number>;
+  // Fridays in a row, counting back from the latest, with Al-Kahf read. An
+  // unticked latest Friday may still be today, so it does not break it.
+  kahfStreak: number;
+};
+
+export const jumuahActs: JumuahAct[] = [
+  'jumuahGhusl',
+  'jumuahEarly',
+  'jumuahKahf',
+  'jumuahSalawat',
+  'jumuahDua',
+];
+
+// How many past Fridays the statistics can look back over.
+export const fridayRangeOptions = [4, 12, 52];
+
+export const FRIDAY = 5;
+
+export const isFriday = (date: Date) => date.getDay() === FRIDAY;
+
+// The last `count` Fridays up to and including today, newest first, and
+// none before `since` when the profile started tracking the acts later.
+export const getRecentFridays = (
+  today: Date,
+  count: number,
+  since?: string
+) => {
+  const cursor = new Date(today);
+  cursor.setDate(cursor.getDate() - ((cursor.getDay() - FRIDAY + 7) % 7));
+  const fridays: Date[] = [];
+  for (
+    let index = 0;
+    index < count && (!since || formatDateKey(cursor) >= since);
+    index += 1
+  ) {
+    fridays.push(new Date(cursor));
+    cursor.setDate(cursor.getDate() - 7);
+  }
+  return fridays;
+};
+
+export const computeFridayStats = (
+  records: Map<string, DayRecord>,
+  fridays: Date[]
+): FridayStats => {
+  const done = Object.fromEntries(jumuahActs.map((act) => [act, 0])) as Record<
+    JumuahAct,
+    number
+  >;
+  let kahfStreak = 0;
+  let streakOpen = true;
+  fridays.forEach((date, index) => {
+    const record: Partial<Habits> = records.get(formatDateKey(date)) ?? {};
+    jumuahActs.forEach((act) => {
+      done[act] += record[act] ? 1 : 0;
+    });
+    // The panel is only shown on Fridays, so the latest Friday is today and
+    // Al-Kahf can still be read until Maghrib. Leaving it unticked so far
+    // neither adds to the streak nor ends it.
+    if (index === 0 && !record.jumuahKahf) {
+      return;
+    }
+    if (streakOpen && record.jumuahKahf) {
+      kahfStreak += 1;
+    } else {
+      streakOpen = false;
+    }
+  });
+  return { fridays: fridays.length, done, kahfStreak };
+};
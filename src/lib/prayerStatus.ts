@@ -0,0 +1,34 @@
+export type PrayerStatus = 'jamaah' | 'onTime' | 'late' | 'qada' | 'missed';
+
+export const prayerStatuses: PrayerStatus[] = [
+  'jamaah',
+  'onTime',
+  'late',
+  'qada',
+  'missed',
+];
+
+// Share of a prayer's credit that counts toward daily progress.
+export const PRAYER_STATUS_WEIGHTS: Record<PrayerStatus, number> = {
+  jamaah: 1,
+  onTime: 1,
+  late: 0.75,
+  qada: 0.5,
+  missed: 0,
+};
+
+export const isPrayerStatus = (value: unknown): value is PrayerStatus =>
+  prayerStatuses.includes(value as PrayerStatus);
+
+// Prayed within its own time. Streaks only count these, so a prayer made up
+// later still breaks the run.
+export const isPrayedInTime = (status: PrayerStatus | null | undefined) =>
+  status === 'jamaah' || status === 'onTime' || status === 'late';
+
+// Records written before statuses existed hold a plain boolean per prayer.
+export const migratePrayerValue = (value: unknown): PrayerStatus | null => {
+  if (value === true) {
+    return 'onTime';
+  }
+  return isPrayerStatus(value) ? value : null;
+};
@@ -0,0 +1,350 @@
+import { getHijriParts, type HijriSettings } from './hijri';
+
+export type CalculationMethod =
+  | 'mwl'
+  | 'isna'
+  | 'egyptian'
+  | 'ummAlQura'
+  | 'karachi';
+// Shadow length factor for Asr: 1 for the majority view, 2 for Hanafi.
+export type AsrMadhhab = 'standard' | 'hanafi';
+// How Fajr and Isha are placed when the sun never gets low enough for the
+// method's twilight angles (summer nights far from the equator).
+export type HighLatitudeRule =
+  | 'none'
+  | 'middleOfNight'
+  | 'seventhOfNight'
+  | 'angleBased';
+
+export type PrayerLocation = {
+  latitude: number;
+  longitude: number;
+  // Set when the coordinates came from the bundled city list.
+  cityId: string | null;
+};
+
+export type PrayerSettings = {
+  location: PrayerLocation | null;
+  method: CalculationMethod;
+  asrMadhhab: AsrMadhhab;
+  highLatitudeRule: HighLatitudeRule;
+};
+
+export const PRAYER_NAMES = [
+  'fajr',
+  'dhuhr',
+  'asr',
+  'maghrib',
+  'isha',
+] as const;
+export type PrayerName = (typeof PRAYER_NAMES)[number];
+
+export type PrayerTimes = Record<PrayerName | 'sunrise', Date>;
+
+export type PrayerWindow = { prayer: PrayerName; start: Date; end: Date };
+
+export const PRAYER_SETTINGS_STORAGE_KEY = 'sunnah:prayerSettings';
+
+export const calculationMethods: CalculationMethod[] = [
+  'mwl',
+  'isna',
+  'egyptian',
+  'ummAlQura',
+  'karachi',
+];
+export const asrMadhhabs: AsrMadhhab[] = ['standard', 'hanafi'];
+export const highLatitudeRules: HighLatitudeRule[] = [
+  'none',
+  'middleOfNight',
+  'seventhOfNight',
+  'angleBased',
+];
+
+// Sun depression angles below the horizon. Umm al-Qura puts Isha a fixed
+// interval after Maghrib instead (longer during Ramadan).
+const methodParameters: Record<
+  CalculationMethod,
+  { fajrAngle: number; ishaAngle?: number; ishaMinutes?: number }
+> = {
+  mwl: { fajrAngle: 18, ishaAngle: 17 },
+  isna: { fajrAngle: 15, ishaAngle: 15 },
+  egyptian: { fajrAngle: 19.5, ishaAngle: 17.5 },
+  ummAlQura: { fajrAngle: 18.5, ishaMinutes: 90 },
+  karachi: { fajrAngle: 18, ishaAngle: 18 },
+};
+
+export const defaultPrayerSettings: PrayerSettings = {
+  location: null,
+  method: 'mwl',
+  asrMadhhab: 'standard',
+  highLatitudeRule: 'middleOfNight',
+};
+
+const isFiniteInRange = (value: unknown, limit: number) =>
+  typeof value === 'number' &&
+  Number.isFinite(value) &&
+  Math.abs(value) <= limit;
+
+export const isValidLocation = (latitude: number, longitude: number) =>
+  isFiniteInRange(latitude, 90) && isFiniteInRange(longitude, 180);
+
+export const parsePrayerSettings = (stored: string | null): PrayerSettings => {
+  if (!stored) {
+    return defaultPrayerSettings;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<PrayerSettings>;
+    const location = parsed.location;
+    return {
+      location:
+        location && isValidLocation(location.latitude, location.longitude)
+          ? {
+              latitude: location.latitude,
+              longitude: location.longitude,
+              cityId:
+                typeof location.cityId === 'string' ? location.cityId : null,
+            }
+          : null,
+      method: calculationMethods.includes(parsed.method as CalculationMethod)
+        ? (parsed.method as CalculationMethod)
+        : defaultPrayerSettings.method,
+      asrMadhhab: asrMadhhabs.includes(parsed.asrMadhhab as AsrMadhhab)
+        ? (parsed.asrMadhhab as AsrMadhhab)
+        : defaultPrayerSettings.asrMadhhab,
+      highLatitudeRule: highLatitudeRules.includes(
+        parsed.highLatitudeRule as HighLatitudeRule
+      )
+        ? (parsed.highLatitudeRule as HighLatitudeRule)
+        : defaultPrayerSettings.highLatitudeRule,
+    };
+  } catch {
+    return defaultPrayerSettings;
+  }
+};
+
+// Degree-based trigonometry, as the astronomical formulas are written.
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const sin = (degrees: number) => Math.sin(toRadians(degrees));
+const cos = (degrees: number) => Math.cos(toRadians(degrees));
+const tan = (degrees: number) => Math.tan(toRadians(degrees));
+const arcsin = (value: number) => toDegrees(Math.asin(value));
+const arccos = (value: number) => toDegrees(Math.acos(value));
+const arccot = (value: number) => toDegrees(Math.atan(1 / value));
+const arctan2 = (y: number, x: number) => toDegrees(Math.atan2(y, x));
+const wrap = (value: number, range: number) =>
+  value - range * Math.floor(value / range);
+
+// Sun altitude at apparent sunrise and sunset: refraction plus the radius
+// of the solar disc.
+const RISE_SET_ANGLE = 0.833;
+
+const getJulianDate = (year: number, month: number, day: number) => {
+  const shiftedYear = month <= 2 ? year - 1 : year;
+  const shiftedMonth = month <= 2 ? month + 12 : month;
+  const century = Math.floor(shiftedYear / 100);
+  const leapCorrection = 2 - century + Math.floor(century / 4);
+  return (
+    Math.floor(365.25 * (shiftedYear + 4716)) +
+    Math.floor(30.6001 * (shiftedMonth + 1)) +
+    day +
+    leapCorrection -
+    1524.5
+  );
+};
+
+// Declination and equation of time from the low-precision solar
+// coordinates of the Astronomical Almanac, good to about a minute.
+const getSunPosition = (julianDate: number) => {
+  const days = julianDate - 2451545;
+  const meanAnomaly = wrap(357.529 + 0.98560028 * days, 360);
+  const meanLongitude = wrap(280.459 + 0.98564736 * days, 360);
+  const eclipticLongitude = wrap(
+    meanLongitude + 1.915 * sin(meanAnomaly) + 0.02 * sin(2 * meanAnomaly),
+    360
+  );
+  const obliquity = 23.439 - 0.00000036 * days;
+  const rightAscension =
+    arctan2(cos(obliquity) * sin(eclipticLongitude), cos(eclipticLongitude)) /
+    15;
+  return {
+    declination: arcsin(sin(obliquity) * sin(eclipticLongitude)),
+    equationOfTime: meanLongitude / 15 - wrap(rightAscension, 24),
+  };
+};
+
+type SolarTimes = Record<PrayerName | 'sunrise' | 'sunset', number>;
+
+// Hours of the day in mean solar time at the given longitude.
+const computeSolarTimes = (
+  julianDate: number,
+  latitude: number,
+  settings: PrayerSettings,
+  estimates: SolarTimes
+): SolarTimes => {
+  const { fajrAngle, ishaAngle } = methodParameters[settings.method];
+
+  const getMidDay = (time: number) =>
+    wrap(12 - getSunPosition(julianDate + time / 24).equationOfTime, 24);
+
+  // Time the sun reaches `angle` below the horizon, before or after noon.
+  const getSunAngleTime = (angle: number, time: number, beforeNoon = false) => {
+    const { declination } = getSunPosition(julianDate + time / 24);
+    const offset =
+      arccos(
+        (-sin(angle) - sin(declination) * sin(latitude)) /
+          (cos(declination) * cos(latitude))
+      ) / 15;
+    return getMidDay(time) + (beforeNoon ? -offset : offset);
+  };
+
+  const getAsrTime = (time: number) => {
+    const { declination } = getSunPosition(julianDate + time / 24);
+    const shadowFactor = settings.asrMadhhab === 'hanafi' ? 2 : 1;
+    const angle = -arccot(shadowFactor + tan(Math.abs(latitude - declination)));
+    return getSunAngleTime(angle, time);
+  };
+
+  const sunset = getSunAngleTime(RISE_SET_ANGLE, estimates.sunset);
+  return {
+    fajr: getSunAngleTime(fajrAngle, estimates.fajr, true),
+    sunrise: getSunAngleTime(RISE_SET_ANGLE, estimates.sunrise, true),
+    dhuhr: getMidDay(estimates.dhuhr),
+    asr: getAsrTime(estimates.asr),
+    sunset,
+    maghrib: sunset,
+    isha:
+      ishaAngle === undefined
+        ? sunset
+        : getSunAngleTime(ishaAngle, estimates.isha),
+  };
+};
+
+const getNightPortion = (rule: HighLatitudeRule, angle: number) => {
+  if (rule === 'angleBased') {
+    return angle / 60;
+  }
+  if (rule === 'seventhOfNight') {
+    return 1 / 7;
+  }
+  return 1 / 2;
+};
+
+// Caps the distance between Fajr and sunrise (and between sunset and Isha)
+// at a portion of the night, and fills them in when the sun never reaches
+// the twilight angle at all.
+const applyHighLatitudeRule = (times: SolarTimes, settings: PrayerSettings) => {
+  const { fajrAngle, ishaAngle } = methodParameters[settings.method];
+  if (settings.highLatitudeRule === 'none') {
+    return times;
+  }
+  const night = wrap(times.sunrise - times.sunset, 24);
+  const fajrLimit =
+    getNightPortion(settings.highLatitudeRule, fajrAngle) * night;
+  const adjusted = { ...times };
+  if (
+    Number.isNaN(times.fajr) ||
+    wrap(times.sunrise - times.fajr, 24) > fajrLimit
+  ) {
+    adjusted.fajr = times.sunrise - fajrLimit;
+  }
+  if (ishaAngle !== undefined) {
+    const ishaLimit =
+      getNightPortion(settings.highLatitudeRule, ishaAngle) * night;
+    if (
+      Number.isNaN(times.isha) ||
+      wrap(times.isha - times.sunset, 24) > ishaLimit
+    ) {
+      adjusted.isha = times.sunset + ishaLimit;
+    }
+  }
+  return adjusted;
+};
+
+const initialEstimates: SolarTimes = {
+  fajr: 5,
+  sunrise: 6,
+  dhuhr: 12,
+  asr: 13,
+  sunset: 18,
+  maghrib: 18,
+  isha: 18,
+};
+
+// Prayer times for the local calendar day of `date`. Returns null where the
+// sun does not rise or set that day, since no rule can place the prayers.
+export const computePrayerTimes = (
+  date: Date,
+  settings: PrayerSettings,
+  hijriSettings: HijriSettings
+): PrayerTimes | null => {
+  if (!settings.location) {
+    return null;
+  }
+  const { latitude, longitude } = settings.location;
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  const julianDate = getJulianDate(year, month, day) - longitude / (15 * 24);
+
+  // Two passes: the second re-evaluates the sun at the first pass's times.
+  let times = initialEstimates;
+  for (let pass = 0; pass < 2; pass += 1) {
+    times = computeSolarTimes(julianDate, latitude, settings, times);
+  }
+  if (Number.isNaN(times.sunrise) || Number.isNaN(times.sunset)) {
+    return null;
+  }
+
+  times = applyHighLatitudeRule(times, settings);
+  const { ishaMinutes } = methodParameters[settings.method];
+  if (ishaMinutes !== undefined) {
+    const isRamadan = getHijriParts(date, hijriSettings).month === 9;
+    times.isha = times.maghrib + (isRamadan ? 120 : ishaMinutes) / 60;
+  }
+  if (Number.isNaN(times.fajr) || Number.isNaN(times.isha)) {
+    return null;
+  }
+
+  // Solar hours at the longitude become UTC hours of the same date.
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const toDate = (hours: number) =>
+    new Date(utcMidnight + Math.round((hours - longitude / 15) * 60) * 60_000);
+
+  return {
+    fajr: toDate(times.fajr),
+    sunrise: toDate(times.sunrise),
+    dhuhr: toDate(times.dhuhr),
+    asr: toDate(times.asr),
+    maghrib: toDate(times.maghrib),
+    isha: toDate(times.isha),
+  };
+};
+
+// Each prayer lasts until the next one starts, except Fajr, which ends at
+// sunrise, and Isha, which runs until the following Fajr.
+export const getPrayerWindows = (
+  times: PrayerTimes,
+  nextDayTimes: PrayerTimes | null
+): PrayerWindow[] => {
+  const ends: Record<PrayerName, Date> = {
+    fajr: times.sunrise,
+    dhuhr: times.asr,
+    asr: times.maghrib,
+    maghrib: times.isha,
+    isha:
+      nextDayTimes?.fajr ??
+      new Date(times.fajr.getTime() + 24 * 60 * 60 * 1000),
+  };
+  return PRAYER_NAMES.map((prayer) => ({
+    prayer,
+    start: times[prayer],
+    end: ends[prayer],
+  }));
+};
+
+export const getCurrentPrayer = (windows: PrayerWindow[], now: Date) =>
+  windows.find((window) => window.start <= now && now < window.end) ?? null;
+
+export const getNextPrayer = (windows: PrayerWindow[], now: Date) =>
+  windows.find((window) => window.start > now) ?? null;
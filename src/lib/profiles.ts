@@ -0,0 +1,170 @@
+import { HIJRI_SETTINGS_STORAGE_KEY } from './hijri';
+import {
+  formatDateKey,
+  mainHabits,
+  optionalHabits,
+  type Habits,
+} from './habits';
+import { jumuahActs } from './jumuah';
+import { PRAYER_SETTINGS_STORAGE_KEY } from './prayerTimes';
+
+export type ProfileKind = 'adult' | 'child';
+
+export type Profile = {
+  id: string;
+  name: string;
+  color: ProfileColor;
+  kind: ProfileKind;
+  // Built-in habits shown and counted for this profile. Custom habits are
+  // kept per profile already, so they are not listed here. Unlike a custom
+  // habit's dates, this applies to every day, past ones included: it says
+  // which habits the profile tracks rather than when it started, and ticks
+  // on a hidden habit are kept for when it is shown again.
+  enabledHabits: (keyof Habits)[];
+  // YYYY-MM-DD; the day the profile last started tracking the Jumu'ah acts.
+  // Their Friday statistics do not count the Fridays before it.
+  jumuahSince?: string;
+};
+
+export const PROFILES_STORAGE_KEY = 'sunnah:profiles';
+export const ACTIVE_PROFILE_STORAGE_KEY = 'sunnah:activeProfile';
+
+// Everything recorded before profiles existed moved into this one.
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Settings that describe the device or the household rather than a person,
+// so every profile reads and writes the same value. App.tsx owns the keys
+// spelled out here.
+export const sharedSettingKeys = [
+  'sunnah:theme',
+  'sunnah:locale',
+  'sunnah:calendarLayout',
+  HIJRI_SETTINGS_STORAGE_KEY,
+  PRAYER_SETTINGS_STORAGE_KEY,
+];
+
+export const profileColors = [
+  'emerald',
+  'sky',
+  'violet',
+  'rose',
+  'amber',
+  'slate',
+] as const;
+
+export type ProfileColor = (typeof profileColors)[number];
+
+export const profileColorClassNames: Record<ProfileColor, string> = {
+  emerald: 'bg-emerald-600',
+  sky: 'bg-sky-600',
+  violet: 'bg-violet-600',
+  rose: 'bg-rose-600',
+  amber: 'bg-amber-500',
+  slate: 'bg-slate-600',
+};
+
+export const profileKinds: ProfileKind[] = ['adult', 'child'];
+
+export const builtInHabits: (keyof Habits)[] = [
+  ...mainHabits,
+  ...optionalHabits,
+  ...jumuahActs,
+];
+
+// A child starts with the five prayers and the daily adhkar only.
+export const childHabits: (keyof Habits)[] = [
+  'fajr',
+  'dhuhr',
+  'asr',
+  'maghrib',
+  'isha',
+  'morningDhikr',
+  'eveningDhikr',
+  'sleepDhikr',
+];
+
+export const getDefaultHabits = (kind: ProfileKind) =>
+  kind === 'child' ? childHabits : builtInHabits;
+
+export const defaultProfile: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Me',
+  color: 'emerald',
+  kind: 'adult',
+  enabledHabits: builtInHabits,
+};
+
+const isProfile = (value: unknown): value is Profile => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const profile = value as Partial<Profile>;
+  return (
+    typeof profile.id === 'string' &&
+    /^[\w-]+$/.test(profile.id) &&
+    typeof profile.name === 'string' &&
+    profileColors.includes(profile.color as ProfileColor) &&
+    profileKinds.includes(profile.kind as ProfileKind) &&
+    Array.isArray(profile.enabledHabits)
+  );
+};
+
+// There is always at least one profile; a device that never saved any
+// gets the default one its existing data was moved into.
+export const parseProfiles = (stored: string | null): Profile[] => {
+  if (!stored) {
+    return [defaultProfile];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    const profiles = Array.isArray(parsed)
+      ? parsed.filter(isProfile).map((profile) => ({
+          ...profile,
+          enabledHabits: builtInHabits.filter((habit) =>
+            profile.enabledHabits.includes(habit)
+          ),
+          jumuahSince:
+            typeof profile.jumuahSince === 'string'
+              ? profile.jumuahSince
+              : undefined,
+        }))
+      : [];
+    return profiles.length > 0 ? profiles : [defaultProfile];
+  } catch {
+    return [defaultProfile];
+  }
+};
+
+// Falls back to the first profile when the stored one has been removed.
+export const getActiveProfile = (profiles: Profile[], stored: string | null) =>
+  profiles.find((profile) => profile.id === stored) ?? profiles[0];
+
+export const tracksJumuah = (profile: Pick<Profile, 'enabledHabits'>) =>
+  jumuahActs.some((act) => profile.enabledHabits.includes(act));
+
+// Applies edits to a profile. Going from none of the Jumu'ah acts to some
+// starts their statistics afresh on `date`.
+export const updateProfile = (
+  profile: Profile,
+  changes: Partial<Profile>,
+  date: Date
+): Profile => {
+  const next = { ...profile, ...changes };
+  return tracksJumuah(next) && !tracksJumuah(profile)
+    ? { ...next, jumuahSince: formatDateKey(date) }
+    : next;
+};
+
+export const createProfile = (
+  fields: Pick<Profile, 'name' | 'color' | 'kind'>,
+  date: Date
+): Profile =>
+  updateProfile(
+    {
+      ...fields,
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      enabledHabits: [],
+    },
+    { enabledHabits: getDefaultHabits(fields.kind) },
+    date
+  );
@@ -0,0 +1,202 @@
+import { formatDateKey, parseDateKey, type DayRecord } from './habits';
+import { PRAYER_NAMES, type PrayerName } from './prayerTimes';
+
+export type PrayerCounts = Record<PrayerName, number>;
+
+export type QadaLedger = {
+  // Prayers owed from before tracking started, entered by hand.
+  estimates: PrayerCounts;
+  // Also owe every prayer marked missed in the daily records.
+  includeMissedDays: boolean;
+  // Make-up prayers prayed, keyed by YYYY-MM-DD.
+  log: Record<string, Partial<PrayerCounts>>;
+};
+
+export type QadaBalance = {
+  prayer: PrayerName;
+  owed: number;
+  madeUp: number;
+  remaining: number;
+  // Make-ups per day over the pace window; 0 when nothing was logged.
+  pace: number;
+  // When the balance reaches zero at the current pace, if it ever does.
+  projectedCompletion: Date | null;
+};
+
+export const QADA_STORAGE_KEY = 'sunnah:qadaLedger';
+
+// Pace is averaged over at most this many recent days.
+const PACE_WINDOW_DAYS = 30;
+
+export const createPrayerCounts = (count = 0): PrayerCounts => ({
+  fajr: count,
+  dhuhr: count,
+  asr: count,
+  maghrib: count,
+  isha: count,
+});
+
+export const defaultQadaLedger: QadaLedger = {
+  estimates: createPrayerCounts(),
+  includeMissedDays: true,
+  log: {},
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const parseCounts = (value: unknown): Partial<PrayerCounts> => {
+  const counts: Partial<PrayerCounts> = {};
+  if (!value || typeof value !== 'object') {
+    return counts;
+  }
+  const stored = value as Record<string, unknown>;
+  PRAYER_NAMES.forEach((prayer) => {
+    if (isCount(stored[prayer]) && stored[prayer] > 0) {
+      counts[prayer] = stored[prayer];
+    }
+  });
+  return counts;
+};
+
+export const parseQadaLedger = (stored: string | null): QadaLedger => {
+  if (!stored) {
+    return defaultQadaLedger;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<Record<keyof QadaLedger, unknown>>;
+    const log: QadaLedger['log'] = {};
+    if (parsed.log && typeof parsed.log === 'object') {
+      Object.entries(parsed.log).forEach(([dateKey, counts]) => {
+        const entry = parseCounts(counts);
+        if (/^\d{4}-\d{2}-\d{2}$/.test(dateKey) && Object.keys(entry).length) {
+          log[dateKey] = entry;
+        }
+      });
+    }
+    return {
+      estimates: { ...createPrayerCounts(), ...parseCounts(parsed.estimates) },
+      includeMissedDays:
+        typeof parsed.includeMissedDays === 'boolean'
+          ? parsed.includeMissedDays
+          : defaultQadaLedger.includeMissedDays,
+      log,
+    };
+  } catch {
+    return defaultQadaLedger;
+  }
+};
+
+// Prayers marked missed in the daily records. Marking one made up later
+// takes it back off this count.
+export const countMissedPrayers = (records: Map<string, DayRecord>) => {
+  const counts = createPrayerCounts();
+  records.forEach((record) => {
+    PRAYER_NAMES.forEach((prayer) => {
+      if (record[prayer] === 'missed') {
+        counts[prayer] += 1;
+      }
+    });
+  });
+  return counts;
+};
+
+// Adds `delta` make-ups of one prayer to a day's log, never going below 0.
+export const logMakeUp = (
+  ledger: QadaLedger,
+  prayer: PrayerName,
+  date: Date,
+  delta: number
+): QadaLedger => {
+  const dateKey = formatDateKey(date);
+  const entry = { ...ledger.log[dateKey] };
+  const count = Math.max(0, (entry[prayer] ?? 0) + delta);
+  if (count > 0) {
+    entry[prayer] = count;
+  } else {
+    delete entry[prayer];
+  }
+  const log = { ...ledger.log, [dateKey]: entry };
+  if (Object.keys(entry).length === 0) {
+    delete log[dateKey];
+  }
+  return { ...ledger, log };
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const computeQadaBalances = (
+  ledger: QadaLedger,
+  missedCounts: PrayerCounts,
+  today: Date
+): QadaBalance[] => {
+  const todayKey = formatDateKey(today);
+  const loggedKeys = Object.keys(ledger.log)
+    .filter((dateKey) => dateKey <= todayKey)
+    .sort();
+  // A ledger started last week is paced over a week, not a full month.
+  const windowStart =
+    loggedKeys.length > 0
+      ? formatDateKey(
+          new Date(
+            Math.max(
+              parseDateKey(loggedKeys[0]).getTime(),
+              addDays(today, 1 - PACE_WINDOW_DAYS).getTime()
+            )
+          )
+        )
+      : todayKey;
+  const windowDays =
+    Math.round(
+      (today.getTime() - parseDateKey(windowStart).getTime()) / 86_400_000
+    ) + 1;
+
+  return PRAYER_NAMES.map((prayer) => {
+    const owed =
+      ledger.estimates[prayer] +
+      (ledger.includeMissedDays ? missedCounts[prayer] : 0);
+    let madeUp = 0;
+    let recent = 0;
+    Object.entries(ledger.log).forEach(([dateKey, counts]) => {
+      const count = counts[prayer] ?? 0;
+      madeUp += count;
+      if (dateKey >= windowStart && dateKey <= todayKey) {
+        recent += count;
+      }
+    });
+    const remaining = Math.max(0, owed - madeUp);
+    const pace = recent / windowDays;
+    return {
+      prayer,
+      owed,
+      madeUp,
+      remaining,
+      pace,
+      projectedCompletion:
+        remaining === 0
+          ? null
+          : pace > 0
+            ? addDays(today, Math.ceil(remaining / pace))
+            : null,
+    };
+  });
+};
+
+// The whole debt is cleared when the slowest prayer is.
+export const getOverallCompletion = (balances: QadaBalance[]) => {
+  let latest: Date | null = null;
+  for (const balance of balances) {
+    if (balance.remaining === 0) {
+      continue;
+    }
+    if (!balance.projectedCompletion) {
+      return null;
+    }
+    if (!latest || balance.projectedCompletion > latest) {
+      latest = balance.projectedCompletion;
+    }
+  }
+  return latest;
+};
@@ -0,0 +1,283 @@
+import {
+  getHijriMonthRange,
+  getHijriParts,
+  type HijriSettings,
+} from './hijri';
+import { formatDateKey, parseDateKey } from './habits';
+import { getAyahPage, TOTAL_PAGES } from './quranData';
+import { RAMADAN_MONTH } from './ramadan';
+
+// One reading session. Ayah ranges keep what was entered and are mapped to
+// pages for progress.
+export type QuranReading = {
+  id: string;
+  // YYYY-MM-DD.
+  date: string;
+  // Which khatm the reading counts toward, from 1.
+  khatm: number;
+  fromPage: number;
+  toPage: number;
+  ayahs?: { surah: number; fromAyah: number; toAyah: number };
+};
+
+export type KhatmTarget =
+  | { kind: 'ramadan' }
+  // YYYY-MM-DD to finish by.
+  | { kind: 'date'; date: string };
+
+export type QuranProgress = {
+  // The khatm in progress, from 1.
+  khatm: number;
+  readings: QuranReading[];
+  target: KhatmTarget | null;
+};
+
+export type KhatmStatus = {
+  pagesRead: number;
+  percent: number;
+  // Where to pick up: the page after the latest reading, or the first
+  // page not read yet once that runs past the end.
+  nextPage: number;
+  complete: boolean;
+  // Pages per day over the pace window; 0 when nothing was read.
+  pace: number;
+  projectedFinish: Date | null;
+};
+
+export type KhatmPlan = {
+  finishBy: Date;
+  daysLeft: number;
+  pagesPerDay: number;
+};
+
+export const QURAN_PROGRESS_STORAGE_KEY = 'sunnah:quranProgress';
+
+const PACE_WINDOW_DAYS = 14;
+
+export const defaultQuranProgress: QuranProgress = {
+  khatm: 1,
+  readings: [],
+  target: null,
+};
+
+const isPage = (value: unknown): value is number =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= TOTAL_PAGES;
+
+const isReading = (value: unknown): value is QuranReading => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const reading = value as Partial<QuranReading>;
+  return (
+    typeof reading.id === 'string' &&
+    typeof reading.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(reading.date) &&
+    typeof reading.khatm === 'number' &&
+    reading.khatm >= 1 &&
+    isPage(reading.fromPage) &&
+    isPage(reading.toPage) &&
+    reading.fromPage <= reading.toPage
+  );
+};
+
+const parseTarget = (value: unknown): KhatmTarget | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const target = value as Partial<{ kind: string; date: unknown }>;
+  if (target.kind === 'ramadan') {
+    return { kind: 'ramadan' };
+  }
+  if (
+    target.kind === 'date' &&
+    typeof target.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(target.date)
+  ) {
+    return { kind: 'date', date: target.date };
+  }
+  return null;
+};
+
+export const parseQuranProgress = (stored: string | null): QuranProgress => {
+  if (!stored) {
+    return defaultQuranProgress;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<
+      Record<keyof QuranProgress, unknown>
+    >;
+    const readings = Array.isArray(parsed.readings)
+      ? parsed.readings.filter(isReading)
+      : [];
+    return {
+      khatm:
+        typeof parsed.khatm === 'number' && parsed.khatm >= 1
+          ? Math.floor(parsed.khatm)
+          : 1,
+      readings,
+      target: parseTarget(parsed.target),
+    };
+  } catch {
+    return defaultQuranProgress;
+  }
+};
+
+export const createPageReading = (
+  khatm: number,
+  date: Date,
+  fromPage: number,
+  toPage: number
+): QuranReading => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  date: formatDateKey(date),
+  khatm,
+  fromPage: Math.min(fromPage, toPage),
+  toPage: Math.max(fromPage, toPage),
+});
+
+export const createAyahReading = (
+  khatm: number,
+  date: Date,
+  surah: number,
+  fromAyah: number,
+  toAyah: number
+): QuranReading => ({
+  ...createPageReading(
+    khatm,
+    date,
+    getAyahPage(surah, fromAyah),
+    getAyahPage(surah, toAyah)
+  ),
+  ayahs: {
+    surah,
+    fromAyah: Math.min(fromAyah, toAyah),
+    toAyah: Math.max(fromAyah, toAyah),
+  },
+});
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const countPages = (readings: QuranReading[]) => {
+  const pages = new Set<number>();
+  readings.forEach((reading) => {
+    for (let page = reading.fromPage; page <= reading.toPage; page += 1) {
+      pages.add(page);
+    }
+  });
+  return pages;
+};
+
+// Pages are counted once however often they are re-read, so going back
+// over a passage does not inflate the percentage.
+export const getKhatmStatus = (
+  progress: QuranProgress,
+  today: Date
+): KhatmStatus => {
+  const readings = progress.readings.filter(
+    (reading) => reading.khatm === progress.khatm
+  );
+  const pages = countPages(readings);
+  const complete = pages.size === TOTAL_PAGES;
+
+  const latest = readings.reduce<QuranReading | null>(
+    (current, reading) =>
+      !current || reading.date >= current.date ? reading : current,
+    null
+  );
+  let nextPage = latest ? latest.toPage + 1 : 1;
+  if (nextPage > TOTAL_PAGES) {
+    nextPage = 1;
+    while (pages.has(nextPage) && nextPage < TOTAL_PAGES) {
+      nextPage += 1;
+    }
+  }
+
+  const todayKey = formatDateKey(today);
+  const firstKey = readings.map((reading) => reading.date).sort()[0];
+  const windowStart = firstKey
+    ? new Date(
+        Math.max(
+          parseDateKey(firstKey).getTime(),
+          addDays(today, 1 - PACE_WINDOW_DAYS).getTime()
+        )
+      )
+    : today;
+  const windowStartKey = formatDateKey(windowStart);
+  const windowDays =
+    Math.round((today.getTime() - windowStart.getTime()) / 86_400_000) + 1;
+  const recentPages = countPages(
+    readings.filter(
+      (reading) => reading.date >= windowStartKey && reading.date <= todayKey
+    )
+  ).size;
+  const pace = recentPages / windowDays;
+  const remaining = TOTAL_PAGES - pages.size;
+
+  return {
+    pagesRead: pages.size,
+    percent: Math.floor((pages.size / TOTAL_PAGES) * 100),
+    nextPage,
+    complete,
+    pace,
+    projectedFinish:
+      complete || pace === 0
+        ? null
+        : addDays(today, Math.ceil(remaining / pace) - 1),
+  };
+};
+
+// "One khatm per Ramadan" means by the end of this Ramadan, or the next
+// one when Ramadan is over for the year.
+export const getTargetDate = (
+  target: KhatmTarget,
+  today: Date,
+  hijriSettings: HijriSettings
+) => {
+  if (target.kind === 'date') {
+    return parseDateKey(target.date);
+  }
+  const { year, month } = getHijriParts(today, hijriSettings);
+  return getHijriMonthRange(
+    month > RAMADAN_MONTH ? year + 1 : year,
+    RAMADAN_MONTH,
+    hijriSettings
+  ).end;
+};
+
+export const getKhatmPlan = (
+  progress: QuranProgress,
+  status: KhatmStatus,
+  today: Date,
+  hijriSettings: HijriSettings
+): KhatmPlan | null => {
+  if (!progress.target || status.complete) {
+    return null;
+  }
+  const finishBy = getTargetDate(progress.target, today, hijriSettings);
+  const daysLeft =
+    Math.round(
+      (finishBy.getTime() -
+        new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) /
+        86_400_000
+    ) + 1;
+  if (daysLeft < 1) {
+    return { finishBy, daysLeft: 0, pagesPerDay: 0 };
+  }
+  // Pages already read today still count toward today's share.
+  const todayKey = formatDateKey(today);
+  const readBeforeToday = countPages(
+    progress.readings.filter(
+      (reading) => reading.khatm === progress.khatm && reading.date < todayKey
+    )
+  ).size;
+  return {
+    finishBy,
+    daysLeft,
+    pagesPerDay: Math.ceil((TOTAL_PAGES - readBeforeToday) / daysLeft),
+  };
+};
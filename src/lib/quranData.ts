@@ -0,0 +1,266 @@
+// Bundled metadata for the Madani mushaf (604 pages), so the Quran tracker
+// works offline.
+
+export type Surah = {
+  number: number;
+  name: string;
+  arabicName: string;
+  ayahs: number;
+  // Madani page the surah starts on.
+  startPage: number;
+};
+
+export type Juz = {
+  number: number;
+  startPage: number;
+  startSurah: number;
+  startAyah: number;
+};
+
+export const TOTAL_PAGES = 604;
+export const TOTAL_AYAHS = 6236;
+
+// [name, Arabic name, ayahs, start page]
+const surahRows: [string, string, number, number][] = [
+  ['Al-Fatihah', 'الفاتحة', 7, 1],
+  ['Al-Baqarah', 'البقرة', 286, 2],
+  ['Al Imran', 'آل عمران', 200, 50],
+  ['An-Nisa', 'النساء', 176, 77],
+  ["Al-Ma'idah", 'المائدة', 120, 106],
+  ["Al-An'am", 'الأنعام', 165, 128],
+  ["Al-A'raf", 'الأعراف', 206, 151],
+  ['Al-Anfal', 'الأنفال', 75, 177],
+  ['At-Tawbah', 'التوبة', 129, 187],
+  ['Yunus', 'يونس', 109, 208],
+  ['Hud', 'هود', 123, 221],
+  ['Yusuf', 'يوسف', 111, 235],
+  ["Ar-Ra'd", 'الرعد', 43, 249],
+  ['Ibrahim', 'إبراهيم', 52, 255],
+  ['Al-Hijr', 'الحجر', 99, 262],
+  ['An-Nahl', 'النحل', 128, 267],
+  ['Al-Isra', 'الإسراء', 111, 282],
+  ['Al-Kahf', 'الكهف', 110, 293],
+  ['Maryam', 'مريم', 98, 305],
+  ['Taha', 'طه', 135, 312],
+  ['Al-Anbiya', 'الأنبياء', 112, 322],
+  ['Al-Hajj', 'الحج', 78, 332],
+  ["Al-Mu'minun", 'المؤمنون', 118, 342],
+  ['An-Nur', 'النور', 64, 350],
+  ['Al-Furqan', 'الفرقان', 77, 359],
+  ["Ash-Shu'ara", 'الشعراء', 227, 367],
+  ['An-Naml', 'النمل', 93, 377],
+  ['Al-Qasas', 'القصص', 88, 385],
+  ["Al-'Ankabut", 'العنكبوت', 69, 396],
+  ['Ar-Rum', 'الروم', 60, 404],
+  ['Luqman', 'لقمان', 34, 411],
+  ['As-Sajdah', 'السجدة', 30, 415],
+  ['Al-Ahzab', 'الأحزاب', 73, 418],
+  ['Saba', 'سبأ', 54, 428],
+  ['Fatir', 'فاطر', 45, 434],
+  ['Ya-Sin', 'يس', 83, 440],
+  ['As-Saffat', 'الصافات', 182, 446],
+  ['Sad', 'ص', 88, 453],
+  ['Az-Zumar', 'الزمر', 75, 458],
+  ['Ghafir', 'غافر', 85, 467],
+  ['Fussilat', 'فصلت', 54, 477],
+  ['Ash-Shura', 'الشورى', 53, 483],
+  ['Az-Zukhruf', 'الزخرف', 89, 489],
+  ['Ad-Dukhan', 'الدخان', 59, 496],
+  ['Al-Jathiyah', 'الجاثية', 37, 499],
+  ['Al-Ahqaf', 'الأحقاف', 35, 502],
+  ['Muhammad', 'محمد', 38, 507],
+  ['Al-Fath', 'الفتح', 29, 511],
+  ['Al-Hujurat', 'الحجرات', 18, 515],
+  ['Qaf', 'ق', 45, 518],
+  ['Adh-Dhariyat', 'الذاريات', 60, 520],
+  ['At-Tur', 'الطور', 49, 523],
+  ['An-Najm', 'النجم', 62, 526],
+  ['Al-Qamar', 'القمر', 55, 528],
+  ['Ar-Rahman', 'الرحمن', 78, 531],
+  ["Al-Waqi'ah", 'الواقعة', 96, 534],
+  ['Al-Hadid', 'الحديد', 29, 537],
+  ['Al-Mujadilah', 'المجادلة', 22, 542],
+  ['Al-Hashr', 'الحشر', 24, 545],
+  ['Al-Mumtahanah', 'الممتحنة', 13, 549],
+  ['As-Saff', 'الصف', 14, 551],
+  ["Al-Jumu'ah", 'الجمعة', 11, 553],
+  ['Al-Munafiqun', 'المنافقون', 11, 554],
+  ['At-Taghabun', 'التغابن', 18, 556],
+  ['At-Talaq', 'الطلاق', 12, 558],
+  ['At-Tahrim', 'التحريم', 12, 560],
+  ['Al-Mulk', 'الملك', 30, 562],
+  ['Al-Qalam', 'القلم', 52, 564],
+  ['Al-Haqqah', 'الحاقة', 52, 566],
+  ["Al-Ma'arij", 'المعارج', 44, 568],
+  ['Nuh', 'نوح', 28, 570],
+  ['Al-Jinn', 'الجن', 28, 572],
+  ['Al-Muzzammil', 'المزمل', 20, 574],
+  ['Al-Muddaththir', 'المدثر', 56, 575],
+  ['Al-Qiyamah', 'القيامة', 40, 577],
+  ['Al-Insan', 'الإنسان', 31, 578],
+  ['Al-Mursalat', 'المرسلات', 50, 580],
+  ["An-Naba'", 'النبأ', 40, 582],
+  ["An-Nazi'at", 'النازعات', 46, 583],
+  ["'Abasa", 'عبس', 42, 585],
+  ['At-Takwir', 'التكوير', 29, 586],
+  ['Al-Infitar', 'الانفطار', 19, 587],
+  ['Al-Mutaffifin', 'المطففين', 36, 587],
+  ['Al-Inshiqaq', 'الانشقاق', 25, 589],
+  ['Al-Buruj', 'البروج', 22, 590],
+  ['At-Tariq', 'الطارق', 17, 591],
+  ["Al-A'la", 'الأعلى', 19, 591],
+  ['Al-Ghashiyah', 'الغاشية', 26, 592],
+  ['Al-Fajr', 'الفجر', 30, 593],
+  ['Al-Balad', 'البلد', 20, 594],
+  ['Ash-Shams', 'الشمس', 15, 595],
+  ['Al-Layl', 'الليل', 21, 595],
+  ['Ad-Duha', 'الضحى', 11, 596],
+  ['Ash-Sharh', 'الشرح', 8, 596],
+  ['At-Tin', 'التين', 8, 597],
+  ["Al-'Alaq", 'العلق', 19, 597],
+  ['Al-Qadr', 'القدر', 5, 598],
+  ['Al-Bayyinah', 'البينة', 8, 598],
+  ['Az-Zalzalah', 'الزلزلة', 8, 599],
+  ["Al-'Adiyat", 'العاديات', 11, 599],
+  ["Al-Qari'ah", 'القارعة', 11, 600],
+  ['At-Takathur', 'التكاثر', 8, 600],
+  ["Al-'Asr", 'العصر', 3, 601],
+  ['Al-Humazah', 'الهمزة', 9, 601],
+  ['Al-Fil', 'الفيل', 5, 601],
+  ['Quraysh', 'قريش', 4, 602],
+  ["Al-Ma'un", 'الماعون', 7, 602],
+  ['Al-Kawthar', 'الكوثر', 3, 602],
+  ['Al-Kafirun', 'الكافرون', 6, 603],
+  ['An-Nasr', 'النصر', 3, 603],
+  ['Al-Masad', 'المسد', 5, 603],
+  ['Al-Ikhlas', 'الإخلاص', 4, 604],
+  ['Al-Falaq', 'الفلق', 5, 604],
+  ['An-Nas', 'الناس', 6, 604],
+];
+
+export const surahs: Surah[] = surahRows.map(
+  ([name, arabicName, ayahs, startPage], index) => ({
+    number: index + 1,
+    name,
+    arabicName,
+    ayahs,
+    startPage,
+  })
+);
+
+// [start page, surah, ayah]
+const juzRows: [number, number, number][] = [
+  [1, 1, 1],
+  [22, 2, 142],
+  [42, 2, 253],
+  [62, 3, 93],
+  [82, 4, 24],
+  [102, 4, 148],
+  [121, 5, 82],
+  [142, 6, 111],
+  [162, 7, 88],
+  [182, 8, 41],
+  [201, 9, 93],
+  [222, 11, 6],
+  [242, 12, 53],
+  [262, 15, 1],
+  [282, 17, 1],
+  [302, 18, 75],
+  [322, 21, 1],
+  [342, 23, 1],
+  [362, 25, 21],
+  [382, 27, 56],
+  [402, 29, 46],
+  [422, 33, 31],
+  [442, 36, 28],
+  [462, 39, 32],
+  [482, 41, 47],
+  [502, 46, 1],
+  [522, 51, 31],
+  [542, 58, 1],
+  [562, 67, 1],
+  [582, 78, 1],
+];
+
+export const juzList: Juz[] = juzRows.map(
+  ([startPage, startSurah, startAyah], index) => ({
+    number: index + 1,
+    startPage,
+    startSurah,
+    startAyah,
+  })
+);
+
+export const getSurah = (number: number) => surahs[number - 1] ?? null;
+
+// Index of an ayah counted from the start of the mushaf, from 1.
+const surahOffsets = surahs.reduce<number[]>(
+  (offsets, surah, index) => [...offsets, offsets[index] + surah.ayahs],
+  [0]
+);
+
+export const getAyahIndex = (surahNumber: number, ayah: number) =>
+  surahOffsets[surahNumber - 1] + ayah;
+
+// Ayahs whose page is known exactly: the start of every surah and juz.
+const pageAnchors = [
+  ...surahs.map((surah) => [getAyahIndex(surah.number, 1), surah.startPage]),
+  ...juzList.map((juz) => [
+    getAyahIndex(juz.startSurah, juz.startAyah),
+    juz.startPage,
+  ]),
+  [TOTAL_AYAHS + 1, TOTAL_PAGES + 1],
+].sort((a, b) => a[0] - b[0]);
+
+// The bundled data has no per-ayah page index, so an ayah's page is
+// interpolated between the nearest surah or juz starts around it. Short
+// surahs come out exact; long ones can be a page or two off.
+export const getAyahPage = (surahNumber: number, ayah: number) => {
+  const surah = getSurah(surahNumber);
+  if (!surah) {
+    return 1;
+  }
+  const index = getAyahIndex(
+    surah.number,
+    Math.min(Math.max(ayah, 1), surah.ayahs)
+  );
+  let anchor = pageAnchors[0];
+  let next = pageAnchors[pageAnchors.length - 1];
+  for (let position = 0; position < pageAnchors.length - 1; position += 1) {
+    if (pageAnchors[position][0] <= index) {
+      anchor = pageAnchors[position];
+      next = pageAnchors[position + 1];
+    }
+  }
+  if (next[0] === anchor[0]) {
+    return anchor[1];
+  }
+  return Math.min(
+    TOTAL_PAGES,
+    anchor[1] +
+      Math.floor(((index - anchor[0]) / (next[0] - anchor[0])) * (next[1] - anchor[1]))
+  );
+};
+
+export const getJuzForPage = (page: number) => {
+  let current = juzList[0];
+  for (const juz of juzList) {
+    if (juz.startPage <= page) {
+      current = juz;
+    }
+  }
+  return current;
+};
+
+// The latest surah to start on or before a page.
+export const getSurahForPage = (page: number) => {
+  let current = surahs[0];
+  for (const surah of surahs) {
+    if (surah.startPage <= page) {
+      current = surah;
+    } else {
+      break;
+    }
+  }
+  return current;
+};
@@ -0,0 +1,105 @@
+import {
+  getHijriMonthRange,
+  getHijriParts,
+  type HijriSettings,
+} from './hijri';
+import { formatDateKey, type DayRecord } from './habits';
+
+export type RamadanSummary = {
+  fasted: number;
+  excused: number;
+  makeUp: number;
+  taraweehNights: number;
+  taraweehRakahs: number;
+  suhoor: number;
+  iftarDua: number;
+  itikafNights: number;
+};
+
+export type MakeUpFastBalance = {
+  owed: number;
+  madeUp: number;
+  remaining: number;
+};
+
+export const RAMADAN_MONTH = 9;
+
+export const isRamadan = (date: Date, hijriSettings: HijriSettings) =>
+  getHijriParts(date, hijriSettings).month === RAMADAN_MONTH;
+
+// Eid al-Fitr, Eid al-Adha and the days of Tashreeq.
+export const isFastingForbidden = (
+  date: Date,
+  hijriSettings: HijriSettings
+) => {
+  const { day, month } = getHijriParts(date, hijriSettings);
+  return (month === 10 && day === 1) || (month === 12 && day >= 10 && day <= 13);
+};
+
+// Every Gregorian day of Ramadan in the given Hijri year, 29 or 30 of them.
+export const getRamadanDays = (
+  hijriYear: number,
+  hijriSettings: HijriSettings
+) => {
+  const { start, end } = getHijriMonthRange(
+    hijriYear,
+    RAMADAN_MONTH,
+    hijriSettings
+  );
+  const days: Date[] = [];
+  for (
+    let cursor = new Date(start);
+    cursor <= end;
+    cursor.setDate(cursor.getDate() + 1)
+  ) {
+    days.push(new Date(cursor));
+  }
+  return days;
+};
+
+export const computeRamadanSummary = (
+  records: Map<string, DayRecord>,
+  days: Date[]
+): RamadanSummary => {
+  const summary: RamadanSummary = {
+    fasted: 0,
+    excused: 0,
+    makeUp: 0,
+    taraweehNights: 0,
+    taraweehRakahs: 0,
+    suhoor: 0,
+    iftarDua: 0,
+    itikafNights: 0,
+  };
+  days.forEach((date) => {
+    const record = records.get(formatDateKey(date));
+    if (!record) {
+      return;
+    }
+    if (record.ramadanFast) {
+      summary[record.ramadanFast] += 1;
+    }
+    if (record.taraweehRakahs > 0) {
+      summary.taraweehNights += 1;
+      summary.taraweehRakahs += record.taraweehRakahs;
+    }
+    summary.suhoor += record.suhoor ? 1 : 0;
+    summary.iftarDua += record.iftarDua ? 1 : 0;
+    summary.itikafNights += record.itikaf ? 1 : 0;
+  });
+  return summary;
+};
+
+// Fasts marked "to make up" in any Ramadan, less the make-up fasts logged
+// since. The balance carries over into Shawwal and the rest of the year.
+export const computeMakeUpFastBalance = (
+  records: Map<string, DayRecord>
+): MakeUpFastBalance => {
+  let owed = 0;
+  let madeUp = 0;
+  records.forEach((record) => {
+    owed += record.ramadanFast === 'makeUp' ? 1 : 0;
+    madeUp += record.makeUpFast ? 1 : 0;
+  });
+  return { owed, madeUp, remaining: Math.max(0, owed - madeUp) };
+};
@@ -0,0 +1,221 @@
+import { formatDateKey, type HabitKey } from './habits';
+import type { HijriSettings } from './hijri';
+import { isFastingForbidden, isRamadan } from './ramadan';
+
+export type ReminderId =
+  | 'morningAdhkar'
+  | 'eveningAdhkar'
+  | 'duha'
+  | 'witr'
+  | 'kahf'
+  | 'fasting';
+
+export type ReminderSetting = {
+  enabled: boolean;
+  // HH:MM in local time.
+  time: string;
+};
+
+export type ReminderSettings = Record<ReminderId, ReminderSetting>;
+
+export type ReminderText = Record<ReminderId, { title: string; body: string }>;
+
+// Everything the service worker needs to show reminders while the app is
+// closed that it cannot work out itself. It reads the reminder settings,
+// the reminders it has shown today and the day records from IndexedDB under
+// the profile's keys given here.
+export type ReminderPlan = {
+  settingsKey: string;
+  stateKey: string;
+  dayKeyPrefix: string;
+  snoozeMinutes: number;
+  actions: { snooze: string; dismiss: string };
+  reminders: Record<
+    ReminderId,
+    {
+      title: string;
+      body: string;
+      habit: HabitKey | null;
+      weekdays: number[] | null;
+      // Days from the reminder to the day its habit is ticked in.
+      habitDayOffset: number;
+      // Habit days on which the reminder stays quiet.
+      skipDates: string[];
+    }
+  >;
+};
+
+// How reminders reach this device: from the service worker even with the
+// app closed, only while the app is open, or not at all when the worker
+// cannot read the app's data.
+export type ReminderDelivery = 'background' | 'whileOpen' | 'unavailable';
+
+export const REMINDER_SETTINGS_STORAGE_KEY = 'sunnah:reminderSettings';
+// Written by the service worker only.
+export const REMINDER_STATE_STORAGE_KEY = 'sunnah:reminderState';
+export const REMINDER_SNOOZE_MINUTES = 15;
+// How far ahead the plan lists days the fasting reminder skips. Every visit
+// to the app sends a fresh plan.
+const REMINDER_PLAN_DAYS = 60;
+const REMINDER_SYNC_TAG = 'reminders';
+const REMINDER_SYNC_INTERVAL = 60 * 60_000;
+
+export const reminderIds: ReminderId[] = [
+  'morningAdhkar',
+  'eveningAdhkar',
+  'duha',
+  'witr',
+  'kahf',
+  'fasting',
+];
+
+// The habit that makes a reminder unnecessary once ticked. Al-Kahf only
+// got a habit with the Jumu'ah checklist; no day recorded before it has
+// one, so nothing needs migrating and, as before, the reminder shows unless
+// it is ticked. The same goes for profiles that do not track it.
+const reminderHabits: Record<ReminderId, HabitKey | null> = {
+  morningAdhkar: 'morningDhikr',
+  eveningAdhkar: 'eveningDhikr',
+  duha: 'duhaPrayer',
+  witr: 'witrPrayer',
+  kahf: 'jumuahKahf',
+  fasting: 'voluntaryFasting',
+};
+
+// Weekdays a reminder is limited to (0 is Sunday). The fasting reminder
+// comes the evening before Monday and Thursday.
+const reminderWeekdays: Partial<Record<ReminderId, number[]>> = {
+  kahf: [5],
+  fasting: [0, 3],
+};
+
+const reminderHabitDayOffsets: Partial<Record<ReminderId, number>> = {
+  fasting: 1,
+};
+
+export const defaultReminderSettings: ReminderSettings = {
+  morningAdhkar: { enabled: false, time: '06:30' },
+  eveningAdhkar: { enabled: false, time: '17:00' },
+  duha: { enabled: false, time: '09:30' },
+  witr: { enabled: false, time: '22:00' },
+  kahf: { enabled: false, time: '10:00' },
+  fasting: { enabled: false, time: '21:00' },
+};
+
+// Notifications go through the service worker, so both are needed.
+export const canShowNotifications = () =>
+  typeof Notification !== 'undefined' && 'serviceWorker' in navigator;
+
+export const isReminderTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+export const parseReminderSettings = (
+  stored: string | null
+): ReminderSettings => {
+  if (!stored) {
+    return defaultReminderSettings;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<
+      Record<ReminderId, Partial<ReminderSetting>>
+    >;
+    return Object.fromEntries(
+      reminderIds.map((id) => {
+        const setting = parsed?.[id];
+        return [
+          id,
+          {
+            enabled: setting?.enabled === true,
+            time: isReminderTime(setting?.time)
+              ? setting.time
+              : defaultReminderSettings[id].time,
+          },
+        ];
+      })
+    ) as ReminderSettings;
+  } catch {
+    return defaultReminderSettings;
+  }
+};
+
+// Fasting days in the coming weeks that are in Ramadan or on which fasting
+// is not allowed, when the fasting reminder stays quiet.
+export const getFastingSkipDates = (
+  today: Date,
+  hijriSettings: HijriSettings
+) => {
+  const skipDates: string[] = [];
+  for (let offset = 0; offset <= REMINDER_PLAN_DAYS; offset += 1) {
+    const date = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() + offset
+    );
+    if (
+      isRamadan(date, hijriSettings) ||
+      isFastingForbidden(date, hijriSettings)
+    ) {
+      skipDates.push(formatDateKey(date));
+    }
+  }
+  return skipDates;
+};
+
+export const buildReminderPlan = (
+  keys: Pick<ReminderPlan, 'settingsKey' | 'stateKey' | 'dayKeyPrefix'>,
+  text: ReminderText,
+  actions: ReminderPlan['actions'],
+  fastingSkipDates: string[]
+): ReminderPlan => ({
+  ...keys,
+  snoozeMinutes: REMINDER_SNOOZE_MINUTES,
+  actions,
+  reminders: Object.fromEntries(
+    reminderIds.map((id) => [
+      id,
+      {
+        ...text[id],
+        habit: reminderHabits[id],
+        weekdays: reminderWeekdays[id] ?? null,
+        habitDayOffset: reminderHabitDayOffsets[id] ?? 0,
+        skipDates: id === 'fasting' ? fastingSkipDates : [],
+      },
+    ])
+  ) as ReminderPlan['reminders'],
+});
+
+// Periodic background sync is not in the DOM typings yet.
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  };
+};
+
+// Hands the plan, as JSON, to the service worker, which keeps it for when
+// the app is closed. Resolves to whether the worker can remind then:
+// notification triggers schedule reminders ahead, and periodic sync wakes
+// the worker now and then, though browsers only allow it for installed apps.
+export const sendReminderPlan = async (plan: string) => {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'reminderPlan', plan });
+  if ('showTrigger' in Notification.prototype) {
+    return true;
+  }
+  const { periodicSync } = registration as PeriodicSyncRegistration;
+  if (!periodicSync) {
+    return false;
+  }
+  try {
+    await periodicSync.register(REMINDER_SYNC_TAG, {
+      minInterval: REMINDER_SYNC_INTERVAL,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const requestReminderCheck = async () => {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'checkReminders' });
+};
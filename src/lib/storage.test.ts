@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openStorage } from './storage';
+
+const createMemoryStorage = (entries: Record<string, string>) => {
+  const data = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (index: number) => [...data.keys()][index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      data.delete(key);
+    },
+    clear: () => data.clear(),
+  };
+};
+
+describe('openStorage', () => {
+  // East of Greenwich, where local midnight falls on the previous UTC date.
+  beforeEach(() => {
+    vi.stubEnv('TZ', 'Asia/Riyadh');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('leaves the days of an old store as they were recorded', async () => {
+    vi.stubGlobal(
+      'localStorage',
+      createMemoryStorage({
+        'habits:2026-10-01': JSON.stringify({ fajr: true }),
+        'habits:2026-10-04': JSON.stringify({ isha: true }),
+      })
+    );
+
+    const device = await openStorage();
+    const records = await device.forProfile('default').getDays();
+
+    expect(device.backend).toBe('localStorage');
+    expect([...records.keys()].sort()).toEqual(['2026-10-01', '2026-10-04']);
+    expect(records.get('2026-10-01')?.fajr).toBeTruthy();
+  });
+});
@@ -0,0 +1,514 @@
+import {
+  formatDateKey,
+  normalizeDayRecord,
+  parseHabitsRecord,
+  RECORD_KEY_PATTERN,
+  type DayRecord,
+} from './habits';
+import { jumuahActs, type JumuahAct } from './jumuah';
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  builtInHabits,
+  DEFAULT_PROFILE_ID,
+  parseProfiles,
+  PROFILES_STORAGE_KEY,
+  sharedSettingKeys,
+} from './profiles';
+
+export const SETTINGS_KEY_PREFIX = 'sunnah:';
+
+export type DateRange = { start: string; end: string };
+
+// Days are keyed by local YYYY-MM-DD; settings keep their `sunnah:*` names.
+// Each profile sees only its own days and settings through this interface.
+export type StorageRepository = {
+  backend: 'indexedDB' | 'localStorage';
+  getDay: (dateKey: string) => Promise<DayRecord | null>;
+  putDay: (dateKey: string, record: DayRecord) => Promise<void>;
+  // Both ends are inclusive. Without a range every stored day is returned.
+  getDays: (range?: DateRange) => Promise<Map<string, DayRecord>>;
+  getSetting: (key: string) => Promise<string | null>;
+  getSettings: () => Promise<Record<string, string>>;
+  putSetting: (key: string, value: string) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+export type StorageSnapshot = {
+  records: Map<string, DayRecord>;
+  settings: Record<string, string>;
+};
+
+// What a backend stores, across every profile. Backends also remember which
+// data migrations they have been through.
+type VersionedRepository = StorageRepository & {
+  removeDay: (dateKey: string) => Promise<void>;
+  removeSetting: (key: string) => Promise<void>;
+  getSchemaVersion: () => Promise<number>;
+  setSchemaVersion: (version: number) => Promise<void>;
+};
+
+// The device-level store: the profile list and other settings outside any
+// profile, plus a repository for each profile.
+export type DeviceStorage = {
+  backend: StorageRepository['backend'];
+  getSetting: (key: string) => Promise<string | null>;
+  putSetting: (key: string, value: string) => Promise<void>;
+  forProfile: (profileId: string) => StorageRepository;
+  removeProfile: (profileId: string) => Promise<void>;
+};
+
+const DATABASE_NAME = 'sunnah-tracker';
+const DATABASE_VERSION = 1;
+const DAYS_STORE = 'days';
+const SETTINGS_STORE = 'settings';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LOCAL_SCHEMA_VERSION_KEY = 'storage:schemaVersion';
+
+const isInRange = (dateKey: string, range?: DateRange) =>
+  !range || (dateKey >= range.start && dateKey <= range.end);
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Structural changes, one step per database version.
+const upgradeDatabase = (database: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    database.createObjectStore(DAYS_STORE);
+    database.createObjectStore(SETTINGS_STORE);
+    database.createObjectStore(META_STORE);
+  }
+};
+
+const openIndexedDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) =>
+      upgradeDatabase(request.result, event.oldVersion);
+    // A blocked upgrade waits for older tabs or the service worker to let
+    // go of the database, which they do on `versionchange`, and then
+    // carries on to `onsuccess`.
+    request.onsuccess = () => {
+      const database = request.result;
+      database.onversionchange = () => database.close();
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbRepository = (
+  database: IDBDatabase
+): VersionedRepository => {
+  const read = <T>(storeName: string, key: string) =>
+    requestToPromise<T | undefined>(
+      database.transaction(storeName).objectStore(storeName).get(key)
+    );
+
+  const write = (storeName: string, key: string, value: unknown) => {
+    const transaction = database.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value, key);
+    return transactionDone(transaction);
+  };
+
+  const remove = (storeName: string, key: string) => {
+    const transaction = database.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(key);
+    return transactionDone(transaction);
+  };
+
+  const readAll = async <T>(storeName: string, query?: IDBKeyRange) => {
+    const store = database.transaction(storeName).objectStore(storeName);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys(query)),
+      requestToPromise(store.getAll(query)),
+    ]);
+    return keys.map((key, index) => [`${key}`, values[index] as T] as const);
+  };
+
+  return {
+    backend: 'indexedDB',
+    getDay: async (dateKey) => {
+      const stored = await read<Record<string, unknown>>(DAYS_STORE, dateKey);
+      return stored ? normalizeDayRecord(stored) : null;
+    },
+    putDay: (dateKey, record) => write(DAYS_STORE, dateKey, record),
+    getDays: async (range) => {
+      const entries = await readAll<Record<string, unknown>>(
+        DAYS_STORE,
+        range ? IDBKeyRange.bound(range.start, range.end) : undefined
+      );
+      return new Map(
+        entries.map(([dateKey, stored]) => [
+          dateKey,
+          normalizeDayRecord(stored),
+        ])
+      );
+    },
+    getSetting: async (key) => (await read<string>(SETTINGS_STORE, key)) ?? null,
+    getSettings: async () =>
+      Object.fromEntries(await readAll<string>(SETTINGS_STORE)),
+    putSetting: (key, value) => write(SETTINGS_STORE, key, value),
+    removeDay: (dateKey) => remove(DAYS_STORE, dateKey),
+    removeSetting: (key) => remove(SETTINGS_STORE, key),
+    clear: () => {
+      const transaction = database.transaction(
+        [DAYS_STORE, SETTINGS_STORE],
+        'readwrite'
+      );
+      transaction.objectStore(DAYS_STORE).clear();
+      transaction.objectStore(SETTINGS_STORE).clear();
+      return transactionDone(transaction);
+    },
+    getSchemaVersion: async () =>
+      (await read<number>(META_STORE, SCHEMA_VERSION_KEY)) ?? 0,
+    setSchemaVersion: (version) =>
+      write(META_STORE, SCHEMA_VERSION_KEY, version),
+  };
+};
+
+const listLocalStorageKeys = () => {
+  const keys: string[] = [];
+  try {
+    for (let index = 0; index < localStorage.length; index += 1) {
+      const key = localStorage.key(index);
+      if (key) {
+        keys.push(key);
+      }
+    }
+  } catch {
+    // Storage can be disabled entirely; treat it as empty.
+  }
+  return keys;
+};
+
+const readLocalStorage = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+// Writes are wrapped in promises so quota and private-mode errors reach the
+// caller as rejections, the same way IndexedDB failures do.
+const createLocalStorageRepository = (): VersionedRepository => {
+  const getDays = async (range?: DateRange) => {
+    const records = new Map<string, DayRecord>();
+    listLocalStorageKeys().forEach((key) => {
+      const match = RECORD_KEY_PATTERN.exec(key);
+      if (!match || !isInRange(match[1], range)) {
+        return;
+      }
+      const record = parseHabitsRecord(readLocalStorage(key));
+      if (record) {
+        records.set(match[1], record);
+      }
+    });
+    return records;
+  };
+
+  return {
+    backend: 'localStorage',
+    getDay: async (dateKey) =>
+      parseHabitsRecord(readLocalStorage(`habits:${dateKey}`)),
+    putDay: async (dateKey, record) => {
+      localStorage.setItem(`habits:${dateKey}`, JSON.stringify(record));
+    },
+    getDays,
+    getSetting: async (key) => readLocalStorage(key),
+    getSettings: async () => {
+      const settings: Record<string, string> = {};
+      listLocalStorageKeys().forEach((key) => {
+        if (key.startsWith(SETTINGS_KEY_PREFIX)) {
+          settings[key] = readLocalStorage(key) ?? '';
+        }
+      });
+      return settings;
+    },
+    putSetting: async (key, value) => {
+      localStorage.setItem(key, value);
+    },
+    removeDay: async (dateKey) => {
+      localStorage.removeItem(`habits:${dateKey}`);
+    },
+    removeSetting: async (key) => {
+      localStorage.removeItem(key);
+    },
+    clear: async () => {
+      listLocalStorageKeys()
+        .filter(
+          (key) =>
+            RECORD_KEY_PATTERN.test(key) || key.startsWith(SETTINGS_KEY_PREFIX)
+        )
+        .forEach((key) => localStorage.removeItem(key));
+    },
+    getSchemaVersion: async () =>
+      Number(readLocalStorage(LOCAL_SCHEMA_VERSION_KEY) ?? 0),
+    setSchemaVersion: async (version) => {
+      localStorage.setItem(LOCAL_SCHEMA_VERSION_KEY, `${version}`);
+    },
+  };
+};
+
+// Moves everything the app used to keep in localStorage into IndexedDB.
+// The old keys are removed only once the copy has been committed.
+const importLocalStorage = async (repository: StorageRepository) => {
+  if (repository.backend === 'localStorage') {
+    return;
+  }
+  const source = createLocalStorageRepository();
+  const [records, settings] = await Promise.all([
+    source.getDays(),
+    source.getSettings(),
+  ]);
+  for (const [dateKey, record] of records) {
+    await repository.putDay(dateKey, record);
+  }
+  for (const [key, value] of Object.entries(settings)) {
+    await repository.putSetting(key, value);
+  }
+  await source.clear();
+};
+
+// Version 2 used to fill every empty day from its UTC-keyed neighbour. No
+// key shows whether the old UTC build wrote it, so east of Greenwich that
+// made up copies of real days. Read at noon, a UTC key names the same local
+// day anyway, so the step now leaves the days as they are and only keeps
+// its version number.
+const keepLegacyUtcKeys = async () => {};
+
+// Rewrites every day so boolean prayers are stored as statuses. Reads
+// already upgrade them; this keeps the stored data in the current shape.
+const migratePrayerStatuses = async (repository: StorageRepository) => {
+  const records = await repository.getDays();
+  for (const [dateKey, record] of records) {
+    await repository.putDay(dateKey, record);
+  }
+};
+
+// Exported for the service worker, which reads the database directly.
+export const getProfileDayKey = (profileId: string, dateKey: string) =>
+  `${profileId}/${dateKey}`;
+
+// Settings shared by every profile keep their plain key; the rest are
+// stored as `sunnah:<profileId>/<name>`.
+export const getProfileSettingKey = (profileId: string, key: string) =>
+  sharedSettingKeys.includes(key)
+    ? key
+    : `${SETTINGS_KEY_PREFIX}${profileId}/${key.slice(SETTINGS_KEY_PREFIX.length)}`;
+
+const deviceSettingKeys = [PROFILES_STORAGE_KEY, ACTIVE_PROFILE_STORAGE_KEY];
+
+const isLegacySettingKey = (key: string) =>
+  key.startsWith(SETTINGS_KEY_PREFIX) &&
+  !key.includes('/') &&
+  !sharedSettingKeys.includes(key) &&
+  !deviceSettingKeys.includes(key);
+
+// Everything recorded before profiles existed belongs to the default
+// profile. Each entry is copied before its old key is removed.
+const moveIntoDefaultProfile = async (repository: VersionedRepository) => {
+  const [records, settings] = await Promise.all([
+    repository.getDays(),
+    repository.getSettings(),
+  ]);
+  for (const [dateKey, record] of records) {
+    if (!dateKey.includes('/')) {
+      await repository.putDay(
+        getProfileDayKey(DEFAULT_PROFILE_ID, dateKey),
+        record
+      );
+      await repository.removeDay(dateKey);
+    }
+  }
+  for (const [key, value] of Object.entries(settings)) {
+    if (isLegacySettingKey(key)) {
+      await repository.putSetting(
+        getProfileSettingKey(DEFAULT_PROFILE_ID, key),
+        value
+      );
+      await repository.removeSetting(key);
+    }
+  }
+};
+
+// The Jumu'ah acts became habits a profile can turn off. Profiles saved
+// before then list none of them, so adult ones get them turned on, as a new
+// adult profile would, with their statistics starting today. A device
+// without a saved list gets the default profile saved the same way.
+const enableJumuahActs = async (repository: VersionedRepository) => {
+  const today = formatDateKey(new Date());
+  const profiles = parseProfiles(
+    await repository.getSetting(PROFILES_STORAGE_KEY)
+  ).map((profile) =>
+    profile.kind === 'adult'
+      ? {
+          ...profile,
+          enabledHabits: builtInHabits.filter(
+            (habit) =>
+              profile.enabledHabits.includes(habit) ||
+              jumuahActs.includes(habit as JumuahAct)
+          ),
+          jumuahSince: today,
+        }
+      : profile
+  );
+  await repository.putSetting(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Data migrations, applied in order on top of whatever version the store
+// last recorded. Add new steps to the end; never edit a shipped one.
+const migrations: {
+  version: number;
+  migrate: (repository: VersionedRepository) => Promise<void>;
+}[] = [
+  { version: 1, migrate: importLocalStorage },
+  { version: 2, migrate: keepLegacyUtcKeys },
+  { version: 3, migrate: migratePrayerStatuses },
+  { version: 4, migrate: moveIntoDefaultProfile },
+  { version: 5, migrate: enableJumuahActs },
+];
+
+export const STORAGE_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+const runMigrations = async (repository: VersionedRepository) => {
+  const current = await repository.getSchemaVersion();
+  for (const { version, migrate } of migrations) {
+    if (version > current) {
+      await migrate(repository);
+      await repository.setSchemaVersion(version);
+    }
+  }
+};
+
+const openIndexedDbRepository = async () => {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+  let database: IDBDatabase;
+  try {
+    database = await openIndexedDb();
+  } catch {
+    return null;
+  }
+  // Once the database is open the data is in it, so a failure from here on
+  // reaches the error screen instead of starting on an empty localStorage.
+  const repository = createIndexedDbRepository(database);
+  await runMigrations(repository);
+  return repository;
+};
+
+// A profile's view of the store. Day keys and setting names look the same
+// as they did before profiles, so the rest of the app does not need to know
+// which profile it is working with. Clearing only touches this profile.
+const createProfileRepository = (
+  repository: VersionedRepository,
+  profileId: string
+): StorageRepository => {
+  const dayPrefix = getProfileDayKey(profileId, '');
+  const settingPrefix = getProfileSettingKey(profileId, SETTINGS_KEY_PREFIX);
+
+  const getDays = async (range?: DateRange) => {
+    const records = await repository.getDays({
+      start: `${dayPrefix}${range?.start ?? ''}`,
+      end: `${dayPrefix}${range?.end ?? '\uffff'}`,
+    });
+    return new Map(
+      [...records].map(([key, record]) => [key.slice(dayPrefix.length), record])
+    );
+  };
+
+  const getOwnSettingKeys = async () =>
+    Object.keys(await repository.getSettings()).filter((key) =>
+      key.startsWith(settingPrefix)
+    );
+
+  return {
+    backend: repository.backend,
+    getDay: (dateKey) =>
+      repository.getDay(getProfileDayKey(profileId, dateKey)),
+    putDay: (dateKey, record) =>
+      repository.putDay(getProfileDayKey(profileId, dateKey), record),
+    getDays,
+    getSetting: async (key) =>
+      deviceSettingKeys.includes(key)
+        ? null
+        : repository.getSetting(getProfileSettingKey(profileId, key)),
+    getSettings: async () => {
+      const settings: Record<string, string> = {};
+      Object.entries(await repository.getSettings()).forEach(
+        ([key, value]) => {
+          if (sharedSettingKeys.includes(key)) {
+            settings[key] = value;
+          } else if (key.startsWith(settingPrefix)) {
+            settings[
+              `${SETTINGS_KEY_PREFIX}${key.slice(settingPrefix.length)}`
+            ] = value;
+          }
+        }
+      );
+      return settings;
+    },
+    // Backups of a profile may carry the device keys; they are not its own.
+    putSetting: async (key, value) => {
+      if (!deviceSettingKeys.includes(key)) {
+        await repository.putSetting(getProfileSettingKey(profileId, key), value);
+      }
+    },
+    clear: async () => {
+      for (const dateKey of (await getDays()).keys()) {
+        await repository.removeDay(getProfileDayKey(profileId, dateKey));
+      }
+      for (const key of await getOwnSettingKeys()) {
+        await repository.removeSetting(key);
+      }
+    },
+  };
+};
+
+const createDeviceStorage = (
+  repository: VersionedRepository
+): DeviceStorage => ({
+  backend: repository.backend,
+  getSetting: repository.getSetting,
+  putSetting: repository.putSetting,
+  forProfile: (profileId) => createProfileRepository(repository, profileId),
+  removeProfile: (profileId) =>
+    createProfileRepository(repository, profileId).clear(),
+});
+
+// Opens IndexedDB when the browser allows it and falls back to localStorage
+// otherwise (private windows in some browsers, disabled storage, etc.).
+export const openStorage = async (): Promise<DeviceStorage> => {
+  const indexedDbRepository = await openIndexedDbRepository();
+  if (indexedDbRepository) {
+    return createDeviceStorage(indexedDbRepository);
+  }
+  const repository = createLocalStorageRepository();
+  try {
+    await runMigrations(repository);
+  } catch {
+    // A failed migration is picked up again the next time the app opens.
+  }
+  return createDeviceStorage(repository);
+};
+
+export const loadSnapshot = async (
+  repository: StorageRepository
+): Promise<StorageSnapshot> => {
+  const [records, settings] = await Promise.all([
+    repository.getDays(),
+    repository.getSettings(),
+  ]);
+  return { records, settings };
+};
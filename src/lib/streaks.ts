@@ -0,0 +1,175 @@
+import {
+  getCustomHabitKey,
+  getHabitKeysForDate,
+  isCustomHabitActiveOn,
+  type CustomHabit,
+} from './customHabits';
+import {
+  getHijriMonthRange,
+  getHijriParts,
+  isMondayOrThursday,
+  isWhiteDay,
+  type HijriSettings,
+} from './hijri';
+import {
+  formatDateKey,
+  isHabitDone,
+  parseDateKey,
+  type DayRecord,
+  type HabitKey,
+  type Habits,
+} from './habits';
+import { isRamadan } from './ramadan';
+import { prayerStatuses, type PrayerStatus } from './prayerStatus';
+import { PRAYER_NAMES, type PrayerName } from './prayerTimes';
+
+export type StreakStats = {
+  current: number;
+  longest: number;
+  // Completions and applicable days so far in the current Hijri month.
+  monthCompleted: number;
+  monthApplicable: number;
+};
+
+export const ALL_MAIN_STREAK_KEY = 'allMain';
+export type StreakKey = HabitKey | typeof ALL_MAIN_STREAK_KEY;
+
+// Whether a habit is expected on a given day. Days where it does not apply
+// are skipped entirely instead of breaking the streak.
+export const habitAppliesOn = (
+  habit: HabitKey,
+  date: Date,
+  customHabits: CustomHabit[],
+  hijriSettings: HijriSettings
+) => {
+  if (habit === 'voluntaryFasting') {
+    return (
+      !isRamadan(date, hijriSettings) &&
+      (isWhiteDay(date, hijriSettings) || isMondayOrThursday(date))
+    );
+  }
+  const customHabit = customHabits.find(
+    (candidate) => getCustomHabitKey(candidate) === habit
+  );
+  if (customHabit) {
+    return isCustomHabitActiveOn(customHabit, date);
+  }
+  return true;
+};
+
+const emptyStats = (): StreakStats => ({
+  current: 0,
+  longest: 0,
+  monthCompleted: 0,
+  monthApplicable: 0,
+});
+
+// Walks every day from the first stored record up to today. A habit that is
+// not done yet today keeps yesterday's streak alive rather than resetting it.
+export const computeStreaks = (
+  records: Map<string, DayRecord>,
+  habits: HabitKey[],
+  enabledHabits: (keyof Habits)[],
+  customHabits: CustomHabit[],
+  today: Date,
+  hijriSettings: HijriSettings
+) => {
+  const stats = {} as Record<StreakKey, StreakStats>;
+  habits.forEach((habit) => {
+    stats[habit] = emptyStats();
+  });
+  stats[ALL_MAIN_STREAK_KEY] = emptyStats();
+
+  const todayKey = formatDateKey(today);
+  const firstKey = [...records.keys()].sort()[0];
+  if (!firstKey || firstKey > todayKey) {
+    return stats;
+  }
+
+  const todayHijri = getHijriParts(today, hijriSettings);
+  const track = (
+    entry: StreakStats,
+    done: boolean,
+    isToday: boolean,
+    inCurrentMonth: boolean
+  ) => {
+    if (inCurrentMonth) {
+      entry.monthApplicable += 1;
+      if (done) {
+        entry.monthCompleted += 1;
+      }
+    }
+    if (done) {
+      entry.current += 1;
+      entry.longest = Math.max(entry.longest, entry.current);
+    } else if (!isToday) {
+      entry.current = 0;
+    }
+  };
+
+  for (
+    let cursor = parseDateKey(firstKey);
+    formatDateKey(cursor) <= todayKey;
+    cursor.setDate(cursor.getDate() + 1)
+  ) {
+    const dateKey = formatDateKey(cursor);
+    const record = records.get(dateKey);
+    const isToday = dateKey === todayKey;
+    const hijri = getHijriParts(cursor, hijriSettings);
+    const inCurrentMonth =
+      hijri.year === todayHijri.year && hijri.month === todayHijri.month;
+
+    habits.forEach((habit) => {
+      if (!habitAppliesOn(habit, cursor, customHabits, hijriSettings)) {
+        return;
+      }
+      const done = isHabitDone(record?.[habit]);
+      track(stats[habit], done, isToday, inCurrentMonth);
+    });
+
+    const mainKeys = getHabitKeysForDate(
+      enabledHabits,
+      customHabits,
+      cursor
+    ).main;
+    const allMainDone =
+      !!record && mainKeys.every((habit) => isHabitDone(record[habit]));
+    track(stats[ALL_MAIN_STREAK_KEY], allMainDone, isToday, inCurrentMonth);
+  }
+
+  return stats;
+};
+
+export type PrayerStatusCounts = Record<PrayerName, Record<PrayerStatus, number>>;
+
+// How each prayer was recorded on the days of the current Hijri month so far.
+export const computePrayerStatusCounts = (
+  records: Map<string, DayRecord>,
+  today: Date,
+  hijriSettings: HijriSettings
+) => {
+  const counts = Object.fromEntries(
+    PRAYER_NAMES.map((prayer) => [
+      prayer,
+      Object.fromEntries(prayerStatuses.map((status) => [status, 0])),
+    ])
+  ) as PrayerStatusCounts;
+
+  const { year, month } = getHijriParts(today, hijriSettings);
+  const todayKey = formatDateKey(today);
+  for (
+    let cursor = getHijriMonthRange(year, month, hijriSettings).start;
+    formatDateKey(cursor) <= todayKey;
+    cursor.setDate(cursor.getDate() + 1)
+  ) {
+    const record = records.get(formatDateKey(cursor));
+    PRAYER_NAMES.forEach((prayer) => {
+      const status = record?.[prayer];
+      if (status) {
+        counts[prayer][status] += 1;
+      }
+    });
+  }
+
+  return counts;
+};
@@ -0,0 +1,379 @@
+import {
+  defaultHabits,
+  getHabitCompletion,
+  normalizeDayRecord,
+  type DayRecord,
+  type HabitKey,
+  type HabitValue,
+  type Habits,
+} from './habits';
+import type { StorageRepository } from './storage';
+
+// Moves encrypted copies of the daily records between devices. A transport
+// only stores and returns one opaque payload; merging happens on each
+// device, so the file or server never sees the data in the clear.
+export type SyncTransport = {
+  // The payload last pushed by any device, or null when there is none yet.
+  pull: () => Promise<string | null>;
+  push: (payload: string) => Promise<void>;
+};
+
+export type SyncSettings = {
+  // Where the sync server keeps this profile's payload. Empty when only
+  // sync files are used.
+  serverUrl: string;
+};
+
+export type SyncError =
+  | 'unknownFormat'
+  | 'newerVersion'
+  | 'wrongPassphrase'
+  | 'transport'
+  | 'storage';
+
+export type SyncResult = {
+  // Days changed on this device by the merge.
+  receivedDays: number;
+  // Days the other devices were missing or had older values for.
+  sentDays: number;
+};
+
+export const SYNC_SETTINGS_STORAGE_KEY = 'sunnah:syncSettings';
+const SYNC_APP_ID = 'sunnah-tracker-sync';
+const SYNC_FORMAT_VERSION = 1;
+const KEY_ITERATIONS = 250_000;
+
+type SyncEnvelope = {
+  app: typeof SYNC_APP_ID;
+  version: number;
+  // Base64. The salt derives the key from the passphrase; the IV is fresh
+  // for every payload.
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+const habitKeys = Object.keys(defaultHabits) as (keyof Habits)[];
+
+export const defaultSyncSettings: SyncSettings = { serverUrl: '' };
+
+export const parseSyncSettings = (stored: string | null): SyncSettings => {
+  if (!stored) {
+    return defaultSyncSettings;
+  }
+  try {
+    const parsed = JSON.parse(stored) as Partial<SyncSettings>;
+    return {
+      serverUrl: typeof parsed?.serverUrl === 'string' ? parsed.serverUrl : '',
+    };
+  } catch {
+    return defaultSyncSettings;
+  }
+};
+
+const getDayHabitKeys = (...records: DayRecord[]) => {
+  const customKeys = new Set<HabitKey>();
+  records.forEach((record) =>
+    Object.keys(record).forEach((key) => {
+      if (key.startsWith('custom:')) {
+        customKeys.add(key as HabitKey);
+      }
+    })
+  );
+  return [...habitKeys, ...customKeys] as HabitKey[];
+};
+
+// Records when each habit of the day changed, so a later sync can tell
+// which device's value is newer.
+export const stampDayChanges = (
+  previous: DayRecord | undefined,
+  next: DayRecord,
+  now: number
+): DayRecord => {
+  const before: Partial<Record<HabitKey, HabitValue>> =
+    previous ?? defaultHabits;
+  const changed = getDayHabitKeys(next).filter(
+    (habit) => (before[habit] ?? null) !== (next[habit] ?? null)
+  );
+  if (changed.length === 0) {
+    return next;
+  }
+  return {
+    ...next,
+    changedAt: {
+      ...next.changedAt,
+      ...Object.fromEntries(changed.map((habit) => [habit, now])),
+    },
+  };
+};
+
+const getChangedAt = (record: DayRecord, habit: HabitKey) =>
+  record.changedAt?.[habit] ?? 0;
+
+// Per habit, the later change wins. Days recorded before sync existed carry
+// no change times; between those the more complete value wins, so a tick on
+// either device is kept. Whatever still ties is settled the same way on
+// every device, so they all end up with the same day.
+const prefersRemote = (
+  habit: HabitKey,
+  local: DayRecord,
+  remote: DayRecord
+) => {
+  const localTime = getChangedAt(local, habit);
+  const remoteTime = getChangedAt(remote, habit);
+  if (localTime !== remoteTime) {
+    return remoteTime > localTime;
+  }
+  const localCompletion = getHabitCompletion(local[habit]);
+  const remoteCompletion = getHabitCompletion(remote[habit]);
+  if (localCompletion !== remoteCompletion) {
+    return remoteCompletion > localCompletion;
+  }
+  return JSON.stringify(remote[habit]) > JSON.stringify(local[habit]);
+};
+
+const isSameDay = (first: DayRecord, second: DayRecord) =>
+  getDayHabitKeys(first, second).every(
+    (habit) =>
+      (first[habit] ?? null) === (second[habit] ?? null) &&
+      getChangedAt(first, habit) === getChangedAt(second, habit)
+  );
+
+export const mergeDayRecords = (
+  local: DayRecord,
+  remote: DayRecord
+): DayRecord => {
+  const merged: Record<string, unknown> = { ...local };
+  const changedAt: Partial<Record<HabitKey, number>> = {};
+  getDayHabitKeys(local, remote).forEach((habit) => {
+    const source = prefersRemote(habit, local, remote) ? remote : local;
+    if (source[habit] === undefined) {
+      delete merged[habit];
+    } else {
+      merged[habit] = source[habit];
+    }
+    if (source.changedAt?.[habit] !== undefined) {
+      changedAt[habit] = source.changedAt[habit];
+    }
+  });
+  delete merged.changedAt;
+  if (Object.keys(changedAt).length > 0) {
+    merged.changedAt = changedAt;
+  }
+  return merged as DayRecord;
+};
+
+// Merges every day both sides know about. Days only one side has are
+// copied over whole.
+export const mergeSyncRecords = (
+  local: Map<string, DayRecord>,
+  remote: Map<string, DayRecord>
+) => {
+  const merged = new Map(local);
+  const receivedDays: string[] = [];
+  let sentDays = 0;
+
+  remote.forEach((remoteRecord, dateKey) => {
+    const localRecord = local.get(dateKey);
+    const mergedRecord = localRecord
+      ? mergeDayRecords(localRecord, remoteRecord)
+      : remoteRecord;
+    if (!localRecord || !isSameDay(localRecord, mergedRecord)) {
+      merged.set(dateKey, mergedRecord);
+      receivedDays.push(dateKey);
+    }
+    if (!isSameDay(remoteRecord, mergedRecord)) {
+      sentDays += 1;
+    }
+  });
+  local.forEach((_, dateKey) => {
+    if (!remote.has(dateKey)) {
+      sentDays += 1;
+    }
+  });
+
+  return { merged, receivedDays, sentDays };
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so long payloads stay within the argument limit.
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (character) => character.charCodeAt(0));
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>
+) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KEY_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSyncPayload = async (
+  records: Map<string, DayRecord>,
+  passphrase: string
+) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(
+      JSON.stringify({ records: Object.fromEntries(records) })
+    )
+  );
+  const envelope: SyncEnvelope = {
+    app: SYNC_APP_ID,
+    version: SYNC_FORMAT_VERSION,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  };
+  return JSON.stringify(envelope);
+};
+
+const isSyncEnvelope = (value: unknown): value is SyncEnvelope => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const envelope = value as Partial<SyncEnvelope>;
+  return (
+    envelope.app === SYNC_APP_ID &&
+    typeof envelope.version === 'number' &&
+    typeof envelope.salt === 'string' &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.data === 'string'
+  );
+};
+
+export const decryptSyncPayload = async (
+  text: string,
+  passphrase: string
+): Promise<{ records: Map<string, DayRecord> } | { error: SyncError }> => {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(text);
+  } catch {
+    return { error: 'unknownFormat' };
+  }
+  if (!isSyncEnvelope(envelope)) {
+    return { error: 'unknownFormat' };
+  }
+  if (envelope.version > SYNC_FORMAT_VERSION) {
+    return { error: 'newerVersion' };
+  }
+
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.salt));
+    plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+      key,
+      fromBase64(envelope.data)
+    );
+  } catch {
+    // AES-GCM refuses to decrypt with the wrong key.
+    return { error: 'wrongPassphrase' };
+  }
+
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(plain)) as {
+      records?: Record<string, unknown>;
+    };
+    const records = new Map<string, DayRecord>();
+    Object.entries(parsed.records ?? {}).forEach(([dateKey, value]) => {
+      if (
+        /^\d{4}-\d{2}-\d{2}$/.test(dateKey) &&
+        value &&
+        typeof value === 'object' &&
+        !Array.isArray(value)
+      ) {
+        records.set(
+          dateKey,
+          normalizeDayRecord(value as Record<string, unknown>)
+        );
+      }
+    });
+    return { records };
+  } catch {
+    return { error: 'unknownFormat' };
+  }
+};
+
+// Pulls the other devices' days, merges them into this profile's, writes
+// back whatever changed here and pushes the merged result for the others.
+// A push that loses a race with another device is not a loss: each device
+// keeps its own days and sends them again on its next sync. A push that
+// fails still returns the merged days, since the received ones are saved.
+export const syncRecords = async (
+  storage: StorageRepository,
+  transport: SyncTransport,
+  passphrase: string
+): Promise<
+  | { result: SyncResult; records: Map<string, DayRecord> }
+  | { error: SyncError; records?: Map<string, DayRecord> }
+> => {
+  let payload: string | null;
+  try {
+    payload = await transport.pull();
+  } catch {
+    return { error: 'transport' };
+  }
+
+  let remote = new Map<string, DayRecord>();
+  if (payload !== null) {
+    const decrypted = await decryptSyncPayload(payload, passphrase);
+    if ('error' in decrypted) {
+      return decrypted;
+    }
+    remote = decrypted.records;
+  }
+
+  let local: Map<string, DayRecord>;
+  try {
+    local = await storage.getDays();
+  } catch {
+    return { error: 'storage' };
+  }
+
+  const { merged, receivedDays, sentDays } = mergeSyncRecords(local, remote);
+  try {
+    for (const dateKey of receivedDays) {
+      await storage.putDay(dateKey, merged.get(dateKey)!);
+    }
+  } catch {
+    return { error: 'storage' };
+  }
+
+  if (payload === null || sentDays > 0) {
+    try {
+      await transport.push(await encryptSyncPayload(merged, passphrase));
+    } catch {
+      return { error: 'transport', records: merged };
+    }
+  }
+
+  return {
+    result: { receivedDays: receivedDays.length, sentDays },
+    records: merged,
+  };
+};
@@ -0,0 +1,43 @@
+import { downloadFile } from './download';
+import { formatDateKey } from './habits';
+import type { SyncTransport } from './sync';
+
+// A sync file carried between devices. Pulling reads the file picked on
+// this device, if any; pushing saves the merged result as a new file to
+// take to the next device.
+export const createFileTransport = (file: File | null): SyncTransport => ({
+  pull: async () => (file ? file.text() : null),
+  push: async (payload) => {
+    downloadFile(
+      `sunnah-tracker-sync-${formatDateKey(new Date())}.json`,
+      payload,
+      'application/json'
+    );
+  },
+});
+
+// A self-hosted endpoint that keeps one payload per URL: GET returns it
+// (404 before the first push) and PUT replaces it. scripts/sync-server.mjs
+// is a minimal one for local use and testing.
+export const createHttpTransport = (url: string): SyncTransport => ({
+  pull: async () => {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`sync server answered ${response.status}`);
+    }
+    return response.text();
+  },
+  push: async (payload) => {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+    });
+    if (!response.ok) {
+      throw new Error(`sync server answered ${response.status}`);
+    }
+  },
+});
@@ -0,0 +1,191 @@
+import { formatDateKey, type HabitKey } from './habits';
+
+export type Dhikr = {
+  id: string;
+  name: string;
+  target: number;
+  // Habit ticked automatically once the day's count reaches the target.
+  habit: HabitKey | null;
+};
+
+export type TasbihSettings = {
+  adhkar: Dhikr[];
+  vibrate: boolean;
+};
+
+// Counts per dhikr id, keyed by YYYY-MM-DD.
+export type TasbihCounts = Record<string, Record<string, number>>;
+
+export type DhikrTotals = {
+  today: number;
+  week: number;
+  month: number;
+  allTime: number;
+};
+
+export const TASBIH_SETTINGS_STORAGE_KEY = 'sunnah:tasbih';
+export const TASBIH_COUNTS_STORAGE_KEY = 'sunnah:tasbihCounts';
+
+export const defaultTasbihSettings: TasbihSettings = {
+  adhkar: [
+    { id: 'subhanallah', name: 'SubhanAllah', target: 33, habit: null },
+    { id: 'alhamdulillah', name: 'Alhamdulillah', target: 33, habit: null },
+    { id: 'allahuAkbar', name: 'Allahu Akbar', target: 34, habit: null },
+    { id: 'astaghfirullah', name: 'Astaghfirullah', target: 100, habit: null },
+    { id: 'salawat', name: 'Salawat on the Prophet ﷺ', target: 10, habit: null },
+  ],
+  vibrate: true,
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isDhikr = (value: unknown): value is Dhikr => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const dhikr = value as Partial<Dhikr>;
+  return (
+    typeof dhikr.id === 'string' &&
+    typeof dhikr.name === 'string' &&
+    isCount(dhikr.target) &&
+    dhikr.target > 0 &&
+    (dhikr.habit === null || typeof dhikr.habit === 'string')
+  );
+};
+
+export const parseTasbihSettings = (stored: string | null): TasbihSettings => {
+  if (!stored) {
+    return defaultTasbihSettings;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<
+      Record<keyof TasbihSettings, unknown>
+    >;
+    return {
+      adhkar: Array.isArray(parsed.adhkar)
+        ? parsed.adhkar.filter(isDhikr)
+        : defaultTasbihSettings.adhkar,
+      vibrate:
+        typeof parsed.vibrate === 'boolean'
+          ? parsed.vibrate
+          : defaultTasbihSettings.vibrate,
+    };
+  } catch {
+    return defaultTasbihSettings;
+  }
+};
+
+export const parseTasbihCounts = (stored: string | null): TasbihCounts => {
+  if (!stored) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    const counts: TasbihCounts = {};
+    Object.entries(parsed as Record<string, unknown>).forEach(
+      ([dateKey, day]) => {
+        if (
+          !/^\d{4}-\d{2}-\d{2}$/.test(dateKey) ||
+          !day ||
+          typeof day !== 'object'
+        ) {
+          return;
+        }
+        const entries = Object.entries(day as Record<string, unknown>).filter(
+          (entry): entry is [string, number] =>
+            isCount(entry[1]) && entry[1] > 0
+        );
+        if (entries.length > 0) {
+          counts[dateKey] = Object.fromEntries(entries);
+        }
+      }
+    );
+    return counts;
+  } catch {
+    return {};
+  }
+};
+
+export const createDhikr = (
+  fields: Pick<Dhikr, 'name' | 'target' | 'habit'>
+): Dhikr => ({
+  ...fields,
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+});
+
+export const getDhikrCount = (
+  counts: TasbihCounts,
+  dhikrId: string,
+  date: Date
+) => counts[formatDateKey(date)]?.[dhikrId] ?? 0;
+
+export const setDhikrCount = (
+  counts: TasbihCounts,
+  dhikrId: string,
+  date: Date,
+  count: number
+): TasbihCounts => {
+  const dateKey = formatDateKey(date);
+  const day = { ...counts[dateKey], [dhikrId]: Math.max(0, count) };
+  if (day[dhikrId] === 0) {
+    delete day[dhikrId];
+  }
+  const next = { ...counts, [dateKey]: day };
+  if (Object.keys(day).length === 0) {
+    delete next[dateKey];
+  }
+  return next;
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Week and month are the last 7 and 30 days, today included.
+export const getDhikrTotals = (
+  counts: TasbihCounts,
+  dhikrId: string,
+  today: Date
+): DhikrTotals => {
+  const todayKey = formatDateKey(today);
+  const weekStart = formatDateKey(addDays(today, -6));
+  const monthStart = formatDateKey(addDays(today, -29));
+  const totals: DhikrTotals = { today: 0, week: 0, month: 0, allTime: 0 };
+  Object.entries(counts).forEach(([dateKey, day]) => {
+    const count = day[dhikrId] ?? 0;
+    if (count === 0 || dateKey > todayKey) {
+      return;
+    }
+    totals.allTime += count;
+    if (dateKey >= monthStart) {
+      totals.month += count;
+    }
+    if (dateKey >= weekStart) {
+      totals.week += count;
+    }
+    if (dateKey === todayKey) {
+      totals.today += count;
+    }
+  });
+  return totals;
+};
+
+// Daily totals across every dhikr for the last `days` days, oldest first.
+export const getDailyTotals = (
+  counts: TasbihCounts,
+  today: Date,
+  days: number
+) =>
+  Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index - days + 1);
+    const day = counts[formatDateKey(date)] ?? {};
+    return {
+      date,
+      total: Object.values(day).reduce((sum, count) => sum + count, 0),
+    };
+  });
@@ -1,10 +1,42 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import ProfileRoot from './ProfileRoot';
+import StorageErrorScreen from './components/StorageErrorScreen';
+import {
+  ACTIVE_PROFILE_STORAGE_KEY,
+  getActiveProfile,
+  parseProfiles,
+  PROFILES_STORAGE_KEY,
+} from './lib/profiles';
+import { loadSnapshot, openStorage } from './lib/storage';
 import './index.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+const root = ReactDOM.createRoot(document.getElementById('root')!);
+
+const start = async () => {
+  const device = await openStorage();
+  const profiles = parseProfiles(await device.getSetting(PROFILES_STORAGE_KEY));
+  const activeProfile = getActiveProfile(
+    profiles,
+    await device.getSetting(ACTIVE_PROFILE_STORAGE_KEY)
+  );
+  const snapshot = await loadSnapshot(device.forProfile(activeProfile.id));
+  root.render(
+    <React.StrictMode>
+      <ProfileRoot
+        device={device}
+        initialProfiles={profiles}
+        initialProfileId={activeProfile.id}
+        initialSnapshot={snapshot}
+      />
+    </React.StrictMode>
+  );
+};
+
+start().catch(() => {
+  root.render(
+    <React.StrictMode>
+      <StorageErrorScreen />
+    </React.StrictMode>
+  );
+});
@@ -1,7 +1,66 @@
+var __spreadArray = (this && this.__spreadArray) || function (to, from, pack) {
+    if (pack || arguments.length === 2) for (var i = 0, l = from.length, ar; i < l; i++) {
+        if (ar || !(i in from)) {
+            if (!ar) ar = Array.prototype.slice.call(from, 0, i);
+            ar[i] = from[i];
+        }
+    }
+    return to.concat(ar || Array.prototype.slice.call(from));
+};
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { wuchale } from '@wuchale/vite-plugin';
+var SERVICE_WORKER_FILE = 'sw.js';
+var SERVICE_WORKER_BUILD = "const BUILD = { version: 'development', files: [] };";
+// Fills the service worker's precache list with everything the build wrote,
+// lazily loaded translation catalogs included, plus the public files. The
+// version changes with the content, so each deploy installs a new worker.
+var precacheServiceWorker = function () {
+    var outDir = 'dist';
+    var publicDir = 'public';
+    var files = new Map();
+    return {
+        name: 'precache-service-worker',
+        apply: 'build',
+        configResolved: function (config) {
+            outDir = config.build.outDir;
+            publicDir = config.publicDir;
+        },
+        generateBundle: function (_, bundle) {
+            Object.values(bundle).forEach(function (output) {
+                files.set(output.fileName, output.type === 'chunk' ? output.code : output.source);
+            });
+        },
+        closeBundle: function () {
+            readdirSync(publicDir)
+                .filter(function (fileName) { return fileName !== SERVICE_WORKER_FILE; })
+                .forEach(function (fileName) {
+                return files.set(fileName, readFileSync(join(publicDir, fileName)));
+            });
+            var hash = createHash('sha256');
+            var fileNames = Array.from(files.keys()).sort();
+            fileNames.forEach(function (fileName) {
+                hash.update(fileName);
+                hash.update(files.get(fileName));
+            });
+            var build = {
+                version: hash.digest('hex').slice(0, 12),
+                // The app shell is requested as the directory, not as index.html.
+                files: __spreadArray(['./'], fileNames.filter(function (name) { return name !== 'index.html'; }), true),
+            };
+            var workerPath = join(outDir, SERVICE_WORKER_FILE);
+            var source = readFileSync(workerPath, 'utf8');
+            if (!source.includes(SERVICE_WORKER_BUILD)) {
+                throw new Error("".concat(workerPath, " has no build placeholder to fill in"));
+            }
+            writeFileSync(workerPath, source.replace(SERVICE_WORKER_BUILD, "const BUILD = ".concat(JSON.stringify(build), ";")));
+        },
+    };
+};
 export default defineConfig({
     base: '/SunnahTracker/',
-    plugins: [wuchale(), react()],
+    plugins: [wuchale(), react(), precacheServiceWorker()],
 });
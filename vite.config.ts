@@ -1,8 +1,73 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, type Plugin as VitePlugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { wuchale } from '@wuchale/vite-plugin';
 
+const SERVICE_WORKER_FILE = 'sw.js';
+const SERVICE_WORKER_BUILD =
+  "const BUILD = { version: 'development', files: [] };";
+
+// Fills the service worker's precache list with everything the build wrote,
+// lazily loaded translation catalogs included, plus the public files. The
+// version changes with the content, so each deploy installs a new worker.
+const precacheServiceWorker = (): VitePlugin => {
+  let outDir = 'dist';
+  let publicDir = 'public';
+  const files = new Map<string, string | Uint8Array>();
+
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir;
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      Object.values(bundle).forEach((output) => {
+        files.set(
+          output.fileName,
+          output.type === 'chunk' ? output.code : output.source
+        );
+      });
+    },
+    closeBundle() {
+      readdirSync(publicDir)
+        .filter((fileName) => fileName !== SERVICE_WORKER_FILE)
+        .forEach((fileName) =>
+          files.set(fileName, readFileSync(join(publicDir, fileName)))
+        );
+
+      const hash = createHash('sha256');
+      const fileNames = Array.from(files.keys()).sort();
+      fileNames.forEach((fileName) => {
+        hash.update(fileName);
+        hash.update(files.get(fileName)!);
+      });
+      const build = {
+        version: hash.digest('hex').slice(0, 12),
+        // The app shell is requested as the directory, not as index.html.
+        files: ['./', ...fileNames.filter((name) => name !== 'index.html')],
+      };
+
+      const workerPath = join(outDir, SERVICE_WORKER_FILE);
+      const source = readFileSync(workerPath, 'utf8');
+      if (!source.includes(SERVICE_WORKER_BUILD)) {
+        throw new Error(`${workerPath} has no build placeholder to fill in`);
+      }
+      writeFileSync(
+        workerPath,
+        source.replace(
+          SERVICE_WORKER_BUILD,
+          `const BUILD = ${JSON.stringify(build)};`
+        )
+      );
+    },
+  };
+};
+
 export default defineConfig({
   base: '/SunnahTracker/',
-  plugins: [wuchale(), react()],
+  plugins: [wuchale(), react(), precacheServiceWorker()],
 });